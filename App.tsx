@@ -1,41 +1,126 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Asset, Portfolio as PortfolioType, Transaction, LimitOrder } from './types';
-import { INITIAL_ASSETS, SIMULATION_INTERVAL_MS, HISTORY_POINTS, DEFAULT_PORTFOLIO_DATA } from './constants';
-import { authenticateUser, subscribeToPortfolio, updatePortfolio } from './services/firebaseService';
+import {
+  Asset,
+  Portfolio as PortfolioType,
+  OrderIntent,
+  OrderAmendmentRequest,
+  EngineContext,
+  EngineEvent,
+  EngineResult,
+  CostBasisMethod,
+  AccountType,
+  StoreUser,
+  SyncStatus,
+  HistoryFilter,
+  HistoryCursor,
+  HistoryPage,
+  ChartView,
+  ExportKind,
+  ImportMode,
+  IndicatorConfig,
+  PriceAlertRequest,
+  NotificationCategory,
+  MarketEvent,
+  InterestAccrual,
+  Transaction
+} from './types';
+import {
+  DEFAULT_ASSET_CATALOG,
+  SIMULATION_INTERVAL_MS,
+  SIMULATION_SEED,
+  DEFAULT_PORTFOLIO_DATA,
+  DEFAULT_FEE_SCHEDULE,
+  DEFAULT_MARGIN_CONFIG,
+  SYNC_STATUS_LABELS,
+  CHART_VIEW_LABELS
+} from './constants';
+import {
+  authenticateUser,
+  subscribeToPortfolio,
+  mutatePortfolio,
+  normalizePortfolio,
+  subscribeToCatalog,
+  loadHistory,
+  loadAllHistory,
+  loadFills
+} from './services/portfolioStore';
+import {
+  holdingsCsv,
+  openOrdersCsv,
+  tradesCsv,
+  exportPortfolio,
+  parsePortfolioExport,
+  importPortfolio
+} from './services/portfolioTransfer';
+import {
+  submitOrder,
+  cancelOrder,
+  amendOrder,
+  matchOpenOrders,
+  applyMarginRules,
+  tickInterest,
+  setCostBasisMethod,
+  setAccountType,
+  depositCash,
+  resetPortfolio,
+  settleDelistings
+} from './services/tradingEngine';
+import { createMarketSimulator } from './services/marketSimulator';
+import { recordEquity } from './services/equity';
+import { setIndicators } from './services/indicators';
+import { evaluateAlerts, addAlert, removeAlert, setAlertActive } from './services/alerts';
+import { deliverNotifications, markNotificationsRead, setToastCategory } from './services/notifications';
+import {
+  createWatchlist,
+  renameWatchlist,
+  deleteWatchlist,
+  toggleWatchlistAsset,
+  moveWatchlistAsset
+} from './services/watchlists';
 import AssetList from './components/AssetList';
 import Chart from './components/Chart';
+import EquityChart from './components/EquityChart';
+import AnalyticsPanel from './components/AnalyticsPanel';
 import TradePanel from './components/TradePanel';
 import Portfolio from './components/Portfolio';
+import NotificationCenter from './components/NotificationCenter';
+import NewsFeed from './components/NewsFeed';
 import { LayoutGrid, Bell } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 // Simple unique ID generator if uuid package not avail, but we assume standard env or use Date
 const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
 
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 const App: React.FC = () => {
   // -- State --
-  const [assets, setAssets] = useState<Asset[]>(() => 
-    INITIAL_ASSETS.map(a => ({
-      ...a,
-      current_price: a.initial_price,
-      history: Array(HISTORY_POINTS).fill(0).map((_, i) => ({
-        time: Date.now() - (HISTORY_POINTS - i) * 1000,
-        price: a.initial_price,
-        volume: Math.floor(Math.random() * 1000)
-      })),
-      change24h: 0
-    }))
-  );
+  const [simulator] = useState(() => createMarketSimulator(window.__simulation_seed ?? SIMULATION_SEED));
+  const [assets, setAssets] = useState<Asset[]>(() => simulator.initialAssets(DEFAULT_ASSET_CATALOG, Date.now()));
+  const [marketEvents, setMarketEvents] = useState<MarketEvent[]>([]);
   
-  const [selectedAssetId, setSelectedAssetId] = useState<string>(INITIAL_ASSETS[0].id);
+  const [selectedAssetId, setSelectedAssetId] = useState<string>(DEFAULT_ASSET_CATALOG[0].id);
   const [portfolio, setPortfolio] = useState<PortfolioType>(DEFAULT_PORTFOLIO_DATA);
-  const [user, setUser] = useState<any>(null);
+  const [user, setUser] = useState<StoreUser | null>(null);
   const [isTrading, setIsTrading] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('SYNCED');
+  const [chartView, setChartView] = useState<ChartView>('MARKET');
   const [notifications, setNotifications] = useState<{id: string, message: string, type: 'success' | 'info'}[]>([]);
 
   // Refs for simulation access to current state without dependency loops
   const portfolioRef = useRef(portfolio);
   useEffect(() => { portfolioRef.current = portfolio; }, [portfolio]);
+  const assetsRef = useRef(assets);
+  useEffect(() => { assetsRef.current = assets; }, [assets]);
+  // Margin interest accrues here each tick and is written out only when charged
+  const interestRef = useRef<InterestAccrual>({ amount: 0, since: Date.now() });
 
   const addNotification = (message: string, type: 'success' | 'info' = 'info') => {
     const id = generateId();
@@ -45,115 +130,114 @@ const App: React.FC = () => {
     }, 4000);
   };
 
-  // -- Simulation Effect --
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setAssets(prevAssets => {
-        const newAssets = prevAssets.map(asset => {
-          // Random Walk Logic
-          const volatility = 0.02;
-          const change = (Math.random() * (volatility * 2)) - volatility;
-          const newPrice = Math.max(0.01, asset.current_price * (1 + change));
-          const newVolume = Math.floor(Math.random() * 2000) + 100; // Simulated volume
-          
-          const newHistoryPoint = {
-            time: Date.now(),
-            price: newPrice,
-            volume: newVolume
-          };
+  const publishEvents = (events: EngineEvent[]) => {
+    events.forEach(event => {
+      if (event.kind === 'NOTIFICATION' && portfolioRef.current.toastCategories[event.category || 'SYSTEM'] !== false) {
+        addNotification(event.message, event.level);
+      }
+      if (event.kind === 'LIQUIDITY_TAKEN') {
+        // Consumed depth stays gone until the next tick replenishes the book
+        const newAssets = assetsRef.current.map(a =>
+          a.id === event.assetId ? { ...a, orderBook: event.book } : a
+        );
+        assetsRef.current = newAssets;
+        setAssets(newAssets);
+      }
+      if (event.kind === 'INTEREST_CHARGED') {
+        // Ticks that ran while the charge was saving keep what they added
+        interestRef.current = { amount: interestRef.current.amount - event.amount, since: Date.now() };
+      }
+    });
+  };
 
-          const newHistory = [...asset.history.slice(1), newHistoryPoint];
-          
-          const startPrice = newHistory[0].price;
-          const priceChange = ((newPrice - startPrice) / startPrice) * 100;
-
-          return {
-            ...asset,
-            current_price: newPrice,
-            history: newHistory,
-            change24h: priceChange
-          };
-        });
+  const engineContext = (): EngineContext => ({
+    now: Date.now(),
+    generateId,
+    feeSchedule: DEFAULT_FEE_SCHEDULE,
+    margin: DEFAULT_MARGIN_CONFIG
+  });
+
+  /**
+   * Runs an engine step and persists it. A dry run on the local copy lets
+   * ticks with nothing to do skip the store; otherwise the step runs against
+   * the latest stored portfolio under a version check, so a fill, a user
+   * action and another tab can't overwrite each other. Only the run that was
+   * committed is published, and its notifications are filed in the inbox as
+   * part of the same write.
+   */
+  const commit = async (step: (current: PortfolioType) => EngineResult, showSaving = true) => {
+    if (!user) return;
 
-        // -- Limit Order Matching Logic --
-        // We check if any open orders can be filled with the NEW prices
-        const currentPortfolio = portfolioRef.current;
-        if (user && currentPortfolio.openOrders.length > 0) {
-          let portfolioChanged = false;
-          const newPortfolio = JSON.parse(JSON.stringify(currentPortfolio)) as PortfolioType;
-          const remainingOrders: LimitOrder[] = [];
-
-          newPortfolio.openOrders.forEach(order => {
-            const asset = newAssets.find(a => a.id === order.assetId);
-            if (!asset) {
-              remainingOrders.push(order);
-              return;
-            }
-
-            let executed = false;
-            // BUY Limit: Execute if Current Price <= Target Price
-            if (order.type === 'BUY' && asset.current_price <= order.targetPrice) {
-              // Execute Buy
-              const cost = order.quantity * order.targetPrice;
-              // Cash was already deducted when order was placed? 
-              // Standard practice: Reserve cash. In this simple app, we reserve cash at placement.
-              // So we just move the holding.
-              const currentHolding = newPortfolio.holdings[asset.id] || { quantity: 0, avgCost: 0 };
-              const oldTotalVal = currentHolding.quantity * currentHolding.avgCost;
-              const newTotalVal = oldTotalVal + cost;
-              const newQty = currentHolding.quantity + order.quantity;
-              
-              newPortfolio.holdings[asset.id] = {
-                 quantity: newQty,
-                 avgCost: newTotalVal / newQty
-              };
-              
-              executed = true;
-            } 
-            // SELL Limit: Execute if Current Price >= Target Price
-            else if (order.type === 'SELL' && asset.current_price >= order.targetPrice) {
-              // Execute Sell
-              const revenue = order.quantity * order.targetPrice;
-              newPortfolio.cashBalance += revenue;
-              // Holdings were already deducted when order was placed.
-              executed = true;
-            }
-
-            if (executed) {
-              portfolioChanged = true;
-              // Record Transaction
-              newPortfolio.transactions.push({
-                id: generateId(),
-                type: order.type,
-                assetId: asset.id,
-                assetName: asset.name,
-                quantity: order.quantity,
-                price: order.targetPrice,
-                timestamp: Date.now(),
-                orderType: 'LIMIT'
-              });
-              addNotification(`Limit ${order.type} filled: ${order.quantity} ${asset.name} @ $${order.targetPrice.toFixed(2)}`, 'success');
-            } else {
-              remainingOrders.push(order);
-            }
-          });
-
-          if (portfolioChanged) {
-            newPortfolio.openOrders = remainingOrders;
-            // We need to update state and firestore without triggering infinite loops or race conditions
-            // We use the ref to ensure we aren't overwriting a user action that happened milliseconds ago
-            setPortfolio(newPortfolio); 
-            updatePortfolio(user.uid, newPortfolio);
-          }
-        }
+    const ctx = engineContext();
+    const run = (current: PortfolioType) => deliverNotifications(step(current), ctx);
+    // Steps with events to report always change the portfolio: their
+    // notifications go to the inbox
+    if (run(portfolioRef.current).portfolio === portfolioRef.current) return;
+
+    if (showSaving) setSyncStatus('SAVING');
+    const outcome = await mutatePortfolio(user.uid, run, () => setSyncStatus('RETRYING'));
+    if (outcome.portfolio) {
+      portfolioRef.current = outcome.portfolio;
+      setPortfolio(outcome.portfolio);
+    }
+    publishEvents(outcome.events);
+
+    if (outcome.status === 'CONFLICT') {
+      addNotification("Portfolio kept changing elsewhere; your last change was not saved", 'info');
+      setSyncStatus('CONFLICT');
+    } else if (outcome.status === 'ERROR') {
+      addNotification(`Could not save portfolio: ${outcome.error}`, 'info');
+      setSyncStatus('ERROR');
+    } else {
+      setSyncStatus('SYNCED');
+    }
+  };
 
-        return newAssets;
+  // -- Simulation Effect --
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const newAssets = simulator.tick(assetsRef.current, Date.now());
+      assetsRef.current = newAssets;
+      setAssets(newAssets);
+      setMarketEvents(simulator.recentEvents());
+
+      // -- Limit Order Matching Logic --
+      // We check if any open orders can be filled with the NEW prices
+      const ctx = engineContext();
+      interestRef.current = {
+        ...interestRef.current,
+        amount: interestRef.current.amount + tickInterest(portfolioRef.current, newAssets, ctx)
+      };
+      const accrued = interestRef.current;
+      commit(current => {
+        const settled = settleDelistings(current, newAssets, ctx);
+        const matched = matchOpenOrders(settled.portfolio, newAssets, ctx);
+        // Margin accounts are charged their interest and liquidated below maintenance
+        const margined = applyMarginRules(matched.portfolio, newAssets, ctx, accrued);
+        const recorded = recordEquity(margined.portfolio, newAssets, ctx);
+        const alerted = evaluateAlerts(recorded.portfolio, newAssets, ctx);
+        return {
+          portfolio: alerted.portfolio,
+          events: [...settled.events, ...matched.events, ...margined.events, ...alerted.events]
+        };
+      }, false).catch(error => {
+        addNotification(`Market update failed: ${error instanceof Error ? error.message : String(error)}`, 'info');
+        setSyncStatus('ERROR');
       });
     }, SIMULATION_INTERVAL_MS);
 
     return () => clearInterval(interval);
   }, [user]); // Dependency on user ensures we have ID for updates
 
+  // -- Asset Catalog --
+  // Listings added, changed or delisted in the catalog reach the market
+  // without a reload
+  useEffect(() => subscribeToCatalog(listings => {
+    const newAssets = simulator.syncCatalog(assetsRef.current, listings, Date.now());
+    assetsRef.current = newAssets;
+    setAssets(newAssets);
+  }), []);
+
   // -- Firebase Init --
   useEffect(() => {
     const init = async () => {
@@ -163,12 +247,7 @@ const App: React.FC = () => {
       if (currentUser) {
         const unsubscribe = subscribeToPortfolio(currentUser.uid, (data) => {
           // Merge incoming data with defaults to prevent crashes on missing fields
-          setPortfolio({
-            ...DEFAULT_PORTFOLIO_DATA,
-            ...data,
-            transactions: data.transactions || [],
-            openOrders: data.openOrders || []
-          });
+          setPortfolio(normalizePortfolio(data));
         });
         return () => unsubscribe();
       }
@@ -177,134 +256,141 @@ const App: React.FC = () => {
   }, []);
 
   // -- Handlers --
-  const handleTrade = useCallback(async (type: 'BUY' | 'SELL', quantity: number, orderType: 'MARKET' | 'LIMIT', limitPrice?: number) => {
+  const handleTrade = useCallback(async (order: Omit<OrderIntent, 'assetId'>) => {
     if (!user) {
       alert("Authentication required.");
       return;
     }
 
     setIsTrading(true);
-    const asset = assets.find(a => a.id === selectedAssetId);
-    if (!asset) return;
+    try {
+      await commit(current => submitOrder(
+        current,
+        { ...order, assetId: selectedAssetId },
+        assetsRef.current,
+        engineContext()
+      ));
+    } finally {
+      setIsTrading(false);
+    }
+  }, [selectedAssetId, user]);
 
-    const price = orderType === 'LIMIT' ? (limitPrice || 0) : asset.current_price;
-    const cost = price * quantity;
+  const handleCancelOrder = useCallback(async (orderId: string) => {
+    await commit(current => cancelOrder(current, orderId, engineContext()));
+  }, [user]);
 
-    const newPortfolio = JSON.parse(JSON.stringify(portfolio)) as PortfolioType;
-    const currentHolding = newPortfolio.holdings[selectedAssetId] || { quantity: 0, avgCost: 0 };
+  const handleAmendOrder = useCallback(async (orderId: string, changes: OrderAmendmentRequest) => {
+    await commit(current => amendOrder(current, orderId, changes, assetsRef.current, engineContext()));
+  }, [user]);
 
-    // Validation and State Update Logic
-    if (type === 'BUY') {
-      if (newPortfolio.cashBalance < cost) {
-        setIsTrading(false);
-        addNotification("Insufficient funds", 'info');
-        return;
-      }
-      
-      // Deduct cash immediately for both Market and Limit (Escrow)
-      newPortfolio.cashBalance -= cost;
-
-      if (orderType === 'MARKET') {
-        const oldTotalValue = currentHolding.quantity * currentHolding.avgCost;
-        const newTotalValue = oldTotalValue + cost;
-        const newQuantity = currentHolding.quantity + quantity;
-        
-        newPortfolio.holdings[selectedAssetId] = {
-          quantity: newQuantity,
-          avgCost: newTotalValue / newQuantity
-        };
-      } else {
-        // Limit Order: Add to Open Orders
-        newPortfolio.openOrders.push({
-          id: generateId(),
-          assetId: selectedAssetId,
-          type: 'BUY',
-          quantity,
-          targetPrice: price,
-          timestamp: Date.now()
-        });
-      }
+  const handleSetCostBasisMethod = useCallback(async (method: CostBasisMethod) => {
+    await commit(current => setCostBasisMethod(current, method));
+  }, [user]);
 
-    } else { // SELL
-      if (currentHolding.quantity < quantity) {
-        setIsTrading(false);
-        addNotification("Insufficient holdings", 'info');
-        return;
-      }
+  const handleSetAccountType = useCallback(async (accountType: AccountType) => {
+    await commit(current => setAccountType(current, accountType));
+  }, [user]);
 
-      // Deduct holdings immediately for both (Escrow)
-      newPortfolio.holdings[selectedAssetId] = {
-        ...currentHolding,
-        quantity: currentHolding.quantity - quantity
-      };
+  const handleSetIndicators = useCallback(async (indicators: IndicatorConfig[]) => {
+    await commit(current => setIndicators(current, indicators), false);
+  }, [user]);
+
+  const handleAddAlert = useCallback(async (request: PriceAlertRequest) => {
+    await commit(current => addAlert(current, request, engineContext()));
+  }, [user]);
+
+  const handleRemoveAlert = useCallback(async (alertId: string) => {
+    await commit(current => removeAlert(current, alertId), false);
+  }, [user]);
+
+  const handleSetAlertActive = useCallback(async (alertId: string, active: boolean) => {
+    await commit(current => setAlertActive(current, alertId, active), false);
+  }, [user]);
+
+  const handleMarkNotificationsRead = useCallback(async (ids?: string[]) => {
+    await commit(current => markNotificationsRead(current, ids), false);
+  }, [user]);
+
+  const handleSetToastCategory = useCallback(async (category: NotificationCategory, enabled: boolean) => {
+    await commit(current => setToastCategory(current, category, enabled), false);
+  }, [user]);
+
+  const handleCreateWatchlist = useCallback(async (name: string) => {
+    await commit(current => createWatchlist(current, name, engineContext()));
+  }, [user]);
+
+  const handleRenameWatchlist = useCallback(async (watchlistId: string, name: string) => {
+    await commit(current => renameWatchlist(current, watchlistId, name));
+  }, [user]);
 
-      if (orderType === 'MARKET') {
-        newPortfolio.cashBalance += cost;
+  const handleDeleteWatchlist = useCallback(async (watchlistId: string) => {
+    await commit(current => deleteWatchlist(current, watchlistId));
+  }, [user]);
+
+  const handleToggleWatchlistAsset = useCallback(async (watchlistId: string, assetId: string) => {
+    await commit(current => toggleWatchlistAsset(current, watchlistId, assetId), false);
+  }, [user]);
+
+  const handleMoveWatchlistAsset = useCallback(async (watchlistId: string, assetId: string, beforeAssetId: string | null) => {
+    await commit(current => moveWatchlistAsset(current, watchlistId, assetId, beforeAssetId), false);
+  }, [user]);
+
+  const handleDeposit = useCallback(async (amount: number) => {
+    await commit(current => depositCash(current, amount, engineContext()));
+  }, [user]);
+
+  const handleReset = useCallback(async () => {
+    await commit(current => resetPortfolio(current, engineContext()));
+  }, [user]);
+
+  const handleExport = useCallback(async (kind: ExportKind) => {
+    if (!user) return;
+    const stamp = new Date().toISOString().slice(0, 10);
+    try {
+      if (kind === 'HOLDINGS_CSV') {
+        downloadFile(`veggietrade-holdings-${stamp}.csv`, holdingsCsv(portfolioRef.current, assetsRef.current), 'text/csv');
+      } else if (kind === 'ORDERS_CSV') {
+        downloadFile(`veggietrade-orders-${stamp}.csv`, openOrdersCsv(portfolioRef.current.openOrders), 'text/csv');
       } else {
-         // Limit Order: Add to Open Orders
-         newPortfolio.openOrders.push({
-          id: generateId(),
-          assetId: selectedAssetId,
-          type: 'SELL',
-          quantity,
-          targetPrice: price,
-          timestamp: Date.now()
-        });
+        const history = await loadAllHistory(user.uid);
+        if (kind === 'TRADES_CSV') {
+          const fills = history.flatMap(entry => entry.kind === 'FILL' ? [entry.transaction] : []);
+          downloadFile(`veggietrade-trades-${stamp}.csv`, tradesCsv(fills), 'text/csv');
+        } else {
+          downloadFile(`veggietrade-backup-${stamp}.json`, exportPortfolio(portfolioRef.current, history, Date.now()), 'application/json');
+        }
       }
+    } catch (error) {
+      addNotification(`Export failed: ${error instanceof Error ? error.message : String(error)}`, 'info');
     }
+  }, [user]);
 
-    // Add Transaction record only for Market orders (Limit orders add transaction on execution)
-    if (orderType === 'MARKET') {
-      newPortfolio.transactions.push({
-        id: generateId(),
-        type,
-        assetId: selectedAssetId,
-        assetName: asset.name,
-        quantity,
-        price,
-        timestamp: Date.now(),
-        orderType: 'MARKET'
-      });
+  const handleImport = useCallback(async (text: string, mode: ImportMode) => {
+    const parsed = parsePortfolioExport(text, assetsRef.current);
+    if (parsed.ok === false) {
+      const more = parsed.errors.length > 1 ? ` (and ${parsed.errors.length - 1} more)` : '';
+      addNotification(`Import failed: ${parsed.errors[0]}${more}`, 'info');
+      return;
     }
-
+    await commit(current => importPortfolio(current, parsed.data, mode, assetsRef.current, engineContext()));
+  }, [user]);
+
+  const handleLoadHistory = useCallback(async (filter: HistoryFilter, after?: HistoryCursor): Promise<HistoryPage> => {
+    if (!user) return { entries: [], next: null };
+    return loadHistory(user.uid, filter, after);
+  }, [user]);
+
+  // A failed read is reported here and resolves to null, so the chart and
+  // analytics keep whatever fills they already show
+  const handleLoadFills = useCallback(async (assetId?: string, since?: number): Promise<Transaction[] | null> => {
+    if (!user) return [];
     try {
-      setPortfolio(newPortfolio);
-      await updatePortfolio(user.uid, newPortfolio);
-      addNotification(`${orderType === 'MARKET' ? 'Trade executed' : 'Order placed'} successfully`, 'success');
+      return await loadFills(user.uid, assetId, since);
     } catch (error) {
-      console.error("Trade failed", error);
-      addNotification("Trade failed", 'info');
-    } finally {
-      setIsTrading(false);
+      addNotification(`Could not load trade history: ${error instanceof Error ? error.message : String(error)}`, 'info');
+      return null;
     }
-  }, [assets, selectedAssetId, portfolio, user]);
-
-  const handleCancelOrder = useCallback(async (orderId: string) => {
-    if (!user) return;
-    
-    const newPortfolio = JSON.parse(JSON.stringify(portfolio)) as PortfolioType;
-    const orderIndex = newPortfolio.openOrders.findIndex(o => o.id === orderId);
-    if (orderIndex === -1) return;
-
-    const order = newPortfolio.openOrders[orderIndex];
-    
-    // Refund Cash or Holdings
-    if (order.type === 'BUY') {
-      newPortfolio.cashBalance += (order.quantity * order.targetPrice);
-    } else {
-      const holding = newPortfolio.holdings[order.assetId] || { quantity: 0, avgCost: 0 };
-      newPortfolio.holdings[order.assetId] = {
-        ...holding,
-        quantity: holding.quantity + order.quantity
-      };
-    }
-
-    newPortfolio.openOrders.splice(orderIndex, 1);
-    
-    setPortfolio(newPortfolio);
-    await updatePortfolio(user.uid, newPortfolio);
-    addNotification("Order cancelled", 'info');
-  }, [portfolio, user]);
+  }, [user]);
 
   const selectedAsset = useMemo(() => 
     assets.find(a => a.id === selectedAssetId) || assets[0]
@@ -334,6 +420,23 @@ const App: React.FC = () => {
           </h1>
         </div>
         <div className="flex items-center gap-4 text-sm text-slate-400">
+          {syncStatus !== 'SYNCED' && (
+            <span className={`text-xs px-2 py-1 rounded-full border ${
+              syncStatus === 'CONFLICT' || syncStatus === 'ERROR'
+                ? 'bg-rose-500/10 border-rose-500/30 text-rose-400'
+                : syncStatus === 'RETRYING'
+                  ? 'bg-amber-500/10 border-amber-500/30 text-amber-400'
+                  : 'bg-slate-800 border-slate-700 text-slate-400'
+            }`}>
+              {SYNC_STATUS_LABELS[syncStatus]}
+            </span>
+          )}
+          <NotificationCenter
+            notifications={portfolio.notifications}
+            toastCategories={portfolio.toastCategories}
+            onMarkRead={handleMarkNotificationsRead}
+            onSetToastCategory={handleSetToastCategory}
+          />
           <div className="hidden sm:block text-right">
              <div className="text-xs text-slate-500">Connected as</div>
              <div className="font-mono text-slate-200">{user ? user.uid.substring(0,8) : 'Guest'}</div>
@@ -349,12 +452,23 @@ const App: React.FC = () => {
         <div className="max-w-[1600px] mx-auto h-full grid grid-cols-1 lg:grid-cols-12 gap-6">
           
           {/* Left Column: Asset List */}
-          <div className="lg:col-span-3 h-[300px] lg:h-auto flex flex-col">
-            <AssetList 
-              assets={assets} 
-              selectedAssetId={selectedAssetId} 
-              onSelect={setSelectedAssetId} 
-            />
+          <div className="lg:col-span-3 h-[300px] lg:h-auto flex flex-col gap-6">
+            <div className="flex-1 min-h-0">
+              <AssetList 
+                assets={assets} 
+                selectedAssetId={selectedAssetId} 
+                onSelect={setSelectedAssetId}
+                portfolio={portfolio}
+                onCreateWatchlist={handleCreateWatchlist}
+                onRenameWatchlist={handleRenameWatchlist}
+                onDeleteWatchlist={handleDeleteWatchlist}
+                onToggleWatchlistAsset={handleToggleWatchlistAsset}
+                onMoveWatchlistAsset={handleMoveWatchlistAsset}
+              />
+            </div>
+            <div className="h-64 flex-none">
+              <NewsFeed events={marketEvents} assets={assets} onSelectAsset={setSelectedAssetId} />
+            </div>
           </div>
 
           {/* Middle Column: Chart & Trade */}
@@ -362,7 +476,37 @@ const App: React.FC = () => {
             {/* Chart Area */}
             <div className="flex-1 min-h-[400px] bg-slate-800 rounded-xl border border-slate-700 p-1 shadow-2xl overflow-hidden relative group">
               <div className="absolute inset-0 bg-gradient-to-b from-slate-800/50 to-transparent pointer-events-none" />
-              <Chart asset={selectedAsset} />
+              {chartView === 'MARKET' && (
+                <Chart
+                  asset={selectedAsset}
+                  portfolio={portfolio}
+                  indicators={portfolio.indicators}
+                  onChangeIndicators={handleSetIndicators}
+                  onAmendOrder={handleAmendOrder}
+                  loadFills={handleLoadFills}
+                  onAddAlert={handleAddAlert}
+                  onRemoveAlert={handleRemoveAlert}
+                  onSetAlertActive={handleSetAlertActive}
+                  marketEvents={marketEvents}
+                />
+              )}
+              {chartView === 'EQUITY' && (
+                <EquityChart portfolio={portfolio} assets={assets} onDeposit={handleDeposit} onReset={handleReset} />
+              )}
+              {chartView === 'ANALYTICS' && (
+                <AnalyticsPanel portfolio={portfolio} assets={assets} loadFills={handleLoadFills} />
+              )}
+              <div className="absolute bottom-3 left-3 z-20 flex bg-slate-900/80 rounded p-0.5 border border-slate-700">
+                {(Object.keys(CHART_VIEW_LABELS) as ChartView[]).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setChartView(view)}
+                    className={`px-2 py-0.5 text-xs rounded ${chartView === view ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {CHART_VIEW_LABELS[view]}
+                  </button>
+                ))}
+              </div>
             </div>
             
             {/* Trading Interface */}
@@ -372,6 +516,7 @@ const App: React.FC = () => {
                  portfolio={portfolio} 
                  onTrade={handleTrade} 
                  isTrading={isTrading}
+                 feeSchedule={DEFAULT_FEE_SCHEDULE}
                />
             </div>
           </div>
@@ -382,6 +527,13 @@ const App: React.FC = () => {
               portfolio={portfolio} 
               assets={assets} 
               onCancelOrder={handleCancelOrder}
+              onAmendOrder={handleAmendOrder}
+              onSetCostBasisMethod={handleSetCostBasisMethod}
+              onSetAccountType={handleSetAccountType}
+              marginConfig={DEFAULT_MARGIN_CONFIG}
+              loadHistory={handleLoadHistory}
+              onExport={handleExport}
+              onImport={handleImport}
             />
           </div>
 
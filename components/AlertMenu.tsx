@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Asset, AlertKind, AlertDirection, PriceAlert, PriceAlertRequest, CandleInterval } from '../types';
+import { ALERT_KIND_LABELS, CANDLE_INTERVALS, DEFAULT_ALERT_SMA_PERIOD, DEFAULT_ALERT_WINDOW_MS } from '../constants';
+import { describeAlert } from '../services/alerts';
+import { Bell, BellOff, X } from 'lucide-react';
+
+interface AlertMenuProps {
+  asset: Asset;
+  alerts: PriceAlert[]; // This asset's
+  onAdd: (request: PriceAlertRequest) => void;
+  onRemove: (alertId: string) => void;
+  onSetActive: (alertId: string, active: boolean) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600';
+
+const AlertMenu: React.FC<AlertMenuProps> = ({ asset, alerts, onAdd, onRemove, onSetActive }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [kind, setKind] = useState<AlertKind>('PRICE');
+  const [direction, setDirection] = useState<AlertDirection>('ABOVE');
+  const [value, setValue] = useState('');
+  const [windowMs, setWindowMs] = useState(DEFAULT_ALERT_WINDOW_MS);
+  const [repeat, setRepeat] = useState(false);
+
+  const changeKind = (next: AlertKind) => {
+    setKind(next);
+    setValue(next === 'SMA_CROSS' ? String(DEFAULT_ALERT_SMA_PERIOD) : next === 'PRICE' ? asset.current_price.toFixed(2) : '');
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAdd({
+      assetId: asset.id,
+      kind,
+      direction,
+      value: parseFloat(value),
+      windowMs: kind === 'PERCENT_MOVE' ? windowMs : undefined,
+      repeat
+    });
+    setValue('');
+  };
+
+  const active = alerts.filter(a => a.active).length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-slate-700 ${isOpen ? 'bg-slate-700 text-white' : 'bg-slate-900/80 text-slate-400 hover:text-slate-200'}`}
+        title="Price alerts"
+      >
+        <Bell size={12} /> Alerts{active > 0 && <span className="font-mono text-amber-400">{active}</span>}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-72 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 p-2 space-y-1">
+          {alerts.length === 0 && (
+            <div className="text-xs text-slate-500 px-1">No alerts for {asset.name}</div>
+          )}
+          {alerts.map(alert => (
+            <div key={alert.id} className={`flex items-center gap-2 text-xs ${alert.active ? 'text-slate-300' : 'text-slate-500'}`}>
+              <button
+                onClick={() => onSetActive(alert.id, !alert.active)}
+                className={alert.active ? 'text-amber-400 hover:text-amber-300' : 'text-slate-500 hover:text-slate-300'}
+                title={alert.active ? 'Pause' : 'Re-arm'}
+              >
+                {alert.active ? <Bell size={14} /> : <BellOff size={14} />}
+              </button>
+              <span className="flex-1 truncate" title={alert.lastTriggeredAt ? `Last fired ${new Date(alert.lastTriggeredAt).toLocaleString()}` : 'Not fired yet'}>
+                {describeAlert(alert)}
+              </span>
+              <span className="font-mono text-[10px] text-slate-500">
+                {alert.repeat ? 'repeat' : 'once'}{alert.triggerCount > 0 && ` ×${alert.triggerCount}`}
+              </span>
+              <button
+                onClick={() => onRemove(alert.id)}
+                className="text-slate-500 hover:text-rose-400"
+                title="Remove"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <form onSubmit={handleAdd} className="pt-2 mt-1 border-t border-slate-700 space-y-1">
+            <div className="flex gap-1">
+              <select value={kind} onChange={(e) => changeKind(e.target.value as AlertKind)} className={`${inputClass} flex-1 cursor-pointer`}>
+                {(Object.keys(ALERT_KIND_LABELS) as AlertKind[]).map(k => (
+                  <option key={k} value={k}>{ALERT_KIND_LABELS[k]}</option>
+                ))}
+              </select>
+              <select value={direction} onChange={(e) => setDirection(e.target.value as AlertDirection)} className={`${inputClass} cursor-pointer`}>
+                <option value="ABOVE">{kind === 'PERCENT_MOVE' ? 'Up' : 'Above'}</option>
+                <option value="BELOW">{kind === 'PERCENT_MOVE' ? 'Down' : 'Below'}</option>
+              </select>
+            </div>
+            <div className="flex gap-1 items-center">
+              <input
+                type="number"
+                step={kind === 'SMA_CROSS' ? '1' : '0.01'}
+                min="0"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={kind === 'PRICE' ? 'Price' : kind === 'PERCENT_MOVE' ? 'Percent' : 'Period'}
+                className={`${inputClass} flex-1 font-mono`}
+              />
+              {kind === 'PERCENT_MOVE' && (
+                <select value={windowMs} onChange={(e) => setWindowMs(parseInt(e.target.value))} className={`${inputClass} cursor-pointer`} title="Window">
+                  {(Object.keys(CANDLE_INTERVALS) as CandleInterval[]).map(tf => (
+                    <option key={tf} value={CANDLE_INTERVALS[tf].ms}>{CANDLE_INTERVALS[tf].label}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+                Repeat
+              </label>
+              <button type="submit" className="px-2 py-0.5 text-xs rounded bg-slate-700 text-white hover:bg-slate-600">Add</button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertMenu;
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Asset, Portfolio, Transaction, EquityRange } from '../types';
+import { EQUITY_RANGES } from '../constants';
+import { computeAnalytics } from '../services/analytics';
+import { BarChart3 } from 'lucide-react';
+
+interface AnalyticsPanelProps {
+  portfolio: Portfolio;
+  assets: Asset[];
+  loadFills: (assetId?: string, since?: number) => Promise<Transaction[] | null>;
+}
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(2)}%`;
+const formatRatio = (value: number | null) => value === null ? '—' : value.toFixed(2);
+const formatMoney = (value: number | null) =>
+  value === null ? '—' : `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+// Newly loaded fills go on top of those already shown
+const mergeFills = (shown: Transaction[], loaded: Transaction[]) => {
+  const known = new Set(shown.map(tx => tx.id));
+  return [...loaded.filter(tx => !known.has(tx.id)), ...shown];
+};
+
+const Metric: React.FC<{ label: string; value: string; tone?: number | null }> = ({ label, value, tone }) => (
+  <div className="bg-slate-900/60 rounded-lg p-3 border border-slate-700/50">
+    <div className="text-xs text-slate-500 mb-1">{label}</div>
+    <div className={`font-mono text-sm font-bold ${
+      tone === undefined || tone === null || tone === 0 ? 'text-slate-200' : tone > 0 ? 'text-emerald-400' : 'text-rose-400'
+    }`}>
+      {value}
+    </div>
+  </div>
+);
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ portfolio, assets, loadFills }) => {
+  const [range, setRange] = useState<EquityRange>('ALL');
+  const [assetId, setAssetId] = useState('');
+  const [fills, setFills] = useState<Transaction[]>([]);
+
+  // Every fill for the asset; the date range is applied locally
+  useEffect(() => {
+    let cancelled = false;
+    loadFills(assetId || undefined).then(loaded => {
+      if (loaded && !cancelled) setFills(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [assetId, loadFills]);
+
+  // Commits that add history only add fills after the newest one shown; the
+  // load above already covers the history there was on mount
+  const seenHistoryId = useRef(portfolio.lastHistoryId);
+  useEffect(() => {
+    if (seenHistoryId.current === portfolio.lastHistoryId) return;
+    seenHistoryId.current = portfolio.lastHistoryId;
+    loadFills(assetId || undefined, fills.length > 0 ? fills[0].timestamp : 0).then(loaded => {
+      if (loaded) setFills(prev => mergeFills(prev, loaded));
+    });
+  }, [portfolio.lastHistoryId]);
+
+  const from = Date.now() - EQUITY_RANGES[range].ms;
+  const analytics = computeAnalytics(fills, portfolio, assets, from, assetId || undefined);
+  const assetName = (id: string) => assets.find(a => a.id === id)?.name || id;
+
+  return (
+    <div className="w-full h-full min-h-[350px] flex flex-col p-4 gap-4 overflow-y-auto">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <BarChart3 size={20} className="text-slate-300" />
+          <h1 className="text-lg font-bold text-white">Performance</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={assetId}
+            onChange={(e) => setAssetId(e.target.value)}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600 cursor-pointer"
+            title="Asset"
+          >
+            <option value="">All assets</option>
+            {assets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}</option>)}
+          </select>
+          <div className="flex bg-slate-900/80 rounded p-0.5 border border-slate-700">
+            {(Object.keys(EQUITY_RANGES) as EquityRange[]).map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-2 py-0.5 text-xs font-mono rounded ${range === r ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {EQUITY_RANGES[r].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* The first row describes the whole account whatever asset is picked */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <Metric label="Total Return" value={formatPercent(analytics.totalReturn)} tone={analytics.totalReturn} />
+        <Metric label="Max Drawdown" value={formatPercent(analytics.maxDrawdown)} tone={-analytics.maxDrawdown} />
+        <Metric label="Sharpe" value={formatRatio(analytics.sharpe)} tone={analytics.sharpe} />
+        <Metric label="Sortino" value={formatRatio(analytics.sortino)} tone={analytics.sortino} />
+        <Metric label={`Win Rate (${analytics.closingTrades})`} value={formatPercent(analytics.winRate)} />
+        <Metric label="Avg Win" value={formatMoney(analytics.averageWin)} tone={analytics.averageWin} />
+        <Metric label="Avg Loss" value={formatMoney(analytics.averageLoss)} tone={analytics.averageLoss} />
+        <Metric label="Profit Factor" value={formatRatio(analytics.profitFactor)} />
+      </div>
+
+      <div>
+        <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Exposure</div>
+        <div className="h-28">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={analytics.exposure}>
+              <XAxis dataKey="time" hide={true} type="number" domain={['dataMin', 'dataMax']} />
+              <YAxis
+                orientation="right"
+                tick={{ fill: '#94a3b8', fontSize: 10, fontFamily: 'monospace' }}
+                tickFormatter={(value) => `${Math.round(value * 100)}%`}
+                axisLine={false}
+                tickLine={false}
+                width={45}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }}
+                itemStyle={{ fontFamily: 'monospace', fontSize: '12px' }}
+                labelFormatter={(time: number) => new Date(time).toLocaleString()}
+                formatter={(value: number, name: string) => [formatPercent(value), name === 'gross' ? 'Gross' : 'Net']}
+              />
+              <Area type="stepAfter" dataKey="gross" stroke="#818cf8" fill="#818cf8" fillOpacity={0.2} isAnimationActive={false} />
+              <Area type="stepAfter" dataKey="net" stroke="#38bdf8" fill="none" isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">P&L by Asset</div>
+        {analytics.attribution.length > 0 ? (
+          <div className="divide-y divide-slate-700/50">
+            {analytics.attribution.map(row => (
+              <div key={row.assetId} className="flex justify-between items-center py-2 text-xs font-mono">
+                <span className="text-slate-200 font-sans font-semibold">{assetName(row.assetId)}</span>
+                <div className="flex gap-4">
+                  <span className={row.realizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-400'} title="Realized">
+                    {formatMoney(row.realizedPnl)}
+                  </span>
+                  <span className={row.unrealizedPnl >= 0 ? 'text-emerald-400/70' : 'text-rose-400/70'} title="Unrealized">
+                    {formatMoney(row.unrealizedPnl)}
+                  </span>
+                  <span className="text-slate-500" title="Fees">fee ${row.fees.toFixed(2)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500 py-2">No trades in this range.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -1,33 +1,207 @@
-import React from 'react';
-import { Asset } from '../types';
-import { TrendingUp, TrendingDown } from 'lucide-react';
+import React, { useState } from 'react';
+import { Asset, AssetSort, Portfolio, Watchlist } from '../types';
+import { ASSET_SORT_LABELS } from '../constants';
+import { positionOf } from '../services/margin';
+import { TrendingUp, TrendingDown, Search, Star, Plus, X, ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
 
 interface AssetListProps {
   assets: Asset[];
   selectedAssetId: string;
   onSelect: (id: string) => void;
+  portfolio: Portfolio;
+  onCreateWatchlist: (name: string) => void;
+  onRenameWatchlist: (watchlistId: string, name: string) => void;
+  onDeleteWatchlist: (watchlistId: string) => void;
+  onToggleWatchlistAsset: (watchlistId: string, assetId: string) => void;
+  onMoveWatchlistAsset: (watchlistId: string, assetId: string, beforeAssetId: string | null) => void;
 }
 
-const AssetList: React.FC<AssetListProps> = ({ assets, selectedAssetId, onSelect }) => {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const volume24h = (asset: Asset) => {
+  const since = Date.now() - DAY_MS;
+  return asset.candles.reduce((sum, c) => c.time >= since ? sum + c.volume : sum, 0);
+};
+
+const AssetList: React.FC<AssetListProps> = ({
+  assets,
+  selectedAssetId,
+  onSelect,
+  portfolio,
+  onCreateWatchlist,
+  onRenameWatchlist,
+  onDeleteWatchlist,
+  onToggleWatchlistAsset,
+  onMoveWatchlistAsset
+}) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<AssetSort>('DEFAULT');
+  const [descending, setDescending] = useState(true);
+  const [heldOnly, setHeldOnly] = useState(false);
+  const [category, setCategory] = useState('');
+  // Null shows every asset. Stars on the full list add to `targetId`, the
+  // watchlist last opened.
+  const [watchlistId, setWatchlistId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+
+  const watchlists = portfolio.watchlists || [];
+  const watchlist = watchlists.find(w => w.id === watchlistId) || null;
+  const target = watchlists.find(w => w.id === targetId) || watchlists[0] || null;
+
+  const openWatchlist = (id: string | null) => {
+    setWatchlistId(id);
+    if (id) setTargetId(id);
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt("Watchlist name");
+    if (name !== null) onCreateWatchlist(name);
+  };
+
+  const handleRename = (renamed: Watchlist) => {
+    const name = window.prompt("Rename watchlist", renamed.name);
+    if (name !== null && name !== renamed.name) onRenameWatchlist(renamed.id, name);
+  };
+
+  const handleDelete = () => {
+    if (!watchlist || !window.confirm(`Delete the watchlist "${watchlist.name}"?`)) return;
+    onDeleteWatchlist(watchlist.id);
+    openWatchlist(null);
+  };
+
+  const valueOf = (asset: Asset) => positionOf(portfolio, asset.id) * asset.current_price;
+  const sortValue: Record<Exclude<AssetSort, 'DEFAULT'>, (asset: Asset) => number> = {
+    PRICE: asset => asset.current_price,
+    CHANGE: asset => asset.change24h,
+    VOLUME: volume24h,
+    VALUE: valueOf
+  };
+
+  // Delisted assets stay in view only while the account still has business
+  // in them, until they are settled
+  const involved = (asset: Asset) =>
+    positionOf(portfolio, asset.id) !== 0 || portfolio.openOrders.some(o => o.assetId === asset.id);
+  const listed = (watchlist
+    ? watchlist.assetIds.flatMap(id => assets.filter(a => a.id === id))
+    : assets
+  ).filter(a => a.status !== 'DELISTED' || involved(a));
+  const categories = [...new Set(assets.filter(a => a.status !== 'DELISTED').map(a => a.category))].sort();
+  const needle = query.trim().toLowerCase();
+  const shown = listed
+    .filter(a => !needle || a.name.toLowerCase().includes(needle) || a.id.toLowerCase().includes(needle))
+    .filter(a => !category || a.category === category)
+    .filter(a => !heldOnly || positionOf(portfolio, a.id) !== 0);
+  if (sort !== 'DEFAULT') {
+    const key = sortValue[sort];
+    shown.sort((a, b) => descending ? key(b) - key(a) : key(a) - key(b));
+  }
+  // Dragging reorders the watchlist itself, so only while it shows in its own order
+  const canReorder = watchlist !== null && sort === 'DEFAULT';
+
+  const handleDrop = (beforeAssetId: string | null) => {
+    if (watchlist && dragging && dragging !== beforeAssetId) onMoveWatchlistAsset(watchlist.id, dragging, beforeAssetId);
+    setDragging(null);
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-2 py-0.5 text-xs rounded whitespace-nowrap ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`;
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600';
+
   return (
     <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden flex flex-col h-full">
-      <div className="p-4 border-b border-slate-700 bg-slate-800/50">
+      <div className="p-4 border-b border-slate-700 bg-slate-800/50 space-y-2">
         <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Market</h2>
+
+        {/* Watchlists */}
+        <div className="flex items-center gap-1 overflow-x-auto">
+          <button className={tabClass(watchlist === null)} onClick={() => openWatchlist(null)}>All</button>
+          {watchlists.map(w => (
+            <button
+              key={w.id}
+              className={tabClass(watchlist?.id === w.id)}
+              onClick={() => openWatchlist(w.id)}
+              onDoubleClick={() => handleRename(w)}
+              title="Double-click to rename"
+            >
+              {w.name}
+            </button>
+          ))}
+          <button onClick={handleCreate} className="p-1 text-slate-400 hover:text-white" title="New watchlist">
+            <Plus size={12} />
+          </button>
+          {watchlist && (
+            <button onClick={handleDelete} className="ml-auto p-1 text-slate-500 hover:text-rose-400" title="Delete watchlist">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+
+        {/* Search, sort & filter */}
+        <div className="relative">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search name or symbol"
+            className={`${inputClass} w-full pl-6`}
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          <select value={sort} onChange={(e) => setSort(e.target.value as AssetSort)} className={`${inputClass} flex-1 cursor-pointer`}>
+            {(Object.keys(ASSET_SORT_LABELS) as AssetSort[]).map(s => (
+              <option key={s} value={s}>{ASSET_SORT_LABELS[s]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setDescending(d => !d)}
+            disabled={sort === 'DEFAULT'}
+            className="p-1 text-slate-400 hover:text-white disabled:opacity-40"
+            title={descending ? 'Highest first' : 'Lowest first'}
+          >
+            {descending ? <ArrowDownWideNarrow size={14} /> : <ArrowUpNarrowWide size={14} />}
+          </button>
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className={`${inputClass} cursor-pointer`}>
+            <option value="">All kinds</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer whitespace-nowrap">
+            <input type="checkbox" checked={heldOnly} onChange={(e) => setHeldOnly(e.target.checked)} />
+            Held only
+          </label>
+        </div>
       </div>
-      <div className="overflow-y-auto flex-1 p-2 space-y-2">
-        {assets.map((asset) => {
+      <div
+        className="overflow-y-auto flex-1 p-2 space-y-2"
+        onDragOver={canReorder ? (e) => e.preventDefault() : undefined}
+        onDrop={canReorder ? () => handleDrop(null) : undefined}
+      >
+        {shown.length === 0 && (
+          <div className="text-center text-xs text-slate-500 py-6">
+            {watchlist && watchlist.assetIds.length === 0 ? 'Star assets on the full list to add them here' : 'No matching assets'}
+          </div>
+        )}
+        {shown.map((asset) => {
           const isPositive = asset.change24h >= 0;
           const isSelected = asset.id === selectedAssetId;
+          const starList = watchlist || target;
+          const isStarred = !!starList && starList.assetIds.includes(asset.id);
 
           return (
             <button
               key={asset.id}
               onClick={() => onSelect(asset.id)}
+              draggable={canReorder}
+              onDragStart={() => setDragging(asset.id)}
+              onDragEnd={() => setDragging(null)}
+              onDragOver={canReorder ? (e) => e.preventDefault() : undefined}
+              onDrop={canReorder ? (e) => { e.stopPropagation(); handleDrop(asset.id); } : undefined}
               className={`w-full flex items-center justify-between p-3 rounded-lg transition-all duration-200 group ${
-                isSelected 
-                  ? 'bg-emerald-500/10 border border-emerald-500/50 shadow-[0_0_15px_rgba(16,185,129,0.15)]' 
+                isSelected
+                  ? 'bg-emerald-500/10 border border-emerald-500/50 shadow-[0_0_15px_rgba(16,185,129,0.15)]'
                   : 'bg-slate-750 hover:bg-slate-700 border border-transparent'
-              }`}
+              } ${dragging === asset.id ? 'opacity-50' : ''} ${canReorder ? 'cursor-grab' : ''}`}
             >
               <div className="flex items-center gap-3">
                 <span className="text-2xl filter drop-shadow-md group-hover:scale-110 transition-transform duration-200">
@@ -37,18 +211,41 @@ const AssetList: React.FC<AssetListProps> = ({ assets, selectedAssetId, onSelect
                   <span className={`font-bold text-sm ${isSelected ? 'text-emerald-400' : 'text-slate-200'}`}>
                     {asset.name}
                   </span>
-                  <span className="text-xs text-slate-500 font-mono">{asset.id}</span>
+                  <span className="text-xs text-slate-500">
+                    <span className="font-mono">{asset.id}</span> · {asset.category}
+                    {asset.status !== 'TRADING' && (
+                      <span className={`ml-1 px-1 rounded border text-[10px] ${
+                        asset.status === 'HALTED'
+                          ? 'border-amber-500/30 text-amber-400'
+                          : 'border-rose-500/30 text-rose-400'
+                      }`}>
+                        {asset.status === 'HALTED' ? 'Halted' : 'Delisted'}
+                      </span>
+                    )}
+                  </span>
                 </div>
               </div>
 
-              <div className="flex flex-col items-end">
-                <span className="font-mono text-sm font-medium text-slate-100">
-                  ${asset.current_price.toFixed(2)}
-                </span>
-                <div className={`flex items-center gap-1 text-xs font-mono ${isPositive ? 'text-emerald-400' : 'text-rose-400'}`}>
-                  {isPositive ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
-                  {Math.abs(asset.change24h).toFixed(2)}%
+              <div className="flex items-center gap-3">
+                <div className="flex flex-col items-end">
+                  <span className="font-mono text-sm font-medium text-slate-100">
+                    ${asset.current_price.toFixed(2)}
+                  </span>
+                  <div className={`flex items-center gap-1 text-xs font-mono ${isPositive ? 'text-emerald-400' : 'text-rose-400'}`}>
+                    {isPositive ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                    {Math.abs(asset.change24h).toFixed(2)}%
+                  </div>
                 </div>
+                {starList && (
+                  <span
+                    role="button"
+                    onClick={(e) => { e.stopPropagation(); onToggleWatchlistAsset(starList.id, asset.id); }}
+                    className={isStarred ? 'text-amber-400 hover:text-amber-300' : 'text-slate-600 hover:text-slate-300'}
+                    title={isStarred ? `Remove from ${starList.name}` : `Add to ${starList.name}`}
+                  >
+                    <Star size={14} fill={isStarred ? 'currentColor' : 'none'} />
+                  </span>
+                )}
               </div>
             </button>
           );
@@ -58,4 +255,4 @@ const AssetList: React.FC<AssetListProps> = ({ assets, selectedAssetId, onSelect
   );
 };
 
-export default AssetList;
\ No newline at end of file
+export default AssetList;
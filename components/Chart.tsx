@@ -1,43 +1,199 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { 
   ComposedChart, 
-  Area, 
   Line,
   Bar,
+  Brush,
   XAxis, 
   YAxis, 
   CartesianGrid, 
   Tooltip, 
-  ResponsiveContainer 
+  ReferenceLine,
+  ResponsiveContainer,
+  BarShapeProps,
+  TooltipPayloadEntry
 } from 'recharts';
-import { Asset } from '../types';
+import {
+  Asset,
+  Candle,
+  CandleInterval,
+  IndicatorConfig,
+  IndicatorLine,
+  Portfolio,
+  Transaction,
+  OrderAmendmentRequest,
+  PriceAlertRequest,
+  MarketEvent
+} from '../types';
+import { CANDLE_INTERVALS, VISIBLE_CANDLES, INDICATOR_DEFINITIONS, MARKET_EVENT_DEFINITIONS } from '../constants';
+import { aggregateCandles, bucketStart } from '../services/candles';
+import { computeIndicator } from '../services/indicators';
+import IndicatorMenu from './IndicatorMenu';
+import TradeOverlay from './TradeOverlay';
+import AlertMenu from './AlertMenu';
 
 interface ChartProps {
   asset: Asset;
+  portfolio: Portfolio;
+  indicators: IndicatorConfig[];
+  onChangeIndicators: (indicators: IndicatorConfig[]) => void;
+  onAmendOrder: (orderId: string, changes: OrderAmendmentRequest) => void;
+  loadFills: (assetId?: string, since?: number) => Promise<Transaction[] | null>;
+  onAddAlert: (request: PriceAlertRequest) => void;
+  onRemoveAlert: (alertId: string) => void;
+  onSetAlertActive: (alertId: string, active: boolean) => void;
+  marketEvents: MarketEvent[];
 }
 
-// Helper to calculate Simple Moving Average
-const calculateSMA = (data: any[], window: number) => {
-  return data.map((entry, index) => {
-    if (index < window - 1) return { ...entry, sma: null };
-    const slice = data.slice(index - window + 1, index + 1);
-    const sum = slice.reduce((acc, curr) => acc + curr.price, 0);
-    return { ...entry, sma: sum / window };
-  });
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#f43f5e';
+
+const SYNC_ID = 'market-chart';
+
+const tooltipStyle = {
+  backgroundColor: '#0f172a',
+  border: '1px solid #334155',
+  borderRadius: '8px',
+  boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+const renderLine = (line: IndicatorLine, yAxisId?: string) => line.style === 'HISTOGRAM' ? (
+  <Bar key={line.key} yAxisId={yAxisId} dataKey={line.key} name={line.label} fill={line.color} isAnimationActive={false} />
+) : (
+  <Line
+    key={line.key}
+    yAxisId={yAxisId}
+    type="monotone"
+    dataKey={line.key}
+    name={line.label}
+    stroke={line.color}
+    strokeWidth={line.style === 'DASHED' ? 1 : 2}
+    strokeDasharray={line.style === 'DASHED' ? '5 5' : undefined}
+    dot={false}
+    connectNulls={false}
+    isAnimationActive={false}
+  />
+);
+
+// One row per candle, with every indicator line as a column keyed by line key
+type ChartRow = Candle & { range: [number, number]; [lineKey: string]: number | [number, number] | null };
+
+// Drawn by a range bar spanning low to high: the wick fills the bar's height
+// and the body is placed inside it by price
+const CandleShape = (props: BarShapeProps) => {
+  const { x, y, width, height, payload } = props;
+  const { open, close, high, low } = payload as ChartRow;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const perUnit = high > low ? height / (high - low) : 0;
+  const bodyTop = y + (high - Math.max(open, close)) * perUnit;
+  const bodyHeight = Math.max(1, Math.abs(open - close) * perUnit);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
 };
 
-const Chart: React.FC<ChartProps> = ({ asset }) => {
+// Newly loaded fills go on top of those already shown
+const mergeFills = (shown: Transaction[], loaded: Transaction[]) => {
+  const known = new Set(shown.map(tx => tx.id));
+  return [...loaded.filter(tx => !known.has(tx.id)), ...shown];
+};
+
+const Chart: React.FC<ChartProps> = ({
+  asset,
+  portfolio,
+  indicators,
+  onChangeIndicators,
+  onAmendOrder,
+  loadFills,
+  onAddAlert,
+  onRemoveAlert,
+  onSetAlertActive,
+  marketEvents
+}) => {
   const isPositive = asset.change24h >= 0;
-  const color = isPositive ? '#10b981' : '#f43f5e'; 
+  const [timeframe, setTimeframe] = useState<CandleInterval>('1m');
+  const [fills, setFills] = useState<Transaction[]>([]);
+  // Visible window: `span` candles ending at `anchor`, or at the newest candle
+  // (following the market) while `anchor` is null
+  const [view, setView] = useState<{ span: number; anchor: number | null }>({ span: VISIBLE_CANDLES, anchor: null });
+
+  const candles = useMemo(
+    () => aggregateCandles(asset.candles, CANDLE_INTERVALS[timeframe].ms),
+    [asset.candles, timeframe]
+  );
+
+  // Fills of this asset back to the oldest candle; anything older could not
+  // be placed on the chart
+  const since = asset.candles.length > 0 ? asset.candles[0].time : 0;
+  useEffect(() => {
+    let cancelled = false;
+    setFills([]);
+    loadFills(asset.id, since).then(loaded => {
+      if (loaded && !cancelled) setFills(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [asset.id, loadFills]);
+
+  // Commits that add history only add fills after the newest one shown; the
+  // load above already covers the history there was on mount
+  const seenHistoryId = useRef(portfolio.lastHistoryId);
+  useEffect(() => {
+    if (seenHistoryId.current === portfolio.lastHistoryId) return;
+    seenHistoryId.current = portfolio.lastHistoryId;
+    loadFills(asset.id, fills.length > 0 ? fills[0].timestamp : since).then(loaded => {
+      if (loaded) setFills(prev => mergeFills(prev, loaded));
+    });
+  }, [portfolio.lastHistoryId]);
+
+  const computed = useMemo(
+    () => indicators.map(config => ({ config, lines: computeIndicator(config, candles) })),
+    [indicators, candles]
+  );
+  const overlays = computed.filter(c => INDICATOR_DEFINITIONS[c.config.kind].pane === 'PRICE');
+  const oscillators = computed.filter(c => INDICATOR_DEFINITIONS[c.config.kind].pane === 'OSCILLATOR');
+
+  const data = useMemo(() => candles.map((c, i) => {
+    const row: ChartRow = { ...c, range: [c.low, c.high] };
+    computed.forEach(({ lines }) => lines.forEach(line => { row[line.key] = line.values[i]; }));
+    return row;
+  }), [candles, computed]);
+
+  const lastIndex = data.length - 1;
+  const anchored = view.anchor === null ? -1 : data.findIndex(c => c.time === view.anchor);
+  const endIndex = anchored >= 0 ? anchored : lastIndex;
+  const startIndex = Math.max(0, endIndex - view.span + 1);
 
-  // Prepare data with SMA
-  const dataWithSMA = useMemo(() => {
-    return calculateSMA(asset.history, 5); // 5-point moving average
-  }, [asset.history]);
+  const handleBrushChange = (range: { startIndex?: number; endIndex?: number }) => {
+    if (range.startIndex === undefined || range.endIndex === undefined) return;
+    setView({
+      span: range.endIndex - range.startIndex + 1,
+      anchor: range.endIndex >= lastIndex ? null : data[range.endIndex].time
+    });
+  };
 
-  const prices = asset.history.map(h => h.price);
-  const minPrice = Math.min(...prices) * 0.99;
-  const maxPrice = Math.max(...prices) * 1.01;
+  const changeTimeframe = (next: CandleInterval) => {
+    setTimeframe(next);
+    setView({ span: VISIBLE_CANDLES, anchor: null });
+  };
+
+  const visible = data.slice(startIndex, endIndex + 1);
+  const labels = new Map(computed.flatMap(({ lines }) => lines.map(line => [line.key, line.label] as const)));
+  const minPrice = Math.min(...visible.map(c => c.low)) * 0.995;
+  const maxPrice = Math.max(...visible.map(c => c.high)) * 1.005;
+
+  const intervalMs = CANDLE_INTERVALS[timeframe].ms;
+  const markers = fills.map(transaction => ({ bucket: bucketStart(transaction.timestamp, intervalMs), transaction }));
+  const orders = portfolio.openOrders.filter(o => o.assetId === asset.id);
+  const holding = portfolio.holdings[asset.id];
+  const avgCost = holding && holding.lots.length > 0 ? holding.avgCost : null;
+  const news = marketEvents.filter(e => e.assetIds.includes(asset.id));
 
   return (
     <div className="w-full h-full min-h-[350px] relative flex flex-col">
@@ -59,109 +215,177 @@ const Chart: React.FC<ChartProps> = ({ asset }) => {
         </div>
       </div>
 
-      {/* Legend */}
-      <div className="absolute top-4 right-4 flex gap-4 text-xs font-mono text-slate-400 z-10">
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded-full bg-indigo-400"></div>
-          <span>SMA (5)</span>
+      {/* Timeframe & Legend */}
+      <div className="absolute top-4 right-4 flex flex-col items-end gap-2 z-10">
+        <div className="flex items-center gap-2">
+          <AlertMenu
+            asset={asset}
+            alerts={(portfolio.alerts || []).filter(a => a.assetId === asset.id)}
+            onAdd={onAddAlert}
+            onRemove={onRemoveAlert}
+            onSetActive={onSetAlertActive}
+          />
+          <IndicatorMenu indicators={indicators} onChange={onChangeIndicators} />
+          <div className="flex bg-slate-900/80 rounded p-0.5 border border-slate-700">
+            {(Object.keys(CANDLE_INTERVALS) as CandleInterval[]).map(tf => (
+              <button
+                key={tf}
+                onClick={() => changeTimeframe(tf)}
+                className={`px-2 py-0.5 text-xs font-mono rounded ${timeframe === tf ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {CANDLE_INTERVALS[tf].label}
+              </button>
+            ))}
+          </div>
         </div>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 bg-slate-600"></div>
-          <span>Vol</span>
+        <div className="flex flex-wrap justify-end gap-x-4 gap-y-1 text-xs font-mono text-slate-400 max-w-xs">
+          {overlays.map(({ config }) => (
+            <div key={config.id} className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: config.color }}></div>
+              <span>{INDICATOR_DEFINITIONS[config.kind].label} ({config.period})</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 bg-slate-600"></div>
+            <span>Vol</span>
+          </div>
         </div>
       </div>
 
-      <ResponsiveContainer width="100%" height="100%">
-        <ComposedChart data={dataWithSMA}>
-          <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor={color} stopOpacity={0.3} />
-              <stop offset="95%" stopColor={color} stopOpacity={0} />
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} opacity={0.5} />
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} syncId={SYNC_ID} syncMethod="value">
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} opacity={0.5} />
           
-          <XAxis 
-            dataKey="time" 
-            hide={true} 
-            type="number" 
-            domain={['auto', 'auto']}
-          />
+            <XAxis 
+              dataKey="time" 
+              hide={true} 
+            />
           
-          {/* Price Y Axis */}
-          <YAxis 
-            yAxisId="price"
-            domain={[minPrice, maxPrice]} 
-            orientation="right" 
-            tick={{ fill: '#94a3b8', fontSize: 11, fontFamily: 'monospace' }}
-            tickFormatter={(value) => `$${value.toFixed(2)}`}
-            axisLine={false}
-            tickLine={false}
-            width={60}
-          />
+            {/* Price Y Axis */}
+            <YAxis 
+              yAxisId="price"
+              domain={[minPrice, maxPrice]} 
+              orientation="right" 
+              tick={{ fill: '#94a3b8', fontSize: 11, fontFamily: 'monospace' }}
+              tickFormatter={(value) => `$${value.toFixed(2)}`}
+              axisLine={false}
+              tickLine={false}
+              width={60}
+              allowDataOverflow={true}
+            />
 
-          {/* Volume Y Axis (Hidden, scaled down) */}
-          <YAxis 
-            yAxisId="volume"
-            orientation="left" 
-            hide={true}
-            domain={[0, 'dataMax * 4']} // Scale volume so it stays at bottom
-          />
+            {/* Volume Y Axis (Hidden, scaled down) */}
+            <YAxis 
+              yAxisId="volume"
+              orientation="left" 
+              hide={true}
+              domain={[0, 'dataMax * 4']} // Scale volume so it stays at bottom
+            />
 
-          <Tooltip 
-            contentStyle={{ 
-              backgroundColor: '#0f172a', 
-              border: '1px solid #334155', 
-              borderRadius: '8px',
-              boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
-            }}
-            itemStyle={{ fontFamily: 'monospace', fontSize: '12px' }}
-            labelStyle={{ display: 'none' }}
-            formatter={(value: number, name: string) => {
-              if (name === 'price') return [`$${value.toFixed(2)}`, 'Price'];
-              if (name === 'sma') return [`$${value.toFixed(2)}`, 'SMA (5)'];
-              if (name === 'volume') return [Math.round(value).toLocaleString(), 'Vol'];
-              return [value, name];
-            }}
-          />
+            <Tooltip 
+              contentStyle={tooltipStyle}
+              itemStyle={{ fontFamily: 'monospace', fontSize: '12px' }}
+              labelStyle={{ color: '#94a3b8', fontSize: '11px' }}
+              labelFormatter={formatTime}
+              formatter={(value: number | number[], name: string, item: TooltipPayloadEntry) => {
+                if (name === 'range') {
+                  const c = item.payload as ChartRow;
+                  return [`O ${c.open.toFixed(2)} H ${c.high.toFixed(2)} L ${c.low.toFixed(2)} C ${c.close.toFixed(2)}`, 'OHLC'];
+                }
+                if (name === 'volume') return [Math.round(value as number).toLocaleString(), 'Vol'];
+                if (value === null || value === undefined) return ['—', labels.get(name) || name];
+                return [`$${(value as number).toFixed(2)}`, labels.get(name) || name];
+              }}
+            />
 
-          {/* Volume Bars */}
-          <Bar 
-            yAxisId="volume"
-            dataKey="volume" 
-            fill="#475569" 
-            opacity={0.3} 
-            barSize={8}
-          />
+            {/* Volume Bars */}
+            <Bar 
+              yAxisId="volume"
+              dataKey="volume" 
+              fill="#475569" 
+              opacity={0.3} 
+              isAnimationActive={false}
+            />
 
-          {/* Main Price Area */}
-          <Area 
-            yAxisId="price"
-            type="monotone" 
-            dataKey="price" 
-            stroke={color} 
-            strokeWidth={2}
-            fillOpacity={1} 
-            fill="url(#colorPrice)" 
-            isAnimationActive={false}
-          />
+            {/* Candles */}
+            <Bar
+              yAxisId="price"
+              dataKey="range"
+              shape={CandleShape}
+              isAnimationActive={false}
+            />
 
-          {/* SMA Line */}
-          <Line 
-            yAxisId="price"
-            type="monotone" 
-            dataKey="sma" 
-            stroke="#818cf8" 
-            strokeWidth={2} 
-            dot={false}
-            strokeDasharray="5 5"
-            isAnimationActive={false}
-          />
+            {/* Price overlays */}
+            {overlays.flatMap(({ lines }) => lines.map(line => renderLine(line, 'price')))}
+
+            {/* Market events that hit this asset */}
+            {news.map(event => (
+              <ReferenceLine
+                key={event.id}
+                yAxisId="price"
+                x={bucketStart(event.time, intervalMs)}
+                stroke={event.impact >= 0 ? '#10b981' : '#f43f5e'}
+                strokeDasharray="2 4"
+                label={{ value: MARKET_EVENT_DEFINITIONS[event.kind].label, position: 'insideTopLeft', fill: '#94a3b8', fontSize: 10 }}
+              />
+            ))}
+
+            {/* Own fills, open orders and average cost */}
+            <TradeOverlay fills={markers} orders={orders} avgCost={avgCost} tickSize={asset.tickSize} yAxisId="price" onAmendOrder={onAmendOrder} />
 
-        </ComposedChart>
-      </ResponsiveContainer>
+            {/* Drag the window to pan, its edges to zoom */}
+            <Brush
+              dataKey="time"
+              height={20}
+              stroke="#475569"
+              fill="#0f172a"
+              travellerWidth={8}
+              startIndex={startIndex}
+              endIndex={endIndex}
+              onChange={handleBrushChange}
+              tickFormatter={(time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            />
+
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Oscillator panes, following the window picked above */}
+      {oscillators.map(({ config, lines }) => (
+        <div key={config.id} className="h-24 flex-none relative border-t border-slate-700/50">
+          <span className="absolute top-1 left-2 text-[10px] font-mono text-slate-500 z-10">
+            {INDICATOR_DEFINITIONS[config.kind].label} ({config.period})
+          </span>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={visible} syncId={SYNC_ID} syncMethod="value">
+              <XAxis dataKey="time" hide={true} />
+              <YAxis
+                orientation="right"
+                domain={config.kind === 'RSI' ? [0, 100] : ['auto', 'auto']}
+                ticks={config.kind === 'RSI' ? [30, 70] : undefined}
+                tick={{ fill: '#94a3b8', fontSize: 10, fontFamily: 'monospace' }}
+                tickFormatter={(value) => value.toFixed(config.kind === 'RSI' ? 0 : 2)}
+                axisLine={false}
+                tickLine={false}
+                width={60}
+              />
+              {config.kind === 'RSI' && <ReferenceLine y={70} stroke="#475569" strokeDasharray="3 3" />}
+              {config.kind === 'RSI' && <ReferenceLine y={30} stroke="#475569" strokeDasharray="3 3" />}
+              {config.kind === 'MACD' && <ReferenceLine y={0} stroke="#475569" />}
+              <Tooltip
+                contentStyle={tooltipStyle}
+                itemStyle={{ fontFamily: 'monospace', fontSize: '12px' }}
+                labelStyle={{ display: 'none' }}
+                formatter={(value: number | null, name: string) => [value === null ? '—' : value.toFixed(2), labels.get(name) || name]}
+              />
+              {lines.map(line => renderLine(line))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
     </div>
   );
 };
 
-export default Chart;
\ No newline at end of file
+export default Chart;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import {
+  ComposedChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Asset, Portfolio, EquityRange, EquitySnapshot } from '../types';
+import { EQUITY_RANGES } from '../constants';
+import { equitySnapshot } from '../services/equity';
+import { Wallet, RotateCcw, Plus } from 'lucide-react';
+
+interface EquityChartProps {
+  portfolio: Portfolio;
+  assets: Asset[];
+  onDeposit: (amount: number) => void;
+  onReset: () => void;
+}
+
+const formatMoney = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const EquityChart: React.FC<EquityChartProps> = ({ portfolio, assets, onDeposit, onReset }) => {
+  const [range, setRange] = useState<EquityRange>('1D');
+  const [depositAmount, setDepositAmount] = useState('');
+
+  // Recorded snapshots plus a live point, so the curve ends at the current value
+  const live = equitySnapshot(portfolio, assets, Date.now());
+  const from = live.time - EQUITY_RANGES[range].ms;
+  const data: EquitySnapshot[] = [...(portfolio.equityHistory || []).filter(s => s.time >= from), live];
+
+  const fundingEvents = (portfolio.fundingEvents || []).filter(e => e.time >= data[0].time);
+
+  // Change over the range from trading alone: deposits are taken out, and a
+  // reset starts the count again
+  const lastReset = [...fundingEvents].reverse().find(e => e.kind === 'RESET');
+  const baseline = data.find(s => !lastReset || s.time >= lastReset.time) || live;
+  const deposited = fundingEvents
+    .filter(e => e.kind === 'DEPOSIT' && e.time > baseline.time)
+    .reduce((sum, e) => sum + e.amount, 0);
+  const change = live.netWorth - baseline.netWorth - deposited;
+  const isPositive = change >= 0;
+  const color = isPositive ? '#10b981' : '#f43f5e';
+
+  const values = data.flatMap(s => [s.netWorth, s.cash]);
+  const minValue = Math.min(...values) * 0.99;
+  const maxValue = Math.max(...values) * 1.01;
+
+  const handleDeposit = () => {
+    const amount = parseFloat(depositAmount);
+    if (!amount || amount <= 0) return;
+    onDeposit(amount);
+    setDepositAmount('');
+  };
+
+  const handleReset = () => {
+    if (window.confirm("Reset the portfolio? Open orders are cancelled and positions closed out.")) onReset();
+  };
+
+  return (
+    <div className="w-full h-full min-h-[350px] relative flex flex-col">
+      {/* Header Overlay */}
+      <div className="absolute top-4 left-4 pointer-events-none z-10">
+        <div className="flex items-center gap-3">
+          <Wallet size={32} className="text-slate-300 drop-shadow-lg" />
+          <div>
+            <h1 className="text-2xl font-bold text-white drop-shadow-md">Net Worth</h1>
+            <div className="flex items-center gap-2">
+              <span className="text-3xl font-mono font-light text-white drop-shadow-md">
+                {formatMoney(live.netWorth)}
+              </span>
+              <span className={`px-2 py-1 rounded text-xs font-bold font-mono backdrop-blur-md ${isPositive ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
+                {isPositive ? '+' : '-'}{formatMoney(Math.abs(change))}
+              </span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Range & Funding Controls */}
+      <div className="absolute top-4 right-4 flex flex-col items-end gap-2 z-10">
+        <div className="flex bg-slate-900/80 rounded p-0.5 border border-slate-700">
+          {(Object.keys(EQUITY_RANGES) as EquityRange[]).map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2 py-0.5 text-xs font-mono rounded ${range === r ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {EQUITY_RANGES[r].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0"
+            value={depositAmount}
+            onChange={(e) => setDepositAmount(e.target.value)}
+            placeholder="Amount"
+            className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-slate-600"
+          />
+          <button
+            onClick={handleDeposit}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-emerald-600/80 hover:bg-emerald-500 text-white"
+            title="Deposit cash"
+          >
+            <Plus size={12} /> Deposit
+          </button>
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-700 hover:bg-rose-600 text-slate-200"
+            title="Reset portfolio"
+          >
+            <RotateCcw size={12} /> Reset
+          </button>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <defs>
+            <linearGradient id="colorEquity" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor={color} stopOpacity={0.3} />
+              <stop offset="95%" stopColor={color} stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} opacity={0.5} />
+
+          <XAxis
+            dataKey="time"
+            hide={true}
+            type="number"
+            domain={['dataMin', 'dataMax']}
+          />
+
+          <YAxis
+            domain={[minValue, maxValue]}
+            orientation="right"
+            tick={{ fill: '#94a3b8', fontSize: 11, fontFamily: 'monospace' }}
+            tickFormatter={(value) => `$${Math.round(value).toLocaleString()}`}
+            axisLine={false}
+            tickLine={false}
+            width={70}
+          />
+
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#0f172a',
+              border: '1px solid #334155',
+              borderRadius: '8px',
+              boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
+            }}
+            itemStyle={{ fontFamily: 'monospace', fontSize: '12px' }}
+            labelStyle={{ color: '#94a3b8', fontSize: '11px' }}
+            labelFormatter={(time: number) => new Date(time).toLocaleString()}
+            formatter={(value: number, name: string) => {
+              if (name === 'netWorth') return [formatMoney(value), 'Net Worth'];
+              if (name === 'cash') return [formatMoney(value), 'Cash'];
+              return [value, name];
+            }}
+          />
+
+          {/* Deposits and resets */}
+          {fundingEvents.map(event => (
+            <ReferenceLine
+              key={event.id}
+              x={event.time}
+              stroke={event.kind === 'DEPOSIT' ? '#38bdf8' : '#f59e0b'}
+              strokeDasharray="4 4"
+              label={{
+                value: event.kind === 'DEPOSIT' ? `+${formatMoney(event.amount)}` : 'Reset',
+                position: 'insideBottomLeft',
+                fill: event.kind === 'DEPOSIT' ? '#38bdf8' : '#f59e0b',
+                fontSize: 10
+              }}
+            />
+          ))}
+
+          <Area
+            type="stepAfter"
+            dataKey="cash"
+            stroke="#64748b"
+            strokeWidth={1}
+            fill="none"
+            isAnimationActive={false}
+          />
+
+          <Area
+            type="monotone"
+            dataKey="netWorth"
+            stroke={color}
+            strokeWidth={2}
+            fillOpacity={1}
+            fill="url(#colorEquity)"
+            isAnimationActive={false}
+          />
+
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default EquityChart;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { IndicatorConfig, IndicatorKind } from '../types';
+import { INDICATOR_DEFINITIONS } from '../constants';
+import { Activity, X } from 'lucide-react';
+
+interface IndicatorMenuProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+const IndicatorMenu: React.FC<IndicatorMenuProps> = ({ indicators, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const addIndicator = (kind: IndicatorKind) => {
+    const { period, color } = INDICATOR_DEFINITIONS[kind];
+    onChange([...indicators, { id: `${kind.toLowerCase()}-${Date.now().toString(36)}`, kind, period, color }]);
+  };
+
+  const updateIndicator = (id: string, changes: Partial<IndicatorConfig>) => {
+    onChange(indicators.map(i => i.id === id ? { ...i, ...changes } : i));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-slate-700 ${isOpen ? 'bg-slate-700 text-white' : 'bg-slate-900/80 text-slate-400 hover:text-slate-200'}`}
+        title="Indicators"
+      >
+        <Activity size={12} /> Indicators
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 p-2 space-y-1">
+          {indicators.map(indicator => (
+            <div key={indicator.id} className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="color"
+                value={indicator.color}
+                onChange={(e) => updateIndicator(indicator.id, { color: e.target.value })}
+                className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+                title="Color"
+              />
+              <span className="flex-1 truncate">{INDICATOR_DEFINITIONS[indicator.kind].label}</span>
+              <input
+                type="number"
+                min="1"
+                value={indicator.period}
+                onChange={(e) => {
+                  const period = parseInt(e.target.value);
+                  if (period > 0) updateIndicator(indicator.id, { period });
+                }}
+                className="w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-white font-mono focus:outline-none focus:ring-1 focus:ring-slate-600"
+                title="Period"
+              />
+              <button
+                onClick={() => onChange(indicators.filter(i => i.id !== indicator.id))}
+                className="text-slate-500 hover:text-rose-400"
+                title="Remove"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <select
+            value=""
+            onChange={(e) => { if (e.target.value) addIndicator(e.target.value as IndicatorKind); }}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600 cursor-pointer"
+          >
+            <option value="">Add indicator…</option>
+            {(Object.keys(INDICATOR_DEFINITIONS) as IndicatorKind[]).map(kind => (
+              <option key={kind} value={kind}>{INDICATOR_DEFINITIONS[kind].label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorMenu;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Asset, MarketEvent } from '../types';
+import { MARKET_EVENT_DEFINITIONS } from '../constants';
+import { Newspaper } from 'lucide-react';
+
+interface NewsFeedProps {
+  events: MarketEvent[];
+  assets: Asset[];
+  onSelectAsset: (id: string) => void;
+}
+
+const NewsFeed: React.FC<NewsFeedProps> = ({ events, assets, onSelectAsset }) => {
+  const iconOf = (id: string) => assets.find(a => a.id === id)?.icon || id;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-700 bg-slate-800/50 flex items-center gap-2">
+        <Newspaper size={14} className="text-slate-400" />
+        <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">News</h2>
+      </div>
+      <div className="overflow-y-auto flex-1 divide-y divide-slate-700/50">
+        {events.length === 0 && (
+          <div className="text-center text-xs text-slate-500 py-6">No market news yet</div>
+        )}
+        {events.map(event => {
+          const isBullish = event.impact >= 0;
+          return (
+            <button
+              key={event.id}
+              onClick={() => onSelectAsset(event.assetIds[0])}
+              className="w-full text-left px-3 py-2 hover:bg-slate-700/40"
+              title={`${isBullish ? '+' : ''}${(event.impact * 100).toFixed(1)}% shock`}
+            >
+              <div className="flex items-center gap-2 mb-0.5">
+                <span className={`text-[10px] px-1.5 rounded border ${
+                  isBullish
+                    ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30'
+                    : 'bg-rose-500/10 text-rose-400 border-rose-500/30'
+                }`}>
+                  {MARKET_EVENT_DEFINITIONS[event.kind].label}
+                </span>
+                <span className="text-[10px] text-slate-500">{new Date(event.time).toLocaleTimeString()}</span>
+                <span className="ml-auto text-sm">{event.assetIds.map(iconOf).join(' ')}</span>
+              </div>
+              <div className="text-xs text-slate-200">{event.headline}</div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NewsFeed;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { InboxNotification, NotificationCategory } from '../types';
+import { NOTIFICATION_CATEGORY_LABELS } from '../constants';
+import { Bell, CheckCheck } from 'lucide-react';
+
+interface NotificationCenterProps {
+  notifications: InboxNotification[];
+  toastCategories: Record<NotificationCategory, boolean>;
+  onMarkRead: (ids?: string[]) => void;
+  onSetToastCategory: (category: NotificationCategory, enabled: boolean) => void;
+}
+
+const CATEGORY_BADGES: Record<NotificationCategory, string> = {
+  FILL: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  ALERT: 'bg-amber-500/10 text-amber-400 border-amber-500/30',
+  REJECTION: 'bg-rose-500/10 text-rose-400 border-rose-500/30',
+  SYSTEM: 'bg-slate-700/50 text-slate-400 border-slate-600',
+};
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications, toastCategories, onMarkRead, onSetToastCategory }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [category, setCategory] = useState<NotificationCategory | ''>('');
+
+  const unread = notifications.filter(n => !n.read).length;
+  const shown = category ? notifications.filter(n => n.category === category) : notifications;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="relative w-9 h-9 rounded-full bg-slate-800 border border-slate-700 flex items-center justify-center text-slate-300 hover:text-white"
+        title="Notifications"
+      >
+        <Bell size={16} />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-40">
+          <div className="flex justify-between items-center px-3 py-2 border-b border-slate-700">
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as NotificationCategory | '')}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600 cursor-pointer"
+            >
+              <option value="">All</option>
+              {(Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[]).map(c => (
+                <option key={c} value={c}>{NOTIFICATION_CATEGORY_LABELS[c]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onMarkRead()}
+              disabled={unread === 0}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400"
+            >
+              <CheckCheck size={14} /> Mark all as read
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-slate-700/50">
+            {shown.length === 0 && (
+              <div className="px-3 py-6 text-center text-xs text-slate-500">No notifications</div>
+            )}
+            {shown.map(n => (
+              <button
+                key={n.id}
+                onClick={() => { if (!n.read) onMarkRead([n.id]); }}
+                className={`w-full text-left px-3 py-2 flex gap-2 items-start hover:bg-slate-700/40 ${n.read ? 'opacity-60' : ''}`}
+              >
+                <span className={`mt-1.5 w-1.5 h-1.5 rounded-full flex-none ${n.read ? 'bg-transparent' : 'bg-sky-400'}`} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-0.5">
+                    <span className={`text-[10px] px-1.5 rounded border ${CATEGORY_BADGES[n.category]}`}>
+                      {NOTIFICATION_CATEGORY_LABELS[n.category]}
+                    </span>
+                    <span className="text-[10px] text-slate-500">{new Date(n.time).toLocaleString()}</span>
+                  </div>
+                  <div className="text-xs text-slate-200 break-words">{n.message}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="px-3 py-2 border-t border-slate-700">
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">Show as toast</div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {(Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[]).map(c => (
+                <label key={c} className="flex items-center gap-1 text-xs text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={toastCategories[c] !== false}
+                    onChange={(e) => onSetToastCategory(c, e.target.checked)}
+                  />
+                  {NOTIFICATION_CATEGORY_LABELS[c]}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
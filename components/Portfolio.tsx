@@ -1,23 +1,418 @@
-import React, { useState } from 'react';
-import { Asset, Portfolio as PortfolioType, Transaction, LimitOrder } from '../types';
-import { Coins, Briefcase, History, List, XCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Asset, Holding, Portfolio as PortfolioType, LimitOrder, OrderAmendmentRequest, CostBasisMethod, AccountType, MarginConfig,
+  OrderSide, OrderType, HistoryEntry, HistoryFilter, HistoryCursor, HistoryPage, ExportKind, ImportMode
+} from '../types';
+import { ORDER_TYPE_LABELS, COST_BASIS_LABELS } from '../constants';
+import { isArmed, isConditional, escrowedCash } from '../services/tradingEngine';
+import { marginStatus, liquidationPrice } from '../services/margin';
+import { lotsQuantity, lotsCost } from '../services/taxLots';
+import { equitySnapshot } from '../services/equity';
+import TransferMenu from './TransferMenu';
+import { Coins, Briefcase, History, List, XCircle, ChevronDown, ChevronRight, Pencil, Check, X, Receipt } from 'lucide-react';
 
 interface PortfolioProps {
   portfolio: PortfolioType;
   assets: Asset[];
   onCancelOrder: (orderId: string) => void;
+  onAmendOrder: (orderId: string, changes: OrderAmendmentRequest) => void;
+  onSetCostBasisMethod: (method: CostBasisMethod) => void;
+  onSetAccountType: (accountType: AccountType) => void;
+  marginConfig: MarginConfig;
+  loadHistory: (filter: HistoryFilter, after?: HistoryCursor) => Promise<HistoryPage>;
+  onExport: (kind: ExportKind) => void;
+  onImport: (text: string, mode: ImportMode) => void;
 }
 
-const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder }) => {
+const formatPnl = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+interface OrderRowProps {
+  order: LimitOrder;
+  asset?: Asset;
+  onCancel: (orderId: string) => void;
+  onAmend: (orderId: string, changes: OrderAmendmentRequest) => void;
+  toggle?: React.ReactNode;
+}
+
+const OrderRow: React.FC<OrderRowProps> = ({ order, asset, onCancel, onAmend, toggle }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [price, setPrice] = useState('');
+  const [quantity, setQuantity] = useState('');
+
+  // Limit-priced orders amend their limit; armed stops amend their trigger.
+  // Brackets and OCO legs take their size from the entry or the group.
+  const editsLimit = order.orderType === 'LIMIT' || order.orderType === 'STOP_LIMIT';
+  const editsTrigger = !editsLimit && isArmed(order) && order.orderType !== 'TRAILING_STOP';
+  const editsQuantity = !order.parentId && !order.ocoGroupId;
+  const canAmend = editsLimit || editsTrigger || editsQuantity;
+
+  const startEditing = () => {
+    setPrice((editsLimit ? order.targetPrice : order.triggerPrice || 0).toFixed(2));
+    setQuantity(String(order.quantity));
+    setIsEditing(true);
+  };
+
+  const saveAmendment = () => {
+    const changes: OrderAmendmentRequest = {};
+    const newPrice = parseFloat(price);
+    const newQuantity = parseInt(quantity);
+    const currentPrice = editsLimit ? order.targetPrice : order.triggerPrice;
+    if ((editsLimit || editsTrigger) && newPrice && newPrice !== currentPrice) {
+      if (editsLimit) changes.targetPrice = newPrice;
+      else changes.triggerPrice = newPrice;
+    }
+    if (editsQuantity && newQuantity && newQuantity !== order.quantity) changes.quantity = newQuantity;
+    if (Object.keys(changes).length) onAmend(order.id, changes);
+    setIsEditing(false);
+  };
+
+  return (
+  <div className="bg-slate-750 p-3 rounded-lg border border-slate-700 flex justify-between items-center group hover:border-slate-600">
+    <div>
+      <div className="flex items-center gap-2">
+        {toggle}
+        <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${order.type === 'BUY' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
+          {order.type}
+        </span>
+        <span className="font-bold text-slate-200">{asset?.name || order.assetId}</span>
+        <span className="text-[10px] font-mono text-slate-500 uppercase">{order.status.replace('_', ' ')}</span>
+      </div>
+      <div className="text-xs text-slate-400 font-mono mt-1">
+        {order.quantity} units @ ${order.targetPrice.toFixed(2)}
+        {order.timeInForce !== 'GTC' && (
+          <span className="text-slate-500">
+            {' '}• {order.timeInForce}{order.expiresAt ? ` until ${new Date(order.expiresAt).toLocaleString()}` : ''}
+          </span>
+        )}
+        {order.amendments && order.amendments.length > 0 && (
+          <span
+            className="text-slate-500"
+            title={order.amendments.map(a =>
+              `${new Date(a.timestamp).toLocaleTimeString()}: was ${a.previous.quantity} @ $${(a.previous.triggerPrice ?? a.previous.targetPrice).toFixed(2)}`
+            ).join('\n')}
+          >
+            {' '}• amended ×{order.amendments.length}
+          </span>
+        )}
+      </div>
+      {isEditing && (
+        <div className="flex items-center gap-2 mt-2">
+          {(editsLimit || editsTrigger) && (
+            <input
+              type="number"
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              className="w-20 bg-slate-900 border border-slate-600 rounded p-1 text-xs text-slate-100 font-mono focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              title={editsLimit ? 'Limit price' : 'Trigger price'}
+            />
+          )}
+          {editsQuantity && (
+            <input
+              type="number"
+              min={order.filledQuantity + 1}
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="w-16 bg-slate-900 border border-slate-600 rounded p-1 text-xs text-slate-100 font-mono focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              title="Quantity"
+            />
+          )}
+          <button onClick={saveAmendment} className="p-1 text-emerald-400 hover:bg-emerald-500/10 rounded" title="Save">
+            <Check size={14} />
+          </button>
+          <button onClick={() => setIsEditing(false)} className="p-1 text-slate-400 hover:bg-slate-600/30 rounded" title="Discard">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+      {isConditional(order.orderType) && (
+        <div className="flex items-center gap-2 text-[10px] font-mono mt-1">
+          <span className="text-slate-500">{ORDER_TYPE_LABELS[order.orderType]}</span>
+          {isArmed(order) ? (
+            <span className="px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400">
+              ARMED @ ${(order.triggerPrice || 0).toFixed(2)}
+            </span>
+          ) : (
+            <span className="px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-400">TRIGGERED</span>
+          )}
+        </div>
+      )}
+      {order.filledQuantity > 0 && (
+        <div className="mt-2">
+          <div className="flex justify-between text-[10px] text-slate-500 font-mono mb-1">
+            <span>{order.filledQuantity}/{order.quantity} filled</span>
+            <span>avg ${order.avgFillPrice.toFixed(2)}</span>
+          </div>
+          <div className="h-1 w-32 bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500"
+              style={{ width: `${(order.filledQuantity / order.quantity) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+    <div className="flex items-center">
+      {canAmend && !isEditing && (
+        <button
+          onClick={startEditing}
+          className="p-2 text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10 rounded-full transition-colors"
+          title="Amend Order"
+        >
+          <Pencil size={16} />
+        </button>
+      )}
+      <button 
+        onClick={() => onCancel(order.id)}
+        className="p-2 text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 rounded-full transition-colors"
+        title="Cancel Order"
+      >
+        <XCircle size={18} />
+      </button>
+    </div>
+  </div>
+  );
+};
+
+const STATUS_BADGES: Partial<Record<LimitOrder['status'], string>> = {
+  FILLED: 'bg-emerald-500/20 text-emerald-400',
+  EXPIRED: 'bg-amber-500/20 text-amber-400'
+};
+
+const HistoryRow: React.FC<{ entry: HistoryEntry; assets: Asset[] }> = ({ entry, assets }) => {
+  if (entry.kind === 'ORDER') {
+    const order = entry.order;
+    return (
+      <div className="p-4 flex justify-between items-center hover:bg-slate-800/50 transition-colors opacity-70">
+         <div>
+            <div className="flex items-center gap-2">
+              <span className={`font-bold text-sm ${order.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {order.type}
+              </span>
+              <span className="text-slate-200 text-sm font-semibold">
+                {assets.find(a => a.id === order.assetId)?.name || order.assetId}
+              </span>
+              <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${STATUS_BADGES[order.status] || 'bg-slate-600/40 text-slate-300'}`}>
+                {order.status}
+              </span>
+            </div>
+            <span className="text-xs text-slate-500">
+              {new Date(entry.time).toLocaleTimeString()} • {ORDER_TYPE_LABELS[order.orderType]} • {order.timeInForce}
+            </span>
+         </div>
+         <div className="text-right">
+            <div className="text-xs text-slate-500 font-mono">
+              {order.filledQuantity}/{order.quantity} filled
+            </div>
+            <div className="text-xs text-slate-500 font-mono">
+              @ ${(order.avgFillPrice || order.targetPrice).toFixed(2)}
+            </div>
+         </div>
+      </div>
+    );
+  }
+
+  const tx = entry.transaction;
+  return (
+    <div className="p-4 flex justify-between items-center hover:bg-slate-800/50 transition-colors">
+       <div>
+          <div className="flex items-center gap-2">
+            <span className={`font-bold text-sm ${tx.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {tx.type}
+            </span>
+            <span className="text-slate-200 text-sm font-semibold">{tx.assetName}</span>
+          </div>
+          <span className="text-xs text-slate-500">
+            {new Date(tx.timestamp).toLocaleTimeString()} • {ORDER_TYPE_LABELS[tx.orderType] || tx.orderType}
+          </span>
+       </div>
+       <div className="text-right">
+          <div className="text-slate-200 font-mono text-sm font-bold">
+            ${(tx.price * tx.quantity).toFixed(2)}
+          </div>
+          <div className="text-xs text-slate-500 font-mono">
+            {tx.quantity} @ ${tx.price.toFixed(2)}
+            {tx.fee ? ` • fee $${tx.fee.toFixed(2)}` : ''}
+          </div>
+          {tx.realizedPnl !== undefined && (
+            <div className={`text-xs font-mono ${tx.realizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+              P&L {formatPnl(tx.realizedPnl)}
+            </div>
+          )}
+       </div>
+    </div>
+  );
+};
+
+// Newest first, the order every store pages in
+const mergeEntries = (current: HistoryEntry[], incoming: HistoryEntry[]) => {
+  const known = new Set(current.map(entry => entry.id));
+  return [...current, ...incoming.filter(entry => !known.has(entry.id))]
+    .sort((a, b) => b.time - a.time || (a.id < b.id ? 1 : -1));
+};
+
+interface HistoryTabProps {
+  assets: Asset[];
+  lastHistoryId: string | null;
+  loadHistory: (filter: HistoryFilter, after?: HistoryCursor) => Promise<HistoryPage>;
+}
+
+// Fills and finished orders, loaded a page at a time as the list scrolls
+const HistoryTab: React.FC<HistoryTabProps> = ({ assets, lastHistoryId, loadHistory }) => {
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [cursor, setCursor] = useState<HistoryCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // A new filter starts over from the newest page
+  useEffect(() => {
+    let cancelled = false;
+    setEntries([]);
+    setCursor(null);
+    setIsLoading(true);
+    loadHistory(filter)
+      .then(page => {
+        if (cancelled) return;
+        setEntries(page.entries);
+        setCursor(page.next);
+      })
+      .catch(error => console.error("Failed to load history:", error))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [filter, loadHistory]);
+
+  // A commit added entries; fold the newest page into what's shown
+  useEffect(() => {
+    loadHistory(filter)
+      .then(page => setEntries(prev => mergeEntries(prev, page.entries)))
+      .catch(error => console.error("Failed to refresh history:", error));
+  }, [lastHistoryId]);
+
+  const loadMore = useCallback(() => {
+    if (!cursor || isLoading) return;
+    setIsLoading(true);
+    loadHistory(filter, cursor)
+      .then(page => {
+        setEntries(prev => mergeEntries(prev, page.entries));
+        setCursor(page.next);
+      })
+      .catch(error => console.error("Failed to load history:", error))
+      .finally(() => setIsLoading(false));
+  }, [cursor, isLoading, filter, loadHistory]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const selectClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600 cursor-pointer';
+
+  return (
+    <div>
+      <div className="flex gap-2 p-3 border-b border-slate-700/50">
+        <select
+          value={filter.assetId || ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, assetId: e.target.value || undefined }))}
+          className={selectClass}
+          title="Asset"
+        >
+          <option value="">All assets</option>
+          {assets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}</option>)}
+        </select>
+        <select
+          value={filter.side || ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, side: (e.target.value || undefined) as OrderSide | undefined }))}
+          className={selectClass}
+          title="Side"
+        >
+          <option value="">Buy & sell</option>
+          <option value="BUY">Buy</option>
+          <option value="SELL">Sell</option>
+        </select>
+        <select
+          value={filter.orderType || ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, orderType: (e.target.value || undefined) as OrderType | undefined }))}
+          className={selectClass}
+          title="Order type"
+        >
+          <option value="">All types</option>
+          {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map(type => (
+            <option key={type} value={type}>{ORDER_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="divide-y divide-slate-700/50">
+        {entries.map(entry => <HistoryRow key={entry.id} entry={entry} assets={assets} />)}
+      </div>
+
+      {entries.length === 0 && !isLoading && (
+        <div className="flex flex-col items-center justify-center h-40 text-slate-500 text-sm gap-2 opacity-50">
+          <History size={32} />
+          <p>No transaction history.</p>
+        </div>
+      )}
+      {cursor && <div ref={sentinelRef} className="h-8" />}
+      {isLoading && <div className="p-4 text-center text-xs text-slate-500">Loading…</div>}
+    </div>
+  );
+};
+
+interface OrderGroup {
+  key: string;
+  label: 'Bracket' | 'OCO' | null;
+  orders: LimitOrder[];
+}
+
+// Bracket exits sit under their entry; OCO legs whose entry is gone (or never
+// existed) sit under the first leg
+const groupOrders = (orders: LimitOrder[]): OrderGroup[] => {
+  const openIds = new Set(orders.map(o => o.id));
+  const groups = new Map<string, OrderGroup>();
+  orders.forEach(order => {
+    const key = order.parentId && openIds.has(order.parentId) ? order.parentId : order.ocoGroupId || order.id;
+    const group = groups.get(key) || { key, label: null, orders: [] };
+    group.orders.push(order);
+    if (group.orders.length > 1) {
+      group.label = group.orders.some(o => o.parentId === group.orders[0].id) ? 'Bracket' : 'OCO';
+    }
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+};
+
+const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder, onAmendOrder, onSetCostBasisMethod, onSetAccountType, marginConfig, loadHistory, onExport, onImport }) => {
   const [tab, setTab] = useState<'HOLDINGS' | 'ORDERS' | 'HISTORY'>('HOLDINGS');
+  const [expandedGroups, setExpandedGroups] = useState<string[]>([]);
+
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
 
-  // Calculate total values
-  const holdingsValue = Object.entries(portfolio.holdings).reduce((acc, [id, holding]) => {
+  // Counts cash and units escrowed by open orders, and shorts against it
+  const totalNetWorth = equitySnapshot(portfolio, assets, Date.now()).netWorth;
+  const hasPositions = Object.values<Holding>(portfolio.holdings).some(holding => lotsQuantity(holding.lots || []) !== 0);
+  const openOrderCount = portfolio.openOrders.length;
+  const totalFees = portfolio.feesPaid || 0;
+
+  // Unrealized P&L covers every lot still held, including units escrowed by open SELLs
+  const realizedPnl = Object.values<Holding>(portfolio.holdings).reduce((acc, holding) => acc + (holding.realizedPnl || 0), 0);
+  const unrealizedPnl = Object.entries<Holding>(portfolio.holdings).reduce((acc, [id, holding]) => {
     const asset = assets.find(a => a.id === id);
-    return acc + (holding.quantity * (asset?.current_price || 0));
+    const lots = holding.lots || [];
+    return acc + lotsQuantity(lots) * (asset?.current_price || 0) - lotsCost(lots);
   }, 0);
 
-  const totalNetWorth = portfolio.cashBalance + holdingsValue;
+  const onMargin = portfolio.accountType === 'MARGIN';
+  const escrowed = escrowedCash(portfolio);
+  const margin = marginStatus(portfolio, assets, marginConfig, escrowed);
 
   return (
     <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden flex flex-col h-full shadow-xl">
@@ -25,6 +420,28 @@ const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder
       <div className="p-6 border-b border-slate-700 bg-gradient-to-r from-slate-800 to-slate-900">
         <div className="flex justify-between items-start mb-4">
           <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">My Portfolio</h2>
+          <div className="flex gap-2">
+            <select
+              value={portfolio.accountType || 'CASH'}
+              onChange={(e) => onSetAccountType(e.target.value as AccountType)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600 cursor-pointer"
+              title="Account type"
+            >
+              <option value="CASH">Cash</option>
+              <option value="MARGIN">Margin</option>
+            </select>
+            <select
+              value={portfolio.costBasisMethod || 'FIFO'}
+              onChange={(e) => onSetCostBasisMethod(e.target.value as CostBasisMethod)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-600 cursor-pointer"
+              title="Cost basis method"
+            >
+              {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(method => (
+                <option key={method} value={method}>{COST_BASIS_LABELS[method]}</option>
+              ))}
+            </select>
+            <TransferMenu onExport={onExport} onImport={onImport} />
+          </div>
         </div>
         
         <div className="grid grid-cols-2 gap-4">
@@ -45,6 +462,38 @@ const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder
              </div>
           </div>
         </div>
+        <div className="grid grid-cols-3 gap-2 text-xs text-slate-500 mt-3">
+          <div>
+            <span className="block">Realized P&L</span>
+            <span className={`font-mono ${realizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatPnl(realizedPnl)}</span>
+          </div>
+          <div className="text-center">
+            <span className="block">Unrealized P&L</span>
+            <span className={`font-mono ${unrealizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatPnl(unrealizedPnl)}</span>
+          </div>
+          <div className="text-right">
+            <span className="flex items-center gap-1 justify-end"><Receipt size={12} /> Fees Paid</span>
+            <span className="font-mono text-slate-400">${totalFees.toFixed(2)}</span>
+          </div>
+        </div>
+        {onMargin && (
+          <div className="grid grid-cols-3 gap-2 text-xs text-slate-500 mt-3 pt-3 border-t border-slate-700/50">
+            <div>
+              <span className="block">Buying Power</span>
+              <span className="font-mono text-slate-200">${margin.buyingPower.toFixed(2)}</span>
+            </div>
+            <div className="text-center">
+              <span className="block">Margin Used</span>
+              <span className={`font-mono ${margin.equity < margin.marginUsed ? 'text-rose-400' : 'text-slate-200'}`}>
+                ${margin.marginUsed.toFixed(2)}
+              </span>
+            </div>
+            <div className="text-right">
+              <span className="block">Interest Paid</span>
+              <span className="font-mono text-slate-400">${(portfolio.interestPaid || 0).toFixed(2)}</span>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Tabs */}
@@ -76,15 +525,18 @@ const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder
         {/* Holdings Tab */}
         {tab === 'HOLDINGS' && (
           <div className="p-4 space-y-3">
-            {Object.entries(portfolio.holdings).map(([id, holding]) => {
-              if (holding.quantity === 0) return null;
+            {Object.entries<Holding>(portfolio.holdings).map(([id, holding]) => {
+              const lots = holding.lots || [];
+              const position = lotsQuantity(lots);
+              if (position === 0) return null;
               const asset = assets.find(a => a.id === id);
               if (!asset) return null;
               
-              const currentValue = holding.quantity * asset.current_price;
-              const costBasis = holding.quantity * holding.avgCost;
+              const currentValue = position * asset.current_price;
+              const costBasis = lotsCost(lots);
               const gainLoss = currentValue - costBasis;
-              const gainLossPercent = (gainLoss / costBasis) * 100;
+              const gainLossPercent = (gainLoss / Math.abs(costBasis)) * 100;
+              const liquidation = onMargin ? liquidationPrice(portfolio, assets, marginConfig, escrowed, id) : null;
               const isGain = gainLoss >= 0;
 
               return (
@@ -98,18 +550,31 @@ const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder
                   </div>
                   
                   <div className="flex justify-between text-xs text-slate-400 font-mono">
-                    <span>{holding.quantity} units @ ${holding.avgCost.toFixed(2)}</span>
+                    <span>
+                      {position} units @ ${holding.avgCost.toFixed(2)}
+                      {position > holding.quantity && <span className="text-slate-500"> ({position - holding.quantity} in orders)</span>}
+                    </span>
                     <span className={isGain ? 'text-emerald-400' : 'text-rose-400'}>
                       {isGain ? '+' : ''}{gainLoss.toFixed(2)} ({isGain ? '+' : ''}{gainLossPercent.toFixed(1)}%)
                     </span>
                   </div>
+                  <div className="flex justify-between text-[10px] text-slate-500 font-mono mt-1">
+                    <span>
+                      {position < 0 ? 'Short • ' : ''}{lots.length} lot{lots.length === 1 ? '' : 's'}
+                      {liquidation !== null && <span className="text-amber-400"> • Liq. ${liquidation.toFixed(2)}</span>}
+                    </span>
+                    <span>Realized {formatPnl(holding.realizedPnl || 0)}</span>
+                  </div>
                 </div>
               );
             })}
-            {holdingsValue === 0 && (
+            {!hasPositions && (
                <div className="flex flex-col items-center justify-center h-40 text-slate-500 text-sm gap-2 opacity-50">
                  <Briefcase size={32} />
                  <p>No positions yet.</p>
+                 {openOrderCount > 0 && (
+                   <p className="text-xs">{openOrderCount} open order{openOrderCount === 1 ? '' : 's'} waiting to fill</p>
+                 )}
                </div>
             )}
           </div>
@@ -124,28 +589,37 @@ const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder
                  <p>No open orders.</p>
                </div>
             ) : (
-              portfolio.openOrders.map((order) => {
-                 const asset = assets.find(a => a.id === order.assetId);
+              groupOrders(portfolio.openOrders).map(({ key, label, orders: [root, ...linked] }) => {
+                 const asset = assets.find(a => a.id === root.assetId);
+                 if (!label) {
+                   return <OrderRow key={key} order={root} asset={asset} onCancel={onCancelOrder} onAmend={onAmendOrder} />;
+                 }
+                 const isExpanded = expandedGroups.includes(key);
                  return (
-                   <div key={order.id} className="bg-slate-750 p-3 rounded-lg border border-slate-700 flex justify-between items-center group hover:border-slate-600">
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${order.type === 'BUY' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
-                            {order.type}
-                          </span>
-                          <span className="font-bold text-slate-200">{asset?.name || order.assetId}</span>
-                        </div>
-                        <div className="text-xs text-slate-400 font-mono mt-1">
-                          {order.quantity} units @ ${order.targetPrice.toFixed(2)}
-                        </div>
-                      </div>
-                      <button 
-                        onClick={() => onCancelOrder(order.id)}
-                        className="p-2 text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 rounded-full transition-colors"
-                        title="Cancel Order"
-                      >
-                        <XCircle size={18} />
-                      </button>
+                   <div key={key} className="space-y-1">
+                     <OrderRow
+                       order={root}
+                       asset={asset}
+                       onCancel={onCancelOrder}
+                       onAmend={onAmendOrder}
+                       toggle={
+                         <button
+                           onClick={() => toggleGroup(key)}
+                           className="flex items-center gap-1 text-[10px] font-bold uppercase text-indigo-400 hover:text-indigo-300"
+                           title={isExpanded ? 'Collapse' : 'Expand'}
+                         >
+                           {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                           {label} · {linked.length + 1}
+                         </button>
+                       }
+                     />
+                     {isExpanded && (
+                       <div className="pl-4 border-l border-slate-700 ml-2 space-y-1">
+                         {linked.map(order => (
+                           <OrderRow key={order.id} order={order} asset={asset} onCancel={onCancelOrder} onAmend={onAmendOrder} />
+                         ))}
+                       </div>
+                     )}
                    </div>
                  );
               })
@@ -155,38 +629,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ portfolio, assets, onCancelOrder
 
         {/* History Tab */}
         {tab === 'HISTORY' && (
-          <div className="divide-y divide-slate-700/50">
-             {portfolio.transactions && portfolio.transactions.length > 0 ? (
-               [...portfolio.transactions].reverse().map((tx) => (
-                 <div key={tx.id} className="p-4 flex justify-between items-center hover:bg-slate-800/50 transition-colors">
-                    <div>
-                       <div className="flex items-center gap-2">
-                         <span className={`font-bold text-sm ${tx.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>
-                           {tx.type}
-                         </span>
-                         <span className="text-slate-200 text-sm font-semibold">{tx.assetName}</span>
-                       </div>
-                       <span className="text-xs text-slate-500">
-                         {new Date(tx.timestamp).toLocaleTimeString()} • {tx.orderType}
-                       </span>
-                    </div>
-                    <div className="text-right">
-                       <div className="text-slate-200 font-mono text-sm font-bold">
-                         ${(tx.price * tx.quantity).toFixed(2)}
-                       </div>
-                       <div className="text-xs text-slate-500 font-mono">
-                         {tx.quantity} @ ${tx.price.toFixed(2)}
-                       </div>
-                    </div>
-                 </div>
-               ))
-             ) : (
-               <div className="flex flex-col items-center justify-center h-40 text-slate-500 text-sm gap-2 opacity-50">
-                 <History size={32} />
-                 <p>No transaction history.</p>
-               </div>
-             )}
-          </div>
+          <HistoryTab assets={assets} lastHistoryId={portfolio.lastHistoryId} loadHistory={loadHistory} />
         )}
       </div>
     </div>
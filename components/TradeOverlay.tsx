@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { usePlotArea, useXAxisScale, useYAxisScale, useYAxisInverseScale } from 'recharts';
+import { LimitOrder, Transaction, OrderAmendmentRequest } from '../types';
+import { ORDER_TYPE_LABELS } from '../constants';
+import { isArmed } from '../services/tradingEngine';
+
+interface TradeOverlayProps {
+  fills: { bucket: number; transaction: Transaction }[]; // `bucket`: time of the candle the fill falls in
+  orders: LimitOrder[];
+  avgCost: number | null;
+  tickSize: number; // Dragged prices snap to it
+  yAxisId: string;
+  onAmendOrder: (orderId: string, changes: OrderAmendmentRequest) => void;
+}
+
+const BUY_COLOR = '#10b981';
+const SELL_COLOR = '#f43f5e';
+
+// Price an order line sits at and the field dragging it amends. Trailing
+// stops move with the market and triggered market stops are gone from the
+// book, so neither can be dragged.
+const orderLine = (order: LimitOrder): { price: number; field?: keyof OrderAmendmentRequest } => {
+  if (isArmed(order)) {
+    return {
+      price: order.triggerPrice || order.targetPrice,
+      field: order.orderType === 'TRAILING_STOP' ? undefined : 'triggerPrice'
+    };
+  }
+  const limited = order.orderType === 'LIMIT' || order.orderType === 'STOP_LIMIT';
+  return { price: order.targetPrice, field: limited ? 'targetPrice' : undefined };
+};
+
+/**
+ * The user's own activity over the price chart: fill markers, a line per open
+ * order and one at the holding's average cost. Rendered inside the chart so it
+ * shares the price axis; order lines can be dragged to a new price, which is
+ * offered as an amendment once released.
+ */
+const TradeOverlay: React.FC<TradeOverlayProps> = ({ fills, orders, avgCost, tickSize, yAxisId, onAmendOrder }) => {
+  const plot = usePlotArea();
+  const xScale = useXAxisScale();
+  const yScale = useYAxisScale(yAxisId);
+  const yInverse = useYAxisInverseScale(yAxisId);
+  const [drag, setDrag] = useState<{ orderId: string; top: number; price: number } | null>(null);
+
+  useEffect(() => {
+    if (!drag || !yInverse) return;
+    const move = (e: PointerEvent) => {
+      const price = Math.round(Number(yInverse(e.clientY - drag.top)) / tickSize) * tickSize;
+      if (price > 0) setDrag(d => d && { ...d, price });
+    };
+    const release = () => {
+      const order = orders.find(o => o.id === drag.orderId);
+      setDrag(null);
+      if (!order) return;
+      const { price, field } = orderLine(order);
+      if (!field || drag.price === price) return;
+      if (window.confirm(`Move ${order.type} ${ORDER_TYPE_LABELS[order.orderType]} order from $${price.toFixed(2)} to $${drag.price.toFixed(2)}?`)) {
+        onAmendOrder(order.id, { [field]: drag.price });
+      }
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', release);
+    return () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', release);
+    };
+  }, [drag, yInverse, orders, tickSize, onAmendOrder]);
+
+  if (!plot || !xScale || !yScale) return null;
+
+  const inPlot = (y: number | undefined): y is number => y !== undefined && y >= plot.y && y <= plot.y + plot.height;
+
+  const startDrag = (e: React.PointerEvent<SVGElement>, order: LimitOrder) => {
+    const svg = (e.currentTarget as SVGElement).ownerSVGElement;
+    if (!svg) return;
+    e.preventDefault();
+    setDrag({ orderId: order.id, top: svg.getBoundingClientRect().top, price: orderLine(order).price });
+  };
+
+  return (
+    <g className="trade-overlay">
+      {avgCost !== null && inPlot(yScale(avgCost)) && (
+        <g>
+          <line x1={plot.x} x2={plot.x + plot.width} y1={yScale(avgCost)} y2={yScale(avgCost)} stroke="#94a3b8" strokeDasharray="2 4" />
+          <text x={plot.x + plot.width - 4} y={(yScale(avgCost) as number) - 4} textAnchor="end" fill="#94a3b8" fontSize={10} fontFamily="monospace">
+            Avg cost ${avgCost.toFixed(2)}
+          </text>
+        </g>
+      )}
+
+      {orders.map(order => {
+        const { field } = orderLine(order);
+        const price = drag?.orderId === order.id ? drag.price : orderLine(order).price;
+        const y = yScale(price);
+        if (!inPlot(y)) return null;
+        const color = order.type === 'BUY' ? BUY_COLOR : SELL_COLOR;
+        return (
+          <g
+            key={order.id}
+            onPointerDown={field ? (e) => startDrag(e, order) : undefined}
+            style={{ cursor: field ? 'ns-resize' : 'default' }}
+            opacity={order.status === 'PENDING' ? 0.5 : 1}
+          >
+            {/* Wide transparent stroke makes the line easy to grab */}
+            <line x1={plot.x} x2={plot.x + plot.width} y1={y} y2={y} stroke="transparent" strokeWidth={10} />
+            <line x1={plot.x} x2={plot.x + plot.width} y1={y} y2={y} stroke={color} strokeDasharray="6 3" />
+            <text x={plot.x + 4} y={y - 4} fill={color} fontSize={10} fontFamily="monospace">
+              {order.type} {order.quantity - order.filledQuantity} {ORDER_TYPE_LABELS[order.orderType]} @ ${price.toFixed(2)}
+            </text>
+          </g>
+        );
+      })}
+
+      {fills.map(({ bucket, transaction }) => {
+        const x = xScale(bucket, { position: 'middle' });
+        const y = yScale(transaction.price);
+        if (x === undefined || !inPlot(y)) return null;
+        const isBuy = transaction.type === 'BUY';
+        // Buys point up from below the price, sells down from above it
+        const points = isBuy
+          ? `${x},${y + 2} ${x - 5},${y + 10} ${x + 5},${y + 10}`
+          : `${x},${y - 2} ${x - 5},${y - 10} ${x + 5},${y - 10}`;
+        return (
+          <polygon key={transaction.id} points={points} fill={isBuy ? BUY_COLOR : SELL_COLOR} stroke="#0f172a" strokeWidth={1}>
+            <title>{`${transaction.type} ${transaction.quantity} @ $${transaction.price.toFixed(2)}`}</title>
+          </polygon>
+        );
+      })}
+    </g>
+  );
+};
+
+export default TradeOverlay;
@@ -1,28 +1,26 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Asset, Portfolio } from '../types';
-import { ArrowUpCircle, ArrowDownCircle, Wallet, AlertCircle, Target, Zap } from 'lucide-react';
+import { Asset, Portfolio, OrderIntent, OrderType, TimeInForce, FeeSchedule } from '../types';
+import { ORDER_TYPE_LABELS, TIME_IN_FORCE_LABELS } from '../constants';
+import { quoteMarketOrder } from '../services/orderBook';
+import { CONDITIONAL_ORDER_TYPES, isConditional, restingOrderPrice, liquidityFor } from '../services/tradingEngine';
+import { tradingVolume, feeRateFor, minimumFeeFor, calculateFee } from '../services/fees';
+import { ArrowUpCircle, ArrowDownCircle, Wallet, AlertCircle, Target, Zap, ShieldAlert } from 'lucide-react';
 
 interface TradePanelProps {
   asset: Asset;
   portfolio: Portfolio;
-  onTrade: (type: 'BUY' | 'SELL', quantity: number, orderType: 'MARKET' | 'LIMIT', price?: number) => Promise<void>;
+  onTrade: (order: Omit<OrderIntent, 'assetId'>) => Promise<void>;
   isTrading: boolean;
+  feeSchedule: FeeSchedule;
 }
 
-// Simulated Order Book Component
+const VISIBLE_LEVELS = 5;
+
+// Order Book Component: renders the simulator's live book for the asset
 const OrderBook: React.FC<{ asset: Asset }> = ({ asset }) => {
   const price = asset.current_price;
-  
-  // Generate fake order book based on current price
-  const asks = useMemo(() => Array.from({ length: 5 }, (_, i) => ({
-    price: price * (1 + (0.005 * (5 - i))), // Ascending
-    size: Math.floor(Math.random() * 100) + 10
-  })).reverse(), [price]);
-
-  const bids = useMemo(() => Array.from({ length: 5 }, (_, i) => ({
-    price: price * (1 - (0.005 * (i + 1))), // Descending
-    size: Math.floor(Math.random() * 100) + 10
-  })), [price]);
+  const asks = asset.orderBook ? asset.orderBook.asks.slice(0, VISIBLE_LEVELS) : [];
+  const bids = asset.orderBook ? asset.orderBook.bids.slice(0, VISIBLE_LEVELS) : [];
 
   return (
     <div className="flex flex-col gap-1 text-xs font-mono">
@@ -36,7 +34,7 @@ const OrderBook: React.FC<{ asset: Asset }> = ({ asset }) => {
           <div key={`ask-${i}`} className="grid grid-cols-3 text-rose-400 hover:bg-rose-500/10 cursor-pointer rounded px-1">
             <span>{ask.price.toFixed(2)}</span>
             <span className="text-right text-slate-300">{ask.size}</span>
-            <span className="text-right text-slate-500">{(ask.price * ask.size).toFixed(0)}</span>
+            <span className="text-right text-slate-500">{ask.total.toFixed(0)}</span>
           </div>
         ))}
       </div>
@@ -48,7 +46,7 @@ const OrderBook: React.FC<{ asset: Asset }> = ({ asset }) => {
           <div key={`bid-${i}`} className="grid grid-cols-3 text-emerald-400 hover:bg-emerald-500/10 cursor-pointer rounded px-1">
             <span>{bid.price.toFixed(2)}</span>
             <span className="text-right text-slate-300">{bid.size}</span>
-            <span className="text-right text-slate-500">{(bid.price * bid.size).toFixed(0)}</span>
+            <span className="text-right text-slate-500">{bid.total.toFixed(0)}</span>
           </div>
         ))}
       </div>
@@ -56,36 +54,99 @@ const OrderBook: React.FC<{ asset: Asset }> = ({ asset }) => {
   );
 };
 
-const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTrading }) => {
+const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTrading, feeSchedule }) => {
   const [mode, setMode] = useState<'BUY' | 'SELL'>('BUY');
-  const [orderType, setOrderType] = useState<'MARKET' | 'LIMIT'>('MARKET');
+  const [orderType, setOrderType] = useState<OrderType>('MARKET');
   const [quantity, setQuantity] = useState<string>('');
   const [limitPrice, setLimitPrice] = useState<string>('');
+  const [triggerPrice, setTriggerPrice] = useState<string>('');
+  const [trailingOffset, setTrailingOffset] = useState<string>('');
+  const [attachExits, setAttachExits] = useState(false);
+  const [takeProfit, setTakeProfit] = useState<string>('');
+  const [stopLoss, setStopLoss] = useState<string>('');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('GTC');
+  const [expiresAt, setExpiresAt] = useState<string>('');
+  const [selectedLots, setSelectedLots] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     setQuantity('');
     setLimitPrice(asset.current_price.toFixed(2));
+    setTriggerPrice(asset.current_price.toFixed(2));
+    setTrailingOffset('');
+    setAttachExits(false);
+    setTakeProfit('');
+    setStopLoss('');
+    setSelectedLots([]);
     setError(null);
     setMode('BUY');
   }, [asset.id]);
 
   // Update default limit price when switching to limit tab
   useEffect(() => {
-    if (orderType === 'LIMIT' && !limitPrice) {
+    if ((orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && !limitPrice) {
       setLimitPrice(asset.current_price.toFixed(2));
     }
+    if (isConditional(orderType) && orderType !== 'TRAILING_STOP' && !triggerPrice) {
+      setTriggerPrice(asset.current_price.toFixed(2));
+    }
   }, [orderType, asset.current_price]);
 
-  const holding = portfolio.holdings[asset.id] || { quantity: 0, avgCost: 0 };
+  const holding = portfolio.holdings[asset.id] || { quantity: 0, avgCost: 0, lots: [], realizedPnl: 0 };
+  const picksLots = mode === 'SELL' && portfolio.costBasisMethod === 'SPECIFIC' && (holding.lots || []).length > 0;
   const numericQty = parseInt(quantity) || 0;
   const numericLimitPrice = parseFloat(limitPrice) || 0;
+  const numericTriggerPrice = parseFloat(triggerPrice) || 0;
+  const numericTrailingOffset = parseFloat(trailingOffset) || 0;
+
+  const usesLimitPrice = orderType === 'LIMIT' || orderType === 'STOP_LIMIT';
+  const usesTriggerPrice = orderType === 'STOP_MARKET' || orderType === 'STOP_LIMIT' || orderType === 'TAKE_PROFIT';
+  const usesTrailingOffset = orderType === 'TRAILING_STOP';
+
+  // IOC / FOK never rest, so they don't combine with stop triggers; market
+  // orders are always immediate
+  const allowedTimeInForce: TimeInForce[] = orderType === 'MARKET'
+    ? ['FOK', 'IOC']
+    : isConditional(orderType) ? ['GTC', 'DAY', 'GTD'] : ['GTC', 'DAY', 'GTD', 'IOC', 'FOK'];
+  const effectiveTimeInForce = allowedTimeInForce.includes(timeInForce) ? timeInForce : allowedTimeInForce[0];
+  const expiresAtMs = expiresAt ? new Date(expiresAt).getTime() : 0;
+
+  const intent: Omit<OrderIntent, 'assetId'> = {
+    type: mode,
+    quantity: numericQty,
+    orderType,
+    limitPrice: usesLimitPrice ? numericLimitPrice : undefined,
+    triggerPrice: usesTriggerPrice ? numericTriggerPrice : undefined,
+    trailingOffset: usesTrailingOffset ? numericTrailingOffset : undefined,
+    timeInForce: effectiveTimeInForce,
+    expiresAt: effectiveTimeInForce === 'GTD' ? expiresAtMs : undefined,
+    takeProfitPrice: attachExits && takeProfit ? parseFloat(takeProfit) || 0 : undefined,
+    stopLossPrice: attachExits && stopLoss ? parseFloat(stopLoss) || 0 : undefined,
+    lotIds: picksLots && selectedLots.length ? selectedLots : undefined
+  };
   
-  const executionPrice = orderType === 'MARKET' ? asset.current_price : numericLimitPrice;
+  // Market orders are previewed against the live book so slippage is visible up front
+  const marketQuote = useMemo(() => (
+    orderType === 'MARKET' && asset.orderBook && numericQty > 0
+      ? quoteMarketOrder(asset.orderBook, mode, numericQty)
+      : null
+  ), [orderType, asset.orderBook, mode, numericQty]);
+
+  // Resting orders are previewed at what they escrow (BUY) or aim for (SELL)
+  const executionPrice = orderType === 'MARKET'
+    ? (marketQuote && marketQuote.filledQuantity > 0 ? marketQuote.avgPrice : asset.current_price)
+    : restingOrderPrice({ ...intent, assetId: asset.id }, asset);
   const totalCost = numericQty * executionPrice;
+  const insufficientLiquidity = !!marketQuote && marketQuote.filledQuantity < numericQty;
+
+  const liquidity = liquidityFor(orderType, effectiveTimeInForce);
+  const feeRate = feeRateFor(feeSchedule, asset.id, liquidity, tradingVolume(portfolio.volumeByDay, Date.now()));
+  const estimatedFee = calculateFee(totalCost, feeRate, minimumFeeFor(feeSchedule, asset.id));
   
-  const canBuy = portfolio.cashBalance >= totalCost;
-  const canSell = holding.quantity >= numericQty;
+  // Margin accounts may borrow and sell short; the engine checks buying power
+  const onMargin = portfolio.accountType === 'MARGIN';
+  const canBuy = onMargin || portfolio.cashBalance >= totalCost + estimatedFee;
+  const canSell = onMargin || holding.quantity >= numericQty;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -94,11 +155,26 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
       return;
     }
 
-    if (orderType === 'LIMIT' && numericLimitPrice <= 0) {
+    if (usesLimitPrice && numericLimitPrice <= 0) {
       setError("Enter a valid price");
       return;
     }
 
+    if (usesTriggerPrice && numericTriggerPrice <= 0) {
+      setError("Enter a valid trigger price");
+      return;
+    }
+
+    if (usesTrailingOffset && numericTrailingOffset <= 0) {
+      setError("Enter a valid trailing offset");
+      return;
+    }
+
+    if (insufficientLiquidity) {
+      setError("Insufficient liquidity");
+      return;
+    }
+
     if (mode === 'BUY' && !canBuy) {
       setError("Insufficient funds");
       return;
@@ -109,8 +185,18 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
       return;
     }
 
+    if (effectiveTimeInForce === 'GTD' && !(expiresAtMs > Date.now())) {
+      setError("Enter an expiry in the future");
+      return;
+    }
+
+    if (attachExits && intent.takeProfitPrice === undefined && intent.stopLossPrice === undefined) {
+      setError("Enter a take-profit or stop-loss price");
+      return;
+    }
+
     setError(null);
-    await onTrade(mode, numericQty, orderType, orderType === 'LIMIT' ? numericLimitPrice : undefined);
+    await onTrade(intent);
     setQuantity('');
   };
 
@@ -142,6 +228,19 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
              >
                Limit
              </button>
+             <select
+               value={isConditional(orderType) ? orderType : ''}
+               onChange={(e) => {
+                 setOrderType(e.target.value as OrderType);
+                 setError(null);
+               }}
+               className={`px-2 py-1 text-xs font-bold rounded bg-transparent focus:outline-none cursor-pointer ${isConditional(orderType) ? 'bg-slate-700 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+             >
+               <option value="" disabled>Stops</option>
+               {CONDITIONAL_ORDER_TYPES.map(t => (
+                 <option key={t} value={t}>{ORDER_TYPE_LABELS[t]}</option>
+               ))}
+             </select>
           </div>
           <div className="flex items-center gap-2 text-sm text-slate-400 bg-slate-900/50 px-3 py-1 rounded-full">
             <Wallet size={14} />
@@ -175,14 +274,61 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
 
         <form onSubmit={handleSubmit} className="flex flex-col gap-4 relative z-10">
           
+          {/* Trigger Price Input */}
+          {usesTriggerPrice && (
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500 uppercase font-semibold">Trigger Price</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  step={asset.tickSize}
+                  value={triggerPrice}
+                  onChange={(e) => {
+                    setTriggerPrice(e.target.value);
+                    setError(null);
+                  }}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500 font-mono text-lg transition-all"
+                  placeholder="0.00"
+                />
+                <div className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm font-bold">
+                  USD
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Trailing Offset Input */}
+          {usesTrailingOffset && (
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500 uppercase font-semibold">Trailing Offset</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  step={asset.tickSize}
+                  min="0"
+                  value={trailingOffset}
+                  onChange={(e) => {
+                    setTrailingOffset(e.target.value);
+                    setError(null);
+                  }}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500 font-mono text-lg transition-all"
+                  placeholder="0.00"
+                />
+                <div className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm font-bold">
+                  USD
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Limit Price Input */}
-          {orderType === 'LIMIT' && (
+          {usesLimitPrice && (
             <div className="space-y-1">
               <label className="text-xs text-slate-500 uppercase font-semibold">Limit Price</label>
               <div className="relative">
                 <input
                   type="number"
-                  step="0.01"
+                  step={asset.tickSize}
                   value={limitPrice}
                   onChange={(e) => {
                     setLimitPrice(e.target.value);
@@ -198,14 +344,47 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
             </div>
           )}
 
+          {/* Time In Force */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500 uppercase font-semibold">Time in Force</label>
+              <select
+                value={effectiveTimeInForce}
+                onChange={(e) => {
+                  setTimeInForce(e.target.value as TimeInForce);
+                  setError(null);
+                }}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-slate-600 text-sm"
+              >
+                {allowedTimeInForce.map(tif => (
+                  <option key={tif} value={tif}>{TIME_IN_FORCE_LABELS[tif]}</option>
+                ))}
+              </select>
+            </div>
+            {effectiveTimeInForce === 'GTD' && (
+              <div className="space-y-1">
+                <label className="text-xs text-slate-500 uppercase font-semibold">Expires</label>
+                <input
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => {
+                    setExpiresAt(e.target.value);
+                    setError(null);
+                  }}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-slate-600 text-sm"
+                />
+              </div>
+            )}
+          </div>
+
           {/* Quantity Input */}
           <div className="space-y-1">
             <label className="text-xs text-slate-500 uppercase font-semibold">Quantity</label>
             <div className="relative">
               <input
                 type="number"
-                min="1"
-                step="1"
+                min={asset.lotSize}
+                step={asset.lotSize}
                 value={quantity}
                 onChange={(e) => {
                   setQuantity(e.target.value);
@@ -220,12 +399,79 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
             </div>
           </div>
 
+          {/* Lots to close first under specific-lot cost basis */}
+          {picksLots && (
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500 uppercase font-semibold">Lots to Sell</label>
+              <div className="max-h-28 overflow-y-auto space-y-1">
+                {holding.lots.map(lot => (
+                  <label key={lot.id} className="flex items-center justify-between gap-2 text-xs text-slate-400 font-mono cursor-pointer select-none">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedLots.includes(lot.id)}
+                        onChange={(e) => setSelectedLots(prev =>
+                          e.target.checked ? [...prev, lot.id] : prev.filter(id => id !== lot.id)
+                        )}
+                        className="accent-indigo-500"
+                      />
+                      {lot.acquiredAt ? new Date(lot.acquiredAt).toLocaleString() : 'Opening position'}
+                    </span>
+                    <span>{lot.quantity} @ ${lot.unitCost.toFixed(2)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Attached Exits (bracket on BUY, OCO exit on SELL) */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={attachExits}
+                onChange={(e) => {
+                  setAttachExits(e.target.checked);
+                  setError(null);
+                }}
+                className="accent-indigo-500"
+              />
+              {mode === 'BUY' ? 'Attach take-profit / stop-loss' : 'Sell as take-profit / stop-loss (OCO)'}
+            </label>
+            {attachExits && (
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  step={asset.tickSize}
+                  value={takeProfit}
+                  onChange={(e) => {
+                    setTakeProfit(e.target.value);
+                    setError(null);
+                  }}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-600 font-mono text-sm"
+                  placeholder="Take-profit"
+                />
+                <input
+                  type="number"
+                  step={asset.tickSize}
+                  value={stopLoss}
+                  onChange={(e) => {
+                    setStopLoss(e.target.value);
+                    setError(null);
+                  }}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-rose-600 font-mono text-sm"
+                  placeholder="Stop-loss"
+                />
+              </div>
+            )}
+          </div>
+
           {/* Info Box */}
           <div className="bg-slate-900/30 rounded-lg p-4 space-y-2 border border-slate-700/50">
             <div className="flex justify-between text-sm">
               <span className="text-slate-400">Order Type</span>
               <span className="text-slate-200 font-mono flex items-center gap-1">
-                {orderType === 'LIMIT' ? <Target size={12}/> : <Zap size={12}/>} {orderType}
+                {isConditional(orderType) ? <ShieldAlert size={12}/> : orderType === 'LIMIT' ? <Target size={12}/> : <Zap size={12}/>} {ORDER_TYPE_LABELS[orderType]}
               </span>
             </div>
             <div className="flex justify-between text-sm">
@@ -234,18 +480,45 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
                 ${totalCost.toFixed(2)}
               </span>
             </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-400">Est. Fee ({liquidity === 'MAKER' ? 'maker' : 'taker'} {(feeRate * 100).toFixed(2)}%)</span>
+              <span className="text-slate-200 font-mono">${estimatedFee.toFixed(2)}</span>
+            </div>
+            {marketQuote && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-400">Est. Avg Price</span>
+                <span className={`font-mono ${insufficientLiquidity ? 'text-rose-400' : 'text-slate-200'}`}>
+                  {insufficientLiquidity
+                    ? 'Not enough depth'
+                    : `$${marketQuote.avgPrice.toFixed(2)} (${(marketQuote.slippage * 100).toFixed(2)}% slip)`}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between text-xs text-slate-500 pt-2 border-t border-slate-700/50">
                <span>Owned: {holding.quantity}</span>
                {mode === 'BUY' ? (
                   <span className={canBuy ? 'text-emerald-500' : 'text-rose-500'}>
-                    Max Buy: {executionPrice > 0 ? Math.floor(portfolio.cashBalance / executionPrice) : 0}
+                    Max Buy: {executionPrice > 0 ? Math.floor(portfolio.cashBalance / (executionPrice * (1 + feeRate))) : 0}
                   </span>
                ) : (
-                  <span className={canSell ? 'text-emerald-500' : 'text-rose-500'}>Max Sell: {holding.quantity}</span>
+                  <span className={canSell ? 'text-emerald-500' : 'text-rose-500'}>
+                    {onMargin && numericQty > holding.quantity ? `Short: ${numericQty - Math.max(0, holding.quantity)}` : `Max Sell: ${Math.max(0, holding.quantity)}`}
+                  </span>
                )}
             </div>
           </div>
 
+          {asset.status !== 'TRADING' && (
+            <div className="flex items-center gap-2 text-amber-400 text-sm bg-amber-500/10 p-3 rounded-lg border border-amber-500/20">
+              <AlertCircle size={16} />
+              <span>
+                {asset.status === 'HALTED'
+                  ? `Trading in ${asset.name} is halted. Open orders wait until it resumes.`
+                  : `${asset.name} has been delisted. Positions are settled at $${(asset.delistPrice ?? asset.current_price).toFixed(2)}.`}
+              </span>
+            </div>
+          )}
+
           {error && (
             <div className="flex items-center gap-2 text-rose-400 text-sm bg-rose-500/10 p-3 rounded-lg border border-rose-500/20 animate-pulse">
               <AlertCircle size={16} />
@@ -255,7 +528,7 @@ const TradePanel: React.FC<TradePanelProps> = ({ asset, portfolio, onTrade, isTr
 
           <button
             type="submit"
-            disabled={isTrading || numericQty <= 0 || (mode === 'BUY' && !canBuy) || (mode === 'SELL' && !canSell)}
+            disabled={isTrading || asset.status !== 'TRADING' || numericQty <= 0 || insufficientLiquidity || (mode === 'BUY' && !canBuy) || (mode === 'SELL' && !canSell)}
             className={`w-full py-4 rounded-lg font-bold text-lg shadow-xl transition-all transform active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed ${
               mode === 'BUY'
                 ? 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-emerald-900/20'
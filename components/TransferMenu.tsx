@@ -0,0 +1,63 @@
+import React, { useState, useRef } from 'react';
+import { ExportKind, ImportMode } from '../types';
+import { EXPORT_KIND_LABELS } from '../constants';
+import { Download, Upload } from 'lucide-react';
+
+interface TransferMenuProps {
+  onExport: (kind: ExportKind) => void;
+  onImport: (text: string, mode: ImportMode) => void;
+}
+
+const TransferMenu: React.FC<TransferMenuProps> = ({ onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('MERGE');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const pickFile = (importMode: ImportMode) => {
+    setMode(importMode);
+    setIsOpen(false);
+    fileRef.current?.click();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (mode === 'REPLACE' && !window.confirm("Replace this account with the backup? Current positions and orders are discarded.")) return;
+    onImport(await file.text(), mode);
+  };
+
+  const itemClass = 'w-full text-left px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-700';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 hover:text-white focus:outline-none focus:ring-1 focus:ring-slate-600"
+        title="Export / import"
+      >
+        <Download size={14} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-48 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 py-1">
+          <div className="px-3 py-1 text-[10px] uppercase tracking-wider text-slate-500">Export</div>
+          {(Object.keys(EXPORT_KIND_LABELS) as ExportKind[]).map(kind => (
+            <button key={kind} className={itemClass} onClick={() => { setIsOpen(false); onExport(kind); }}>
+              {EXPORT_KIND_LABELS[kind]}
+            </button>
+          ))}
+          <div className="px-3 py-1 mt-1 border-t border-slate-700 text-[10px] uppercase tracking-wider text-slate-500">Import backup</div>
+          <button className={`${itemClass} flex items-center gap-2`} onClick={() => pickFile('MERGE')}>
+            <Upload size={12} /> Merge into account
+          </button>
+          <button className={`${itemClass} flex items-center gap-2`} onClick={() => pickFile('REPLACE')}>
+            <Upload size={12} /> Replace account
+          </button>
+        </div>
+      )}
+      <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
+
+export default TransferMenu;
@@ -1,26 +1,214 @@
-import { Asset } from './types';
-
-export const INITIAL_ASSETS: Omit<Asset, 'current_price' | 'history' | 'change24h'>[] = [
-  { id: 'TOM', name: 'Tomato', icon: '🍅', initial_price: 10.50 },
-  { id: 'CAR', name: 'Carrot', icon: '🥕', initial_price: 45.20 },
-  { id: 'BRO', name: 'Broccoli', icon: '🥦', initial_price: 7.80 },
-  { id: 'POT', name: 'Potato', icon: '🥔', initial_price: 22.00 },
-  { id: 'PEP', name: 'Pepper', icon: '🌶️', initial_price: 31.90 },
+import { AssetListing, Holding, PriceModelConfig, OrderType, TimeInForce, FeeSchedule, CostBasisMethod, AccountType, MarginConfig, SyncStatus, EquityRange, ChartView, ExportKind, CandleInterval, IndicatorKind, IndicatorConfig, AlertKind, NotificationCategory, AssetSort, MarketEventKind, MarketEventScope } from './types';
+
+// Roughly matches the old ±2% uniform random walk
+export const DEFAULT_PRICE_MODEL: PriceModelConfig = { kind: 'GBM', drift: 0, volatility: 0.0115 };
+
+// Used until a catalog is stored (see PortfolioStore.subscribeCatalog)
+export const DEFAULT_ASSET_CATALOG: AssetListing[] = [
+  { id: 'TOM', name: 'Tomato', icon: '🍅', initial_price: 10.50, category: 'Fruiting', tickSize: 0.01, lotSize: 1, status: 'TRADING',
+    priceModel: { kind: 'GBM', drift: 0.0001, volatility: 0.012 } },
+  { id: 'CAR', name: 'Carrot', icon: '🥕', initial_price: 45.20, category: 'Root', tickSize: 0.01, lotSize: 1, status: 'TRADING',
+    priceModel: { kind: 'MEAN_REVERTING', mean: 45.20, reversionSpeed: 0.05, volatility: 0.008 } },
+  { id: 'BRO', name: 'Broccoli', icon: '🥦', initial_price: 7.80, category: 'Brassica', tickSize: 0.01, lotSize: 1, status: 'TRADING',
+    priceModel: { kind: 'JUMP_DIFFUSION', drift: 0, volatility: 0.01, jumpProbability: 0.02, jumpMean: 0, jumpStdDev: 0.06 } },
+  { id: 'POT', name: 'Potato', icon: '🥔', initial_price: 22.00, category: 'Root', tickSize: 0.01, lotSize: 1, status: 'TRADING',
+    priceModel: { kind: 'GBM', drift: 0, volatility: 0.006 } },
+  { id: 'PEP', name: 'Pepper', icon: '🌶️', initial_price: 31.90, category: 'Fruiting', tickSize: 0.01, lotSize: 1, status: 'TRADING',
+    priceModel: {
+      kind: 'REGIME_SWITCHING',
+      regimes: [{ drift: 0, volatility: 0.008 }, { drift: 0.002, volatility: 0.025 }, { drift: -0.002, volatility: 0.025 }],
+      switchProbability: 0.03
+    } },
 ];
 
 export const SIMULATION_INTERVAL_MS = 1500;
+export const SIMULATION_SEED = 20240601; // Override with window.__simulation_seed to replay a run
 export const HISTORY_POINTS = 50; // Increased for better SMA calculation
+
+// `impact` is the range the price shock is drawn from. Kinds with `everyMs`
+// come around on that schedule; the rest break at random, each tick with
+// MARKET_EVENT_PROBABILITY. `{assets}` in a headline names what was hit.
+export const MARKET_EVENT_DEFINITIONS: Record<MarketEventKind, {
+  label: string;
+  scope: MarketEventScope;
+  impact: [number, number];
+  halfLifeMs: number;
+  volatilityMultiplier: number;
+  volumeMultiplier: number;
+  headline: string;
+  everyMs?: number;
+}> = {
+  DROUGHT: { label: 'Drought', scope: 'CATEGORY', impact: [0.05, 0.12], halfLifeMs: 10 * 60 * 1000, volatilityMultiplier: 1.8, volumeMultiplier: 2, headline: 'Drought withers {assets} crops' },
+  BUMPER_HARVEST: { label: 'Bumper harvest', scope: 'CATEGORY', impact: [-0.1, -0.04], halfLifeMs: 15 * 60 * 1000, volatilityMultiplier: 1.3, volumeMultiplier: 2.5, headline: 'Bumper harvest floods the market with {assets}' },
+  FROST: { label: 'Frost', scope: 'ASSET', impact: [0.06, 0.15], halfLifeMs: 5 * 60 * 1000, volatilityMultiplier: 2, volumeMultiplier: 1.8, headline: 'Late frost damages {assets} fields' },
+  EXPORT_BAN: { label: 'Export ban', scope: 'ASSET', impact: [-0.18, -0.08], halfLifeMs: 20 * 60 * 1000, volatilityMultiplier: 1.5, volumeMultiplier: 3, headline: 'Export ban strands {assets} in warehouses' },
+  SEASONAL_DEMAND: { label: 'Seasonal demand', scope: 'CATEGORY', impact: [0.02, 0.05], halfLifeMs: 30 * 60 * 1000, volatilityMultiplier: 1.1, volumeMultiplier: 1.5, headline: 'Seasonal demand lifts {assets}', everyMs: 30 * 60 * 1000 },
+};
+export const MARKET_EVENT_PROBABILITY = 0.002; // Per kind and tick, so each breaks every ~12 minutes
+export const MAX_MARKET_EVENTS = 50; // Kept for the news feed, newest first
+
+export const ORDER_BOOK_LEVELS = 10;
+export const ORDER_BOOK_HALF_SPREAD = 0.001; // 0.1% either side of the mid price
+export const ORDER_BOOK_LEVEL_STEP = 0.0025; // 0.25% between levels
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  MARKET: 'Market',
+  LIMIT: 'Limit',
+  STOP_MARKET: 'Stop',
+  STOP_LIMIT: 'Stop-limit',
+  TAKE_PROFIT: 'Take-profit',
+  TRAILING_STOP: 'Trailing stop',
+};
+
+export const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  GTC: 'Good til cancelled',
+  DAY: 'Day',
+  GTD: 'Good til date',
+  IOC: 'Immediate or cancel',
+  FOK: 'Fill or kill',
+};
+
+export const STOP_MARKET_COLLAR = 0.05; // Cash escrowed above the trigger for BUY stops that turn into market orders
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  FIFO: 'FIFO',
+  LIFO: 'LIFO',
+  AVERAGE: 'Average cost',
+  SPECIFIC: 'Specific lot',
+};
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  makerRate: 0.001,
+  takerRate: 0.002,
+  minimumFee: 0.50,
+  tiers: [
+    { minVolume: 10000, makerRate: 0.0008, takerRate: 0.0015 },
+    { minVolume: 50000, makerRate: 0.0005, takerRate: 0.001 },
+  ],
+  overrides: {
+    'PEP': { takerRate: 0.003 }, // Thin, jumpy market
+  },
+};
+export const FEE_VOLUME_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // Trailing volume that decides the fee tier
+
+export const DEFAULT_MARGIN_CONFIG: MarginConfig = {
+  initialMargin: 0.5, // 2x leverage
+  maintenanceMargin: 0.25,
+  interestRatePerTick: 0.000002,
+};
+export const MARGIN_INTEREST_POSTING_MS = 60 * 1000; // Interest accrues every tick but is charged to the account this often
+
+export const CANDLE_BASE_MS = 60 * 1000; // Ticks are kept as 1m candles; longer intervals are built from them
+export const MAX_CANDLES = 3 * 24 * 60; // Three days of 1m candles per asset
+export const VISIBLE_CANDLES = 60; // Shown when the chart opens or the interval changes
+
+export const CANDLE_INTERVALS: Record<CandleInterval, { label: string; ms: number }> = {
+  '1m': { label: '1m', ms: 60 * 1000 },
+  '5m': { label: '5m', ms: 5 * 60 * 1000 },
+  '15m': { label: '15m', ms: 15 * 60 * 1000 },
+  '1h': { label: '1h', ms: 60 * 60 * 1000 },
+};
+
+// `pane`: PRICE draws over the candles, OSCILLATOR gets its own pane below
+export const INDICATOR_DEFINITIONS: Record<IndicatorKind, { label: string; pane: 'PRICE' | 'OSCILLATOR'; period: number; color: string }> = {
+  SMA: { label: 'SMA', pane: 'PRICE', period: 20, color: '#818cf8' },
+  EMA: { label: 'EMA', pane: 'PRICE', period: 20, color: '#f472b6' },
+  VWAP: { label: 'VWAP', pane: 'PRICE', period: 30, color: '#facc15' },
+  BOLLINGER: { label: 'Bollinger Bands', pane: 'PRICE', period: 20, color: '#38bdf8' },
+  RSI: { label: 'RSI', pane: 'OSCILLATOR', period: 14, color: '#c084fc' },
+  MACD: { label: 'MACD', pane: 'OSCILLATOR', period: 9, color: '#fb923c' },
+  ATR: { label: 'ATR', pane: 'OSCILLATOR', period: 14, color: '#2dd4bf' },
+};
+export const BOLLINGER_STD_DEVS = 2;
+export const MACD_FAST_PERIOD = 12;
+export const MACD_SLOW_PERIOD = 26;
+
+export const DEFAULT_INDICATORS: IndicatorConfig[] = [
+  { id: 'default-sma', kind: 'SMA', period: 5, color: '#818cf8' },
+];
+
+export const CHART_VIEW_LABELS: Record<ChartView, string> = {
+  MARKET: 'Market',
+  EQUITY: 'Equity',
+  ANALYTICS: 'Analytics',
+};
+
+export const EQUITY_RANGES: Record<EquityRange, { label: string; ms: number }> = {
+  '1H': { label: '1H', ms: 60 * 60 * 1000 },
+  '1D': { label: '1D', ms: 24 * 60 * 60 * 1000 },
+  '1W': { label: '1W', ms: 7 * 24 * 60 * 60 * 1000 },
+  'ALL': { label: 'All', ms: Infinity },
+};
+
+export const EQUITY_SNAPSHOT_INTERVAL_MS = 60 * 1000;
+export const MAX_EQUITY_SNAPSHOTS = 500; // Older half is thinned out beyond this
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  PRICE: 'Price crosses',
+  PERCENT_MOVE: 'Moves by %',
+  SMA_CROSS: 'Crosses SMA',
+};
+export const DEFAULT_ALERT_SMA_PERIOD = 20;
+export const DEFAULT_ALERT_WINDOW_MS = 15 * 60 * 1000;
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  FILL: 'Fills',
+  ALERT: 'Price alerts',
+  REJECTION: 'Rejections',
+  SYSTEM: 'System',
+};
+export const MAX_NOTIFICATIONS = 200;
+
+export const ASSET_SORT_LABELS: Record<AssetSort, string> = {
+  DEFAULT: 'Default order',
+  PRICE: 'Price',
+  CHANGE: '% change',
+  VOLUME: 'Volume (24h)',
+  VALUE: 'Owned value',
+};
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  SYNCED: 'Saved',
+  SAVING: 'Saving…',
+  RETRYING: 'Retrying…',
+  CONFLICT: 'Not saved: changed elsewhere',
+  ERROR: 'Save failed',
+};
+
+export const MAX_COMMIT_ATTEMPTS = 5;
+export const COMMIT_RETRY_DELAY_MS = 100; // Grows linearly with each attempt
+
+export const HISTORY_PAGE_SIZE = 20;
+export const HISTORY_WRITE_BATCH_SIZE = 500; // Firestore's cap on writes in one batch or transaction
+export const PORTFOLIO_EXPORT_VERSION = 1; // Bump when the JSON backup format changes
+
+export const EXPORT_KIND_LABELS: Record<ExportKind, string> = {
+  HOLDINGS_CSV: 'Holdings (CSV)',
+  ORDERS_CSV: 'Open orders (CSV)',
+  TRADES_CSV: 'Trades (CSV)',
+  JSON: 'Full backup (JSON)',
+};
+
 export const INITIAL_CASH = 10000.00;
 
 export const DEFAULT_PORTFOLIO_DATA = {
   cashBalance: INITIAL_CASH,
-  holdings: {
-    'TOM': { quantity: 0, avgCost: 0 },
-    'CAR': { quantity: 0, avgCost: 0 },
-    'BRO': { quantity: 0, avgCost: 0 },
-    'POT': { quantity: 0, avgCost: 0 },
-    'PEP': { quantity: 0, avgCost: 0 },
-  },
+  holdings: {} as Record<string, Holding>, // Created on an asset's first trade
   transactions: [],
-  openOrders: []
-};
\ No newline at end of file
+  openOrders: [],
+  closedOrders: [],
+  costBasisMethod: 'FIFO' as CostBasisMethod,
+  accountType: 'CASH' as AccountType,
+  interestPaid: 0,
+  feesPaid: 0,
+  volumeByDay: {},
+  indicators: DEFAULT_INDICATORS,
+  alerts: [],
+  notifications: [],
+  toastCategories: { FILL: true, ALERT: true, REJECTION: true, SYSTEM: true },
+  watchlists: [],
+  equityHistory: [],
+  fundingEvents: [],
+  lastHistoryId: null,
+  version: 0
+};
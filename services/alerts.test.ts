@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { Asset, Candle, EngineContext, Portfolio, PriceAlert, PriceAlertRequest } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_MARGIN_CONFIG } from '../constants';
+import { describeAlert, evaluateAlerts, addAlert, removeAlert, setAlertActive } from './alerts';
+
+const NOW = 1_700_000_000_000;
+
+const ctx = (now = NOW): EngineContext => ({
+  now,
+  generateId: () => 'alert-1',
+  feeSchedule: { makerRate: 0, takerRate: 0, minimumFee: 0 },
+  margin: DEFAULT_MARGIN_CONFIG
+});
+
+// Ticks 1.5s apart, the last one at NOW
+const tomato = (prices: number[], candles: Candle[] = []): Asset => ({
+  id: 'TOM',
+  name: 'Tomato',
+  icon: '🍅',
+  initial_price: prices[0],
+  category: 'Fruiting',
+  tickSize: 0.01,
+  lotSize: 1,
+  status: 'TRADING',
+  current_price: prices[prices.length - 1],
+  history: prices.map((price, i) => ({ time: NOW - (prices.length - 1 - i) * 1500, price, volume: 1 })),
+  candles,
+  change24h: 0
+});
+
+const closes = (...values: number[]): Candle[] =>
+  values.map((close, i) => ({ time: NOW - (values.length - i) * 60_000, open: close, high: close, low: close, close, volume: 1 }));
+
+const alertOf = (fields: Partial<PriceAlert> = {}): PriceAlert => ({
+  id: 'a1',
+  assetId: 'TOM',
+  kind: 'PRICE',
+  direction: 'ABOVE',
+  value: 12,
+  repeat: false,
+  active: true,
+  createdAt: NOW - 10_000,
+  triggerCount: 0,
+  ...fields
+});
+
+const withAlerts = (...alerts: PriceAlert[]): Portfolio => ({ ...DEFAULT_PORTFOLIO_DATA, alerts });
+
+describe('evaluateAlerts', () => {
+  it('fires a price alert on the tick that crosses the level', () => {
+    const { portfolio, events } = evaluateAlerts(withAlerts(alertOf()), [tomato([11, 12.5])], ctx());
+    const fired = { ...alertOf(), active: false, lastTriggeredAt: NOW, triggerCount: 1 };
+
+    expect(portfolio.alerts).toEqual([fired]);
+    expect(events).toEqual([
+      { kind: 'ALERT_TRIGGERED', alert: fired, price: 12.5 },
+      { kind: 'NOTIFICATION', message: 'Tomato alert: crosses above $12.00 (now $12.50)', level: 'info', category: 'ALERT' }
+    ]);
+  });
+
+  it('waits for the condition to clear before firing again', () => {
+    const start = withAlerts(alertOf({ repeat: true }));
+    const result = evaluateAlerts(start, [tomato([12.5, 13])], ctx());
+
+    expect(result.portfolio).toBe(start);
+    expect(result.events).toEqual([]);
+  });
+
+  it('keeps a repeating alert armed', () => {
+    const { portfolio } = evaluateAlerts(withAlerts(alertOf({ repeat: true, direction: 'BELOW', value: 9 })), [tomato([9.5, 8.9])], ctx());
+
+    expect(portfolio.alerts[0]).toMatchObject({ active: true, triggerCount: 1 });
+  });
+
+  it('skips paused alerts', () => {
+    const start = withAlerts(alertOf({ active: false }));
+
+    expect(evaluateAlerts(start, [tomato([11, 12.5])], ctx()).portfolio).toBe(start);
+  });
+
+  it('measures a percent move over its window', () => {
+    const alert = alertOf({ kind: 'PERCENT_MOVE', value: 5, windowMs: 3000 });
+    const { events } = evaluateAlerts(withAlerts(alert), [tomato([10, 10, 10.2, 10.6])], ctx());
+
+    expect(events[0]).toMatchObject({ kind: 'ALERT_TRIGGERED', price: 10.6 });
+  });
+
+  it('looks back through the candles when the ticks are too recent', () => {
+    const alert = alertOf({ kind: 'PERCENT_MOVE', value: 5, windowMs: 60_000 });
+    const { events } = evaluateAlerts(withAlerts(alert), [tomato([10.2, 10.6], closes(10, 10))], ctx());
+
+    expect(events).toHaveLength(2);
+  });
+
+  it('crosses the SMA of finished candles only', () => {
+    const alert = alertOf({ kind: 'SMA_CROSS', value: 3 });
+    // The forming 99 candle is left out, so the SMA is 10
+    const fired = evaluateAlerts(withAlerts(alert), [tomato([9.9, 10.1], closes(10, 10, 10, 99))], ctx());
+    const warmingUp = evaluateAlerts(withAlerts(alert), [tomato([9.9, 10.1], closes(10, 10, 99))], ctx());
+
+    expect(fired.events).toHaveLength(2);
+    expect(warmingUp.events).toEqual([]);
+  });
+});
+
+describe('managing alerts', () => {
+  const request = (fields: Partial<PriceAlertRequest> = {}): PriceAlertRequest => ({
+    assetId: 'TOM',
+    kind: 'PRICE',
+    direction: 'ABOVE',
+    value: 12,
+    repeat: false,
+    ...fields
+  });
+
+  it('adds an armed alert', () => {
+    const { portfolio, events } = addAlert(withAlerts(), request({ windowMs: 60_000 }), ctx());
+
+    expect(portfolio.alerts).toEqual([alertOf({ createdAt: NOW, id: 'alert-1' })]);
+    expect(events).toEqual([{ kind: 'NOTIFICATION', message: 'Alert set: Crosses above $12.00', level: 'success' }]);
+  });
+
+  it.each([
+    ['a zero value', request({ value: 0 }), "Enter a valid alert value"],
+    ['a fractional SMA period', request({ kind: 'SMA_CROSS', value: 2.5 }), "SMA period must be a whole number of candles"],
+    ['a move without a window', request({ kind: 'PERCENT_MOVE', value: 5 }), "Pick a window for the move"]
+  ])('rejects %s', (_, alertRequest, reason) => {
+    const start = withAlerts();
+    const result = addAlert(start, alertRequest, ctx());
+
+    expect(result.portfolio).toBe(start);
+    expect(result.events[0]).toEqual({ kind: 'REJECTED', reason });
+  });
+
+  it('describes each kind of alert', () => {
+    expect(describeAlert(alertOf({ kind: 'PERCENT_MOVE', direction: 'BELOW', value: 3, windowMs: 15 * 60_000 }))).toBe('Falls 3% within 15m');
+    expect(describeAlert(alertOf({ kind: 'PERCENT_MOVE', value: 3, windowMs: 60 * 60_000 }))).toBe('Rises 3% within 1h');
+    expect(describeAlert(alertOf({ kind: 'SMA_CROSS', direction: 'BELOW', value: 20 }))).toBe('Crosses below SMA (20)');
+  });
+
+  it('pauses, resumes and removes alerts', () => {
+    const paused = setAlertActive(withAlerts(alertOf()), 'a1', false).portfolio;
+    expect(paused.alerts[0].active).toBe(false);
+    expect(setAlertActive(paused, 'a1', true).portfolio.alerts[0].active).toBe(true);
+    expect(removeAlert(paused, 'a1').portfolio.alerts).toEqual([]);
+  });
+});
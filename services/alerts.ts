@@ -0,0 +1,147 @@
+import { Asset, Portfolio, PriceAlert, PriceAlertRequest, EngineContext, EngineEvent, EngineResult } from '../types';
+import { CANDLE_BASE_MS } from '../constants';
+import { reject } from './tradingEngine';
+
+const formatWindow = (ms: number) => ms >= 60 * 60 * 1000 ? `${ms / (60 * 60 * 1000)}h` : `${ms / CANDLE_BASE_MS}m`;
+
+/**
+ * The alert's condition in words, e.g. "Crosses above $12.00".
+ */
+export const describeAlert = (alert: PriceAlert): string => {
+  const up = alert.direction === 'ABOVE';
+  switch (alert.kind) {
+    case 'PRICE':
+      return `Crosses ${up ? 'above' : 'below'} $${alert.value.toFixed(2)}`;
+    case 'PERCENT_MOVE':
+      return `${up ? 'Rises' : 'Falls'} ${alert.value}% within ${formatWindow(alert.windowMs || 0)}`;
+    case 'SMA_CROSS':
+      return `Crosses ${up ? 'above' : 'below'} SMA (${alert.value})`;
+  }
+};
+
+// Last known price at `time`: from the recent ticks where they reach back
+// that far, otherwise the close of the 1m candle it falls in
+const priceAt = (asset: Asset, time: number): number | null => {
+  if (asset.history.length > 0 && asset.history[0].time <= time) {
+    for (let i = asset.history.length - 1; i >= 0; i--) {
+      if (asset.history[i].time <= time) return asset.history[i].price;
+    }
+  }
+  for (let i = asset.candles.length - 1; i >= 0; i--) {
+    if (asset.candles[i].time <= time) return asset.candles[i].close;
+  }
+  return null;
+};
+
+// SMA of the last `period` finished 1m candles, so it holds still while the
+// current candle forms
+const completedSma = (asset: Asset, period: number): number | null => {
+  const closes = asset.candles.slice(0, -1).slice(-period).map(c => c.close);
+  if (closes.length < period) return null;
+  return closes.reduce((sum, close) => sum + close, 0) / period;
+};
+
+// Whether the condition holds at a price and time. Alerts fire on the tick it
+// starts to hold, so a repeating alert waits for the condition to clear
+// before it can fire again.
+const conditionMet = (alert: PriceAlert, asset: Asset, price: number, time: number, sma: number | null): boolean | null => {
+  const up = alert.direction === 'ABOVE';
+  switch (alert.kind) {
+    case 'PRICE':
+      return up ? price >= alert.value : price <= alert.value;
+    case 'PERCENT_MOVE': {
+      const base = priceAt(asset, time - (alert.windowMs || 0));
+      if (!base) return null;
+      const change = ((price - base) / base) * 100;
+      return up ? change >= alert.value : change <= -alert.value;
+    }
+    case 'SMA_CROSS':
+      if (sma === null) return null;
+      return up ? price > sma : price < sma;
+  }
+};
+
+/**
+ * Checks every active alert against the tick that just happened. Fired
+ * alerts are stamped, and one-shot alerts switched off; when none fire the
+ * portfolio comes back untouched.
+ */
+export const evaluateAlerts = (portfolio: Portfolio, assets: Asset[], ctx: EngineContext): EngineResult => {
+  const events: EngineEvent[] = [];
+
+  const alerts = (portfolio.alerts || []).map(alert => {
+    if (!alert.active) return alert;
+    const asset = assets.find(a => a.id === alert.assetId);
+    if (!asset || asset.history.length < 2) return alert;
+
+    const previous = asset.history[asset.history.length - 2];
+    const sma = alert.kind === 'SMA_CROSS' ? completedSma(asset, alert.value) : null;
+    const now = conditionMet(alert, asset, asset.current_price, ctx.now, sma);
+    const before = conditionMet(alert, asset, previous.price, previous.time, sma);
+    if (!now || before !== false) return alert;
+
+    const fired: PriceAlert = {
+      ...alert,
+      active: alert.repeat,
+      lastTriggeredAt: ctx.now,
+      triggerCount: alert.triggerCount + 1
+    };
+    events.push(
+      { kind: 'ALERT_TRIGGERED', alert: fired, price: asset.current_price },
+      {
+        kind: 'NOTIFICATION',
+        message: `${asset.name} alert: ${describeAlert(alert).toLowerCase()} (now $${asset.current_price.toFixed(2)})`,
+        level: 'info',
+        category: 'ALERT'
+      }
+    );
+    return fired;
+  });
+
+  if (events.length === 0) return { portfolio, events };
+  return { portfolio: { ...portfolio, alerts }, events };
+};
+
+/**
+ * Adds an alert, armed from the next tick.
+ */
+export const addAlert = (portfolio: Portfolio, request: PriceAlertRequest, ctx: EngineContext): EngineResult => {
+  let error: string | null = null;
+  if (!(request.value > 0)) error = "Enter a valid alert value";
+  else if (request.kind === 'SMA_CROSS' && !Number.isInteger(request.value)) error = "SMA period must be a whole number of candles";
+  else if (request.kind === 'PERCENT_MOVE' && !((request.windowMs || 0) > 0)) error = "Pick a window for the move";
+  if (error) return reject(portfolio, error);
+
+  const alert: PriceAlert = {
+    id: ctx.generateId(),
+    assetId: request.assetId,
+    kind: request.kind,
+    direction: request.direction,
+    value: request.value,
+    repeat: request.repeat,
+    active: true,
+    createdAt: ctx.now,
+    triggerCount: 0
+  };
+  if (request.kind === 'PERCENT_MOVE') alert.windowMs = request.windowMs;
+
+  return {
+    portfolio: { ...portfolio, alerts: [...(portfolio.alerts || []), alert] },
+    events: [{ kind: 'NOTIFICATION', message: `Alert set: ${describeAlert(alert)}`, level: 'success' }]
+  };
+};
+
+export const removeAlert = (portfolio: Portfolio, alertId: string): EngineResult => ({
+  portfolio: { ...portfolio, alerts: (portfolio.alerts || []).filter(a => a.id !== alertId) },
+  events: []
+});
+
+// Pausing keeps the alert and its trigger count; resuming re-arms a fired
+// one-shot alert
+export const setAlertActive = (portfolio: Portfolio, alertId: string, active: boolean): EngineResult => ({
+  portfolio: {
+    ...portfolio,
+    alerts: (portfolio.alerts || []).map(a => a.id === alertId ? { ...a, active } : a)
+  },
+  events: []
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { Asset, EquitySnapshot, FundingEvent, Holding, Portfolio, Transaction } from '../types';
+import { DEFAULT_PORTFOLIO_DATA } from '../constants';
+import { periodReturns, computeAnalytics } from './analytics';
+
+const asset = (id: string, current_price: number): Asset => ({
+  id,
+  name: id,
+  icon: '',
+  initial_price: current_price,
+  category: 'Vegetable',
+  tickSize: 0.01,
+  lotSize: 1,
+  status: 'TRADING',
+  current_price,
+  history: [],
+  candles: [],
+  change24h: 0
+});
+
+const snapshot = (time: number, netWorth: number, positions: Record<string, number> = {}): EquitySnapshot => ({
+  time,
+  netWorth,
+  cash: netWorth,
+  holdingsValue: 0,
+  positions
+});
+
+const funding = (time: number, kind: FundingEvent['kind'], amount: number): FundingEvent => ({ id: `f${time}`, time, kind, amount });
+
+const sellFill = (assetId: string, timestamp: number, realizedPnl?: number, fee = 0): Transaction => ({
+  id: `t${timestamp}`,
+  type: 'SELL',
+  assetId,
+  assetName: assetId,
+  quantity: 1,
+  price: 10,
+  timestamp,
+  orderType: 'MARKET',
+  fee,
+  realizedPnl
+});
+
+const holding = (quantity: number, unitCost: number): Holding => ({
+  quantity,
+  avgCost: unitCost,
+  lots: [{ id: 'lot', quantity, unitCost, acquiredAt: 0 }],
+  realizedPnl: 0
+});
+
+const account = (overrides: Partial<Portfolio> = {}): Portfolio => ({ ...DEFAULT_PORTFOLIO_DATA, holdings: {}, ...overrides });
+
+describe('periodReturns', () => {
+  it('returns the change between consecutive snapshots', () => {
+    const returns = periodReturns([snapshot(1, 100), snapshot(2, 110), snapshot(3, 99)], []);
+
+    expect(returns[0]).toBeCloseTo(0.1);
+    expect(returns[1]).toBeCloseTo(-0.1);
+  });
+
+  it('takes deposits out of the interval they landed in', () => {
+    expect(periodReturns([snapshot(1, 100), snapshot(3, 160)], [funding(2, 'DEPOSIT', 50)])[0]).toBeCloseTo(0.1);
+  });
+
+  it('skips intervals across a reset or starting from nothing', () => {
+    const snapshots = [snapshot(1, 0), snapshot(2, 100), snapshot(4, 500), snapshot(5, 550)];
+
+    expect(periodReturns(snapshots, [funding(3, 'RESET', 500)])).toEqual([0.1]);
+  });
+});
+
+describe('computeAnalytics', () => {
+  const fills = [sellFill('TOM', 10, 30, 1), sellFill('TOM', 20, -10), sellFill('CAR', 30, 20), sellFill('CAR', 40)];
+  const assets = [asset('TOM', 12), asset('CAR', 5)];
+
+  it('summarises closing trades', () => {
+    const result = computeAnalytics(fills, account(), assets, 0);
+
+    expect(result.closingTrades).toBe(3);
+    expect(result.winRate).toBeCloseTo(2 / 3);
+    expect(result.averageWin).toBe(25);
+    expect(result.averageLoss).toBe(-10);
+    expect(result.profitFactor).toBe(5);
+  });
+
+  it('narrows trade figures to the range and asset', () => {
+    const result = computeAnalytics(fills, account(), assets, 15, 'TOM');
+
+    expect(result.closingTrades).toBe(1);
+    expect(result.profitFactor).toBe(0);
+    expect(result.attribution).toEqual([{ assetId: 'TOM', realizedPnl: -10, unrealizedPnl: 0, fees: 0 }]);
+  });
+
+  it('compounds the total return and finds the drawdown', () => {
+    const equityHistory = [snapshot(1, 100), snapshot(2, 120), snapshot(3, 90), snapshot(4, 99)];
+    const result = computeAnalytics([], account({ equityHistory }), assets, 0);
+
+    expect(result.totalReturn).toBeCloseTo(-0.01);
+    expect(result.maxDrawdown).toBeCloseTo(0.25);
+    expect(result.sharpe).not.toBeNull();
+    expect(result.sortino).not.toBeNull();
+  });
+
+  it('has no ratios without enough data', () => {
+    const result = computeAnalytics([], account({ equityHistory: [snapshot(1, 100)] }), assets, 0);
+
+    expect(result).toMatchObject({ totalReturn: null, winRate: null, sharpe: null, sortino: null, maxDrawdown: 0 });
+  });
+
+  it('reports exposure as a fraction of net worth', () => {
+    const equityHistory = [snapshot(1, 200, { TOM: 150, CAR: -50 })];
+    const [point] = computeAnalytics([], account({ equityHistory }), assets, 0).exposure;
+
+    expect(point).toEqual({ time: 1, gross: 1, net: 0.5 });
+  });
+
+  it('attributes realized, unrealized and fees by asset, largest first', () => {
+    const portfolio = account({ holdings: { TOM: holding(10, 10), CAR: holding(0, 0) } });
+    const result = computeAnalytics(fills, portfolio, assets, 0);
+
+    expect(result.attribution).toEqual([
+      { assetId: 'TOM', realizedPnl: 20, unrealizedPnl: 20, fees: 1 },
+      { assetId: 'CAR', realizedPnl: 20, unrealizedPnl: 0, fees: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  Asset,
+  Portfolio,
+  Transaction,
+  EquitySnapshot,
+  FundingEvent,
+  AssetAttribution,
+  PerformanceAnalytics
+} from '../types';
+import { lotsQuantity, lotsCost } from './taxLots';
+
+/**
+ * Return of each interval between consecutive snapshots, with deposits made
+ * inside it taken out. Intervals that span a reset, or start from nothing,
+ * carry no return and are skipped.
+ */
+export const periodReturns = (snapshots: EquitySnapshot[], fundingEvents: FundingEvent[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const start = snapshots[i - 1];
+    const end = snapshots[i];
+    const flows = fundingEvents.filter(e => e.time > start.time && e.time <= end.time);
+    if (start.netWorth <= 0 || flows.some(e => e.kind === 'RESET')) continue;
+    const deposited = flows.reduce((sum, e) => sum + e.amount, 0);
+    returns.push((end.netWorth - start.netWorth - deposited) / start.netWorth);
+  }
+  return returns;
+};
+
+// Largest fall from a peak of the compounded return index
+const maxDrawdownOf = (returns: number[]) => {
+  let index = 1;
+  let peak = 1;
+  let worst = 0;
+  returns.forEach(r => {
+    index *= 1 + r;
+    peak = Math.max(peak, index);
+    worst = Math.max(worst, (peak - index) / peak);
+  });
+  return worst;
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const sharpeOf = (returns: number[]) => {
+  if (returns.length < 2) return null;
+  const avg = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - avg) ** 2, 0) / (returns.length - 1);
+  return variance > 0 ? avg / Math.sqrt(variance) : null;
+};
+
+// Like Sharpe, but only returns below zero count as risk
+const sortinoOf = (returns: number[]) => {
+  if (returns.length < 2) return null;
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)));
+  return downside > 0 ? mean(returns) / downside : null;
+};
+
+const attributionOf = (
+  fills: Transaction[],
+  portfolio: Portfolio,
+  assets: Asset[],
+  assetId?: string
+): AssetAttribution[] => {
+  const byAsset = new Map<string, AssetAttribution>();
+  const entryFor = (id: string) => {
+    const entry = byAsset.get(id) || { assetId: id, realizedPnl: 0, unrealizedPnl: 0, fees: 0 };
+    byAsset.set(id, entry);
+    return entry;
+  };
+
+  fills.forEach(tx => {
+    const entry = entryFor(tx.assetId);
+    entry.realizedPnl += tx.realizedPnl || 0;
+    entry.fees += tx.fee || 0;
+  });
+  Object.entries(portfolio.holdings).forEach(([id, holding]) => {
+    const lots = holding.lots || [];
+    if ((assetId && id !== assetId) || lotsQuantity(lots) === 0) return;
+    const price = assets.find(a => a.id === id)?.current_price || 0;
+    entryFor(id).unrealizedPnl = lotsQuantity(lots) * price - lotsCost(lots);
+  });
+
+  return [...byAsset.values()].sort((a, b) =>
+    Math.abs(b.realizedPnl + b.unrealizedPnl) - Math.abs(a.realizedPnl + a.unrealizedPnl)
+  );
+};
+
+/**
+ * Performance since `from`, optionally for one asset. The asset narrows the
+ * trade figures, exposure and attribution; return, drawdown and the ratios
+ * always describe the whole account, since cash can't be split by asset.
+ */
+export const computeAnalytics = (
+  fills: Transaction[],
+  portfolio: Portfolio,
+  assets: Asset[],
+  from: number,
+  assetId?: string
+): PerformanceAnalytics => {
+  const inRange = fills.filter(tx => tx.timestamp >= from && (!assetId || tx.assetId === assetId));
+  const closing = inRange.filter(tx => tx.realizedPnl !== undefined).map(tx => tx.realizedPnl as number);
+  const wins = closing.filter(pnl => pnl > 0);
+  const losses = closing.filter(pnl => pnl < 0);
+  const grossWin = wins.reduce((sum, pnl) => sum + pnl, 0);
+  const grossLoss = -losses.reduce((sum, pnl) => sum + pnl, 0);
+
+  const snapshots = (portfolio.equityHistory || []).filter(s => s.time >= from);
+  const returns = periodReturns(snapshots, portfolio.fundingEvents || []);
+
+  return {
+    totalReturn: returns.length ? returns.reduce((index, r) => index * (1 + r), 1) - 1 : null,
+    closingTrades: closing.length,
+    winRate: closing.length ? wins.length / closing.length : null,
+    averageWin: wins.length ? grossWin / wins.length : null,
+    averageLoss: losses.length ? -grossLoss / losses.length : null,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+    maxDrawdown: maxDrawdownOf(returns),
+    sharpe: sharpeOf(returns),
+    sortino: sortinoOf(returns),
+    exposure: snapshots.map(s => {
+      const values = Object.entries(s.positions)
+        .filter(([id]) => !assetId || id === assetId)
+        .map(([, value]) => value);
+      const worth = s.netWorth > 0 ? s.netWorth : 1;
+      return {
+        time: s.time,
+        gross: values.reduce((sum, v) => sum + Math.abs(v), 0) / worth,
+        net: values.reduce((sum, v) => sum + v, 0) / worth
+      };
+    }),
+    attribution: attributionOf(inRange, portfolio, assets, assetId)
+  };
+};
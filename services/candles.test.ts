@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Candle } from '../types';
+import { CANDLE_BASE_MS, MAX_CANDLES } from '../constants';
+import { bucketStart, addTick, aggregateCandles } from './candles';
+
+// Start of an hour, so it opens a candle of every interval
+const T0 = 1_699_999_200_000;
+
+const candle = (time: number, open: number, high: number, low: number, close: number, volume: number): Candle =>
+  ({ time, open, high, low, close, volume });
+
+describe('bucketStart', () => {
+  it('places a time in the interval that contains it', () => {
+    expect(bucketStart(T0 + CANDLE_BASE_MS - 1, CANDLE_BASE_MS)).toBe(T0);
+    expect(bucketStart(T0 + CANDLE_BASE_MS, CANDLE_BASE_MS)).toBe(T0 + CANDLE_BASE_MS);
+  });
+});
+
+describe('addTick', () => {
+  it('opens a candle at the start of the tick interval', () => {
+    expect(addTick([], T0 + 1500, 10, 5)).toEqual([candle(T0, 10, 10, 10, 10, 5)]);
+  });
+
+  it('folds ticks in the same interval into the forming candle', () => {
+    let candles = addTick([], T0, 10, 5);
+    candles = addTick(candles, T0 + 1500, 12, 1);
+    candles = addTick(candles, T0 + 3000, 9, 2);
+    candles = addTick(candles, T0 + 4500, 11, 3);
+
+    expect(candles).toEqual([candle(T0, 10, 12, 9, 11, 11)]);
+  });
+
+  it('starts the next candle once the interval rolls over', () => {
+    const candles = addTick(addTick([], T0, 10, 5), T0 + CANDLE_BASE_MS, 11, 1);
+
+    expect(candles.map(c => c.time)).toEqual([T0, T0 + CANDLE_BASE_MS]);
+    expect(candles[1].open).toBe(11);
+  });
+
+  it('drops the oldest candles past MAX_CANDLES', () => {
+    const full = Array.from({ length: MAX_CANDLES }, (_, i) => candle(T0 + i * CANDLE_BASE_MS, 10, 10, 10, 10, 1));
+    const candles = addTick(full, T0 + MAX_CANDLES * CANDLE_BASE_MS, 11, 1);
+
+    expect(candles).toHaveLength(MAX_CANDLES);
+    expect(candles[0].time).toBe(T0 + CANDLE_BASE_MS);
+    expect(candles[MAX_CANDLES - 1].close).toBe(11);
+  });
+});
+
+describe('aggregateCandles', () => {
+  const base = [
+    candle(T0, 10, 11, 9, 10.5, 1),
+    candle(T0 + CANDLE_BASE_MS, 10.5, 13, 10, 12, 2),
+    candle(T0 + 2 * CANDLE_BASE_MS, 12, 12.5, 8, 9, 3)
+  ];
+
+  it('leaves base candles as they are', () => {
+    expect(aggregateCandles(base, CANDLE_BASE_MS)).toBe(base);
+  });
+
+  it('merges base candles into longer intervals', () => {
+    const interval = 5 * CANDLE_BASE_MS;
+    expect(aggregateCandles(base, interval)).toEqual([candle(T0, 10, 13, 8, 9, 6)]);
+  });
+
+  it('skips intervals without ticks and leaves its input alone', () => {
+    const interval = 5 * CANDLE_BASE_MS;
+    const gapped = [base[0], { ...base[1], time: T0 + 10 * CANDLE_BASE_MS }];
+    const aggregated = aggregateCandles(gapped, interval);
+
+    expect(aggregated.map(c => c.time)).toEqual([T0, T0 + 10 * CANDLE_BASE_MS]);
+    expect(gapped[0]).toEqual(base[0]);
+  });
+});
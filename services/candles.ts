@@ -0,0 +1,47 @@
+import { Candle } from '../types';
+import { CANDLE_BASE_MS, MAX_CANDLES } from '../constants';
+
+export const bucketStart = (time: number, intervalMs: number) => Math.floor(time / intervalMs) * intervalMs;
+
+/**
+ * Folds a tick into the base candles: it updates the candle still forming or
+ * opens the next one. The oldest candles drop off past MAX_CANDLES.
+ */
+export const addTick = (candles: Candle[], time: number, price: number, volume: number): Candle[] => {
+  const start = bucketStart(time, CANDLE_BASE_MS);
+  const last = candles[candles.length - 1];
+  if (last && last.time === start) {
+    return [...candles.slice(0, -1), {
+      ...last,
+      high: Math.max(last.high, price),
+      low: Math.min(last.low, price),
+      close: price,
+      volume: last.volume + volume
+    }];
+  }
+  const next = { time: start, open: price, high: price, low: price, close: price, volume };
+  return [...candles.slice(Math.max(0, candles.length + 1 - MAX_CANDLES)), next];
+};
+
+/**
+ * Merges base candles into candles of `intervalMs`, a multiple of
+ * CANDLE_BASE_MS. Intervals without any ticks are left out rather than drawn
+ * flat.
+ */
+export const aggregateCandles = (candles: Candle[], intervalMs: number): Candle[] => {
+  if (intervalMs <= CANDLE_BASE_MS) return candles;
+  const result: Candle[] = [];
+  candles.forEach(candle => {
+    const start = bucketStart(candle.time, intervalMs);
+    const current = result[result.length - 1];
+    if (current && current.time === start) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+    } else {
+      result.push({ ...candle, time: start });
+    }
+  });
+  return result;
+};
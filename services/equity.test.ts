@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { Asset, EngineContext, EquitySnapshot, Holding, LimitOrder, Portfolio } from '../types';
+import {
+  DEFAULT_PORTFOLIO_DATA,
+  DEFAULT_MARGIN_CONFIG,
+  EQUITY_SNAPSHOT_INTERVAL_MS,
+  MAX_EQUITY_SNAPSHOTS
+} from '../constants';
+import { equitySnapshot, recordEquity } from './equity';
+
+const NOW = 1_700_000_000_000;
+
+const ctx = (now = NOW): EngineContext => ({
+  now,
+  generateId: () => 'id',
+  feeSchedule: { makerRate: 0, takerRate: 0, minimumFee: 0 },
+  margin: DEFAULT_MARGIN_CONFIG
+});
+
+const asset = (id: string, current_price: number): Asset => ({
+  id,
+  name: id,
+  icon: '',
+  initial_price: current_price,
+  category: 'Vegetable',
+  tickSize: 0.01,
+  lotSize: 1,
+  status: 'TRADING',
+  current_price,
+  history: [],
+  candles: [],
+  change24h: 0
+});
+
+const assets = [asset('TOM', 10), asset('CAR', 5)];
+
+const position = (quantity: number, free = quantity): Holding => ({
+  quantity: free,
+  avgCost: 8,
+  lots: [{ id: 'lot', quantity, unitCost: 8, acquiredAt: 0 }],
+  realizedPnl: 0
+});
+
+// Holds 10 * $9 of cash in escrow
+const restingBuy = {
+  id: 'o1',
+  assetId: 'TOM',
+  type: 'BUY',
+  quantity: 10,
+  filledQuantity: 0,
+  targetPrice: 9,
+  feeRate: 0,
+  minimumFee: 0,
+  feesPaid: 0
+} as LimitOrder;
+
+const account = (overrides: Partial<Portfolio> = {}): Portfolio => ({
+  ...DEFAULT_PORTFOLIO_DATA,
+  cashBalance: 1000,
+  holdings: { TOM: position(20, 15), CAR: position(-10) },
+  ...overrides
+});
+
+const snapshot = (time: number): EquitySnapshot => ({ time, netWorth: 0, cash: 0, holdingsValue: 0, positions: {} });
+
+describe('equitySnapshot', () => {
+  it('counts escrowed cash and units and signs short positions', () => {
+    const result = equitySnapshot(account({ openOrders: [restingBuy] }), assets, NOW);
+
+    expect(result).toEqual({
+      time: NOW,
+      cash: 1000 + 90,
+      holdingsValue: 200 - 50,
+      netWorth: 1090 + 150,
+      positions: { TOM: 200, CAR: -50 }
+    });
+  });
+
+  it('leaves flat positions out', () => {
+    expect(equitySnapshot(account({ holdings: { TOM: position(0) } }), assets, NOW).positions).toEqual({});
+  });
+});
+
+describe('recordEquity', () => {
+  it('records the first snapshot straight away', () => {
+    const result = recordEquity(account(), assets, ctx());
+
+    expect(result.portfolio.equityHistory).toHaveLength(1);
+    expect(result.events).toEqual([]);
+  });
+
+  it('waits for the snapshot interval', () => {
+    const portfolio = account({ equityHistory: [snapshot(NOW)] });
+
+    expect(recordEquity(portfolio, assets, ctx(NOW + EQUITY_SNAPSHOT_INTERVAL_MS - 1)).portfolio).toBe(portfolio);
+    expect(recordEquity(portfolio, assets, ctx(NOW + EQUITY_SNAPSHOT_INTERVAL_MS)).portfolio.equityHistory).toHaveLength(2);
+  });
+
+  it('records straight after a deposit or reset', () => {
+    const portfolio = account({
+      equityHistory: [snapshot(NOW)],
+      fundingEvents: [{ id: 'f', time: NOW + 1, kind: 'DEPOSIT', amount: 100 }]
+    });
+
+    expect(recordEquity(portfolio, assets, ctx(NOW + 2)).portfolio.equityHistory).toHaveLength(2);
+  });
+
+  it('thins the older half once the history is full', () => {
+    const full = Array.from({ length: MAX_EQUITY_SNAPSHOTS }, (_, i) => snapshot(NOW + i));
+    const later = NOW + MAX_EQUITY_SNAPSHOTS + EQUITY_SNAPSHOT_INTERVAL_MS;
+    const history = recordEquity(account({ equityHistory: full }), assets, ctx(later)).portfolio.equityHistory;
+
+    const half = Math.floor((MAX_EQUITY_SNAPSHOTS + 1) / 2);
+    expect(history).toHaveLength(Math.ceil(half / 2) + (MAX_EQUITY_SNAPSHOTS + 1 - half));
+    expect(history[history.length - 1].time).toBe(later);
+    expect(history[1].time).toBe(NOW + 2);
+  });
+});
@@ -0,0 +1,49 @@
+import { Asset, Portfolio, EquitySnapshot, EngineContext, EngineResult } from '../types';
+import { EQUITY_SNAPSHOT_INTERVAL_MS, MAX_EQUITY_SNAPSHOTS } from '../constants';
+import { positionOf } from './margin';
+import { escrowedCash } from './tradingEngine';
+
+/**
+ * What the account is worth right now, split into cash and positions.
+ */
+export const equitySnapshot = (portfolio: Portfolio, assets: Asset[], now: number): EquitySnapshot => {
+  const positions: Record<string, number> = {};
+  Object.keys(portfolio.holdings).forEach(assetId => {
+    const quantity = positionOf(portfolio, assetId);
+    if (quantity !== 0) {
+      positions[assetId] = quantity * (assets.find(a => a.id === assetId)?.current_price || 0);
+    }
+  });
+
+  const cash = portfolio.cashBalance + escrowedCash(portfolio);
+  const holdingsValue = Object.values(positions).reduce((sum, value) => sum + value, 0);
+  return { time: now, netWorth: cash + holdingsValue, cash, holdingsValue, positions };
+};
+
+// Halves the density of the older half, so recent moves keep full detail
+// while the whole life of the account still fits
+const thin = (snapshots: EquitySnapshot[]): EquitySnapshot[] => {
+  if (snapshots.length <= MAX_EQUITY_SNAPSHOTS) return snapshots;
+  const half = Math.floor(snapshots.length / 2);
+  return [...snapshots.slice(0, half).filter((_, i) => i % 2 === 0), ...snapshots.slice(half)];
+};
+
+/**
+ * Appends a snapshot once EQUITY_SNAPSHOT_INTERVAL_MS has passed since the
+ * last one, or straight away after a deposit or reset so the curve shows the
+ * jump where it happened. Otherwise the portfolio comes back untouched.
+ */
+export const recordEquity = (portfolio: Portfolio, assets: Asset[], ctx: EngineContext): EngineResult => {
+  const history = portfolio.equityHistory || [];
+  const last = history[history.length - 1];
+  const lastFunding = (portfolio.fundingEvents || [])[(portfolio.fundingEvents || []).length - 1];
+  const due = !last
+    || ctx.now - last.time >= EQUITY_SNAPSHOT_INTERVAL_MS
+    || (lastFunding && lastFunding.time > last.time);
+  if (!due) return { portfolio, events: [] };
+
+  return {
+    portfolio: { ...portfolio, equityHistory: thin([...history, equitySnapshot(portfolio, assets, ctx.now)]) },
+    events: []
+  };
+};
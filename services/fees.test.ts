@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { FeeSchedule } from '../types';
+import { FEE_VOLUME_WINDOW_MS } from '../constants';
+import { volumeDay, tradingVolume, recordVolume, feeRateFor, minimumFeeFor, calculateFee } from './fees';
+
+const NOW = 1_700_000_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const schedule: FeeSchedule = {
+  makerRate: 0.001,
+  takerRate: 0.002,
+  minimumFee: 0.5,
+  tiers: [
+    { minVolume: 50000, makerRate: 0.0005, takerRate: 0.001 },
+    { minVolume: 10000, makerRate: 0.0008, takerRate: 0.0015 }
+  ],
+  overrides: { PEP: { takerRate: 0.003, minimumFee: 1 } }
+};
+
+describe('tradingVolume', () => {
+  it('sums the days that overlap the trailing window', () => {
+    const volumeByDay = {
+      [volumeDay(NOW - FEE_VOLUME_WINDOW_MS - 2 * DAY_MS)]: 1000,
+      [volumeDay(NOW - FEE_VOLUME_WINDOW_MS)]: 100,
+      [volumeDay(NOW)]: 100
+    };
+
+    expect(tradingVolume(volumeByDay, NOW)).toBe(200);
+  });
+
+  it('treats a missing record as no volume', () => {
+    expect(tradingVolume(undefined as unknown as Record<string, number>, NOW)).toBe(0);
+  });
+});
+
+describe('recordVolume', () => {
+  it('adds to the day of the fill', () => {
+    const once = recordVolume({}, NOW, 100);
+    const twice = recordVolume(once, NOW + 1, 50);
+
+    expect(twice).toEqual({ [volumeDay(NOW)]: 150 });
+  });
+
+  it('drops days that have left the window', () => {
+    const stale = volumeDay(NOW - FEE_VOLUME_WINDOW_MS - 2 * DAY_MS);
+    const recent = volumeDay(NOW - DAY_MS);
+
+    expect(recordVolume({ [stale]: 1000, [recent]: 10 }, NOW, 5)).toEqual({ [recent]: 10, [volumeDay(NOW)]: 5 });
+  });
+});
+
+describe('feeRateFor', () => {
+  it('uses the base rates below the first tier', () => {
+    expect(feeRateFor(schedule, 'TOM', 'MAKER', 9999)).toBe(0.001);
+    expect(feeRateFor(schedule, 'TOM', 'TAKER', 9999)).toBe(0.002);
+  });
+
+  it('picks the highest tier the volume reaches, whatever order the tiers are in', () => {
+    expect(feeRateFor(schedule, 'TOM', 'TAKER', 10000)).toBe(0.0015);
+    expect(feeRateFor(schedule, 'TOM', 'MAKER', 60000)).toBe(0.0005);
+  });
+
+  it('lets a per-asset override beat the tier', () => {
+    expect(feeRateFor(schedule, 'PEP', 'TAKER', 60000)).toBe(0.003);
+    expect(feeRateFor(schedule, 'PEP', 'MAKER', 60000)).toBe(0.0005);
+  });
+});
+
+describe('minimumFeeFor', () => {
+  it('falls back to the schedule minimum', () => {
+    expect(minimumFeeFor(schedule, 'TOM')).toBe(0.5);
+    expect(minimumFeeFor(schedule, 'PEP')).toBe(1);
+  });
+});
+
+describe('calculateFee', () => {
+  it('charges the rate or the outstanding minimum, whichever is larger', () => {
+    expect(calculateFee(1000, 0.002, 0.5)).toBe(2);
+    expect(calculateFee(100, 0.002, 0.5)).toBe(0.5);
+    expect(calculateFee(100, 0.002, 0)).toBeCloseTo(0.2);
+  });
+
+  it('charges nothing when nothing traded', () => {
+    expect(calculateFee(0, 0.002, 0.5)).toBe(0);
+  });
+});
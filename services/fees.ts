@@ -0,0 +1,61 @@
+import { FeeSchedule, Liquidity } from '../types';
+import { FEE_VOLUME_WINDOW_MS } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const volumeDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * Notional traded over the trailing fee window, which decides the tier. Days
+ * that overlap the window count in full.
+ */
+export const tradingVolume = (volumeByDay: Record<string, number>, now: number): number =>
+  Object.entries(volumeByDay || {})
+    .filter(([day]) => Date.parse(day) + DAY_MS > now - FEE_VOLUME_WINDOW_MS)
+    .reduce((sum, [, volume]) => sum + volume, 0);
+
+/**
+ * Adds a fill to the per-day volume and drops days that left the window.
+ */
+export const recordVolume = (
+  volumeByDay: Record<string, number>,
+  timestamp: number,
+  notional: number
+): Record<string, number> => {
+  const day = volumeDay(timestamp);
+  const next: Record<string, number> = { [day]: (volumeByDay[day] || 0) + notional };
+  Object.entries(volumeByDay).forEach(([d, volume]) => {
+    if (d !== day && Date.parse(d) + DAY_MS > timestamp - FEE_VOLUME_WINDOW_MS) next[d] = volume;
+  });
+  return next;
+};
+
+/**
+ * Rate charged on one side of the book. The highest tier the volume reaches
+ * replaces the base rates, and a per-asset override beats both.
+ */
+export const feeRateFor = (
+  schedule: FeeSchedule,
+  assetId: string,
+  liquidity: Liquidity,
+  volume: number
+): number => {
+  const tier = (schedule.tiers || [])
+    .filter(t => volume >= t.minVolume)
+    .sort((a, b) => b.minVolume - a.minVolume)[0];
+  const rates = tier || schedule;
+  const override = schedule.overrides?.[assetId];
+  return liquidity === 'MAKER'
+    ? override?.makerRate ?? rates.makerRate
+    : override?.takerRate ?? rates.takerRate;
+};
+
+export const minimumFeeFor = (schedule: FeeSchedule, assetId: string): number =>
+  schedule.overrides?.[assetId]?.minimumFee ?? schedule.minimumFee;
+
+/**
+ * Fee on a fill of `notional`, topped up to whatever part of the order's
+ * minimum ticket fee is still unpaid.
+ */
+export const calculateFee = (notional: number, rate: number, minimumOutstanding: number): number =>
+  notional > 0 ? Math.max(notional * rate, minimumOutstanding) : 0;
@@ -2,19 +2,36 @@ import { initializeApp, getApps, getApp } from 'firebase/app';
 import { 
   getAuth, 
   signInWithCustomToken, 
-  signInAnonymously, 
-  User 
+  signInAnonymously
 } from 'firebase/auth';
 import { 
   getFirestore, 
   doc, 
   setDoc, 
   onSnapshot, 
-  updateDoc,
-  getDoc
+  getDoc,
+  getDocs,
+  runTransaction,
+  writeBatch,
+  collection,
+  query,
+  where,
+  orderBy,
+  startAfter,
+  limit,
+  QueryConstraint
 } from 'firebase/firestore';
-import { DEFAULT_PORTFOLIO_DATA } from '../constants';
-import { Portfolio } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_ASSET_CATALOG, HISTORY_WRITE_BATCH_SIZE } from '../constants';
+import {
+  Portfolio,
+  PortfolioStore,
+  StoreUser,
+  HistoryEntry,
+  HistoryFilter,
+  HistoryCursor,
+  HistoryPage,
+  AssetListing
+} from '../types';
 
 // Initialize Firebase only if config is available and valid
 let db: any = null;
@@ -42,14 +59,19 @@ const initFirebase = () => {
   }
 };
 
-initFirebase();
+const portfolioDoc = (userId: string) =>
+  doc(db, `artifacts/${appId}/users/${userId}/veggietrade_data/portfolio`);
 
-export const authenticateUser = async (): Promise<User | null> => {
-  if (!auth) {
-    console.warn("Firebase Auth not initialized. Running in offline/demo mode.");
-    return null;
-  }
+// History lives beside the portfolio document, one document per entry, so the
+// portfolio itself stays small however long the account has been trading
+const historyCollection = (userId: string) =>
+  collection(db, `artifacts/${appId}/users/${userId}/veggietrade_data/portfolio/history`);
+
+// One document for every user: `{ assets: AssetListing[] }`
+const catalogDoc = () =>
+  doc(db, `artifacts/${appId}/public/data/veggietrade/catalog`);
 
+const authenticateUser = async (): Promise<StoreUser | null> => {
   try {
     if (window.__initial_auth_token) {
       const userCredential = await signInWithCustomToken(auth, window.__initial_auth_token);
@@ -64,14 +86,11 @@ export const authenticateUser = async (): Promise<User | null> => {
   }
 };
 
-export const subscribeToPortfolio = (
+const subscribeToPortfolio = (
   userId: string, 
   onUpdate: (data: Portfolio) => void
 ) => {
-  if (!db || !appId) return () => {};
-
-  const docPath = `artifacts/${appId}/users/${userId}/veggietrade_data/portfolio`;
-  const portfolioRef = doc(db, docPath);
+  const portfolioRef = portfolioDoc(userId);
 
   return onSnapshot(portfolioRef, async (docSnapshot) => {
     if (docSnapshot.exists()) {
@@ -86,15 +105,86 @@ export const subscribeToPortfolio = (
   });
 };
 
-export const updatePortfolio = async (userId: string, newPortfolio: Portfolio) => {
-  if (!db || !appId) return;
-  const docPath = `artifacts/${appId}/users/${userId}/veggietrade_data/portfolio`;
-  const portfolioRef = doc(db, docPath);
-  
-  try {
-    await updateDoc(portfolioRef, { ...newPortfolio });
-  } catch (error) {
-    console.error("Error updating portfolio:", error);
-    throw error;
+const loadPortfolio = async (userId: string): Promise<Portfolio> => {
+  const portfolioRef = portfolioDoc(userId);
+  const docSnapshot = await getDoc(portfolioRef);
+  if (docSnapshot.exists()) return docSnapshot.data() as Portfolio;
+  await setDoc(portfolioRef, DEFAULT_PORTFOLIO_DATA);
+  return DEFAULT_PORTFOLIO_DATA;
+};
+
+// A transaction holds at most HISTORY_WRITE_BATCH_SIZE writes and an import
+// can bring thousands of entries, so history is written first in batches of
+// that size. Entries are keyed by id, so a retry after a lost race rewrites
+// the same documents rather than adding copies.
+const writeHistory = async (userId: string, history: HistoryEntry[]) => {
+  for (let start = 0; start < history.length; start += HISTORY_WRITE_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    history.slice(start, start + HISTORY_WRITE_BATCH_SIZE)
+      .forEach(entry => batch.set(doc(historyCollection(userId), entry.id), entry));
+    await batch.commit();
   }
-};
\ No newline at end of file
+};
+
+// The version check and the portfolio write then run in one Firestore
+// transaction, so two writers that read the same version can't both succeed
+const commitPortfolio = async (userId: string, expectedVersion: number, portfolio: Portfolio, history: HistoryEntry[]) => {
+  await writeHistory(userId, history);
+  return runTransaction(db, async (transaction) => {
+    const portfolioRef = portfolioDoc(userId);
+    const docSnapshot = await transaction.get(portfolioRef);
+    const storedVersion = docSnapshot.exists() ? (docSnapshot.data().version || 0) : 0;
+    if (storedVersion !== expectedVersion) return false;
+    transaction.set(portfolioRef, portfolio);
+    return true;
+  });
+};
+
+const loadHistory = async (
+  userId: string,
+  filter: HistoryFilter,
+  pageSize: number,
+  after?: HistoryCursor
+): Promise<HistoryPage> => {
+  const constraints: QueryConstraint[] = [];
+  if (filter.assetId) constraints.push(where('assetId', '==', filter.assetId));
+  if (filter.side) constraints.push(where('side', '==', filter.side));
+  if (filter.orderType) constraints.push(where('orderType', '==', filter.orderType));
+  constraints.push(orderBy('time', 'desc'), orderBy('id', 'desc'));
+  if (after) constraints.push(startAfter(after.time, after.id));
+  constraints.push(limit(pageSize));
+
+  const snapshot = await getDocs(query(historyCollection(userId), ...constraints));
+  const entries = snapshot.docs.map(entryDoc => entryDoc.data() as HistoryEntry);
+  const last = entries[entries.length - 1];
+  return {
+    entries,
+    next: entries.length === pageSize ? { time: last.time, id: last.id } : null
+  };
+};
+
+const subscribeToCatalog = (onUpdate: (listings: AssetListing[]) => void) =>
+  onSnapshot(catalogDoc(), (docSnapshot) => {
+    onUpdate(docSnapshot.exists() ? (docSnapshot.data().assets as AssetListing[]) : DEFAULT_ASSET_CATALOG);
+  }, (error) => {
+    console.error("Error fetching asset catalog:", error);
+    onUpdate(DEFAULT_ASSET_CATALOG);
+  });
+
+/**
+ * Firestore-backed store, or null when Firebase isn't configured.
+ */
+export const createFirestoreStore = (): PortfolioStore | null => {
+  initFirebase();
+  if (!db || !auth || !appId) return null;
+
+  return {
+    name: 'Firestore',
+    authenticate: authenticateUser,
+    subscribe: subscribeToPortfolio,
+    load: loadPortfolio,
+    commit: commitPortfolio,
+    loadHistory,
+    subscribeCatalog: subscribeToCatalog
+  };
+};
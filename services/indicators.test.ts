@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { Candle, IndicatorConfig } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, MACD_SLOW_PERIOD } from '../constants';
+import { sma, ema, rsi, atr, vwap, bollinger, macd, computeIndicator, setIndicators } from './indicators';
+
+const candle = (high: number, low: number, close: number, volume = 1): Candle =>
+  ({ time: 0, open: close, high, low, close, volume });
+
+const closeTo = (values: (number | null)[], expected: (number | null)[]) => {
+  expect(values).toHaveLength(expected.length);
+  expected.forEach((value, i) => value === null ? expect(values[i]).toBeNull() : expect(values[i]).toBeCloseTo(value));
+};
+
+describe('moving averages', () => {
+  it('averages the last `period` values once there are enough', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('seeds the EMA with the SMA and weights later values by 2 / (period + 1)', () => {
+    closeTo(ema([1, 2, 3, 4], 2), [null, 1.5, 2.5, 3.5]);
+  });
+
+  it('starts the EMA after leading nulls', () => {
+    closeTo(ema([null, 1, 2, 3], 2), [null, null, 1.5, 2.5]);
+    expect(ema([null, 1], 2)).toEqual([null, null]);
+  });
+});
+
+describe('oscillators', () => {
+  it('smooths gains and losses into the RSI', () => {
+    closeTo(rsi([1, 2, 1, 2, 1], 2), [null, null, 50, 75, 37.5]);
+  });
+
+  it('reads 100 when nothing fell', () => {
+    expect(rsi([1, 2, 3, 4], 2).slice(2)).toEqual([100, 100]);
+  });
+
+  it('measures the true range against the previous close', () => {
+    // True ranges: 2, 2 (gap from the 10 close), 1
+    closeTo(atr([candle(11, 9, 10), candle(12, 10, 11), candle(11.5, 10.5, 11)], 2), [null, null, 1.5]);
+  });
+
+  it('weights the typical price by volume', () => {
+    const values = vwap([candle(10, 10, 10, 1), candle(13, 13, 13, 2), candle(16, 16, 16, 0)], 2);
+
+    closeTo(values, [null, 12, 13]);
+  });
+
+  it('puts Bollinger Bands standard deviations around the SMA', () => {
+    const bands = bollinger([1, 2, 3], 3, 2);
+    const width = 2 * Math.sqrt(2 / 3);
+
+    closeTo(bands.middle, [null, null, 2]);
+    closeTo(bands.upper, [null, null, 2 + width]);
+    closeTo(bands.lower, [null, null, 2 - width]);
+  });
+
+  it('signals MACD once both averages and the signal have warmed up', () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 10 + Math.sin(i / 3));
+    const result = macd(closes, 9);
+
+    expect(result.line.findIndex(v => v !== null)).toBe(MACD_SLOW_PERIOD - 1);
+    expect(result.signal.findIndex(v => v !== null)).toBe(MACD_SLOW_PERIOD - 1 + 8);
+    result.histogram.forEach((h, i) => {
+      if (h !== null) expect(h).toBeCloseTo((result.line[i] as number) - (result.signal[i] as number));
+    });
+  });
+});
+
+describe('computeIndicator', () => {
+  const candles = [1, 2, 3, 4].map(close => candle(close, close, close));
+
+  it('keys lines by the indicator id', () => {
+    const config: IndicatorConfig = { id: 'sma-a', kind: 'SMA', period: 2, color: '#fff' };
+    const [line] = computeIndicator(config, candles);
+
+    expect(line).toMatchObject({ key: 'sma-a:value', label: 'SMA (2)', color: '#fff', style: 'LINE' });
+    expect(line.values).toEqual([null, 1.5, 2.5, 3.5]);
+  });
+
+  it('draws three lines for bands and MACD', () => {
+    const bands = computeIndicator({ id: 'bb', kind: 'BOLLINGER', period: 2, color: '#fff' }, candles);
+    const macdLines = computeIndicator({ id: 'm', kind: 'MACD', period: 9, color: '#fff' }, candles);
+
+    expect(bands.map(l => l.key)).toEqual(['bb:upper', 'bb:middle', 'bb:lower']);
+    expect(macdLines.map(l => l.style)).toEqual(['HISTOGRAM', 'LINE', 'DASHED']);
+  });
+});
+
+describe('setIndicators', () => {
+  it('stores the set with the portfolio', () => {
+    const indicators: IndicatorConfig[] = [{ id: 'rsi', kind: 'RSI', period: 14, color: '#fff' }];
+    const { portfolio, events } = setIndicators({ ...DEFAULT_PORTFOLIO_DATA }, indicators);
+
+    expect(portfolio.indicators).toBe(indicators);
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { Candle, IndicatorConfig, IndicatorLine, Portfolio, EngineResult } from '../types';
+import { INDICATOR_DEFINITIONS, BOLLINGER_STD_DEVS, MACD_FAST_PERIOD, MACD_SLOW_PERIOD } from '../constants';
+
+type Series = (number | null)[];
+
+export const sma = (values: number[], period: number): Series => {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value - (i >= period ? values[i - period] : 0);
+    return i >= period - 1 ? sum / period : null;
+  });
+};
+
+// Seeded with the SMA of the first `period` values. Leading nulls (another
+// indicator still warming up) are skipped.
+export const ema = (values: Series, period: number): Series => {
+  const k = 2 / (period + 1);
+  const result: Series = values.map(() => null);
+  const first = values.findIndex(v => v !== null);
+  if (first < 0 || values.length - first < period) return result;
+
+  let current = (values.slice(first, first + period) as number[]).reduce((sum, v) => sum + v, 0) / period;
+  result[first + period - 1] = current;
+  for (let i = first + period; i < values.length; i++) {
+    current = (values[i] as number) * k + current * (1 - k);
+    result[i] = current;
+  }
+  return result;
+};
+
+// Wilder's smoothing, which RSI and ATR are defined with. `values[0]` is
+// ignored so it can line up with a series of changes.
+const wilder = (values: number[], period: number): Series => {
+  const result: Series = values.map(() => null);
+  if (values.length <= period) return result;
+  let current = values.slice(1, period + 1).reduce((sum, v) => sum + v, 0) / period;
+  result[period] = current;
+  for (let i = period + 1; i < values.length; i++) {
+    current = (current * (period - 1) + values[i]) / period;
+    result[i] = current;
+  }
+  return result;
+};
+
+export const rsi = (closes: number[], period: number): Series => {
+  const gains = closes.map((close, i) => i > 0 ? Math.max(0, close - closes[i - 1]) : 0);
+  const losses = closes.map((close, i) => i > 0 ? Math.max(0, closes[i - 1] - close) : 0);
+  const avgGain = wilder(gains, period);
+  const avgLoss = wilder(losses, period);
+  return avgGain.map((gain, i) => {
+    const loss = avgLoss[i];
+    if (gain === null || loss === null) return null;
+    return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  });
+};
+
+export const atr = (candles: Candle[], period: number): Series =>
+  wilder(candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const previousClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - previousClose), Math.abs(c.low - previousClose));
+  }), period);
+
+// Rolling over the last `period` candles, priced at the typical price
+export const vwap = (candles: Candle[], period: number): Series => {
+  const weighted = candles.map(c => ((c.high + c.low + c.close) / 3) * c.volume);
+  const volume = candles.map(c => c.volume);
+  const sumWeighted = sma(weighted, period);
+  const sumVolume = sma(volume, period);
+  return sumWeighted.map((w, i) => w !== null && sumVolume[i] ? w / (sumVolume[i] as number) : null);
+};
+
+export const bollinger = (closes: number[], period: number, stdDevs: number) => {
+  const middle = sma(closes, period);
+  const width = middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = closes.slice(i - period + 1, i + 1);
+    return stdDevs * Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+  });
+  return {
+    middle,
+    upper: middle.map((mean, i) => mean === null ? null : mean + (width[i] as number)),
+    lower: middle.map((mean, i) => mean === null ? null : mean - (width[i] as number))
+  };
+};
+
+export const macd = (closes: number[], signalPeriod: number) => {
+  const fast = ema(closes, MACD_FAST_PERIOD);
+  const slow = ema(closes, MACD_SLOW_PERIOD);
+  const line = fast.map((f, i) => f === null || slow[i] === null ? null : f - (slow[i] as number));
+  const signal = ema(line, signalPeriod);
+  return {
+    line,
+    signal,
+    histogram: line.map((m, i) => m === null || signal[i] === null ? null : m - (signal[i] as number))
+  };
+};
+
+/**
+ * The lines one configured indicator draws, keyed by the indicator's id so
+ * several of the same kind can share a chart.
+ */
+export const computeIndicator = (config: IndicatorConfig, candles: Candle[]): IndicatorLine[] => {
+  const { id, kind, period, color } = config;
+  const closes = candles.map(c => c.close);
+  const label = `${INDICATOR_DEFINITIONS[kind].label} (${period})`;
+  const line = (key: string, lineLabel: string, values: Series, style: IndicatorLine['style'] = 'LINE', lineColor = color): IndicatorLine =>
+    ({ key: `${id}:${key}`, label: lineLabel, color: lineColor, values, style });
+
+  switch (kind) {
+    case 'SMA':
+      return [line('value', label, sma(closes, period))];
+    case 'EMA':
+      return [line('value', label, ema(closes, period))];
+    case 'VWAP':
+      return [line('value', label, vwap(candles, period))];
+    case 'BOLLINGER': {
+      const bands = bollinger(closes, period, BOLLINGER_STD_DEVS);
+      return [
+        line('upper', `${label} upper`, bands.upper, 'DASHED'),
+        line('middle', label, bands.middle),
+        line('lower', `${label} lower`, bands.lower, 'DASHED')
+      ];
+    }
+    case 'RSI':
+      return [line('value', label, rsi(closes, period))];
+    case 'MACD': {
+      const result = macd(closes, period);
+      return [
+        line('histogram', 'Histogram', result.histogram, 'HISTOGRAM', '#475569'),
+        line('line', `MACD (${MACD_FAST_PERIOD}, ${MACD_SLOW_PERIOD})`, result.line),
+        line('signal', `Signal (${period})`, result.signal, 'DASHED', '#94a3b8')
+      ];
+    }
+    case 'ATR':
+      return [line('value', label, atr(candles, period))];
+  }
+};
+
+/**
+ * Replaces the chart's indicator set. It is stored with the portfolio so it
+ * follows the user between sessions and devices.
+ */
+export const setIndicators = (portfolio: Portfolio, indicators: IndicatorConfig[]): EngineResult => ({
+  portfolio: { ...portfolio, indicators },
+  events: []
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { AssetListing, HistoryEntry, Portfolio } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_ASSET_CATALOG } from '../constants';
+import { createMemoryStore } from './localStore';
+
+const portfolio = (cashBalance: number): Portfolio => ({ ...DEFAULT_PORTFOLIO_DATA, cashBalance });
+
+const fill = (id: string, time: number, assetId = 'TOM'): HistoryEntry => ({
+  id,
+  time,
+  assetId,
+  side: 'BUY',
+  orderType: 'MARKET',
+  kind: 'FILL',
+  transaction: { id, type: 'BUY', assetId, assetName: assetId, quantity: 1, price: 10, timestamp: time, orderType: 'MARKET' }
+});
+
+const latest = <T>(seen: T[]) => seen[seen.length - 1];
+
+describe('createMemoryStore', () => {
+  it('signs in a demo user', async () => {
+    expect(await createMemoryStore().authenticate()).toEqual({ uid: 'demo' });
+  });
+
+  it('creates a default portfolio for a new user', () => {
+    const seen: Portfolio[] = [];
+    createMemoryStore().subscribe('demo', data => seen.push(data));
+
+    expect(seen).toEqual([DEFAULT_PORTFOLIO_DATA]);
+  });
+
+  it('delivers the stored portfolio and every later write', async () => {
+    const store = createMemoryStore({ demo: portfolio(500) });
+    const seen: Portfolio[] = [];
+    store.subscribe('demo', data => seen.push(data));
+
+    expect(await store.commit('demo', 0, { ...portfolio(750), version: 1 }, [])).toBe(true);
+
+    expect(seen.map(p => p.cashBalance)).toEqual([500, 750]);
+    expect(await store.load('demo')).toMatchObject({ cashBalance: 750, version: 1 });
+  });
+
+  it('refuses a commit based on a stale version', async () => {
+    const store = createMemoryStore({ demo: { ...portfolio(500), version: 3 } });
+
+    expect(await store.commit('demo', 2, { ...portfolio(0), version: 3 }, [])).toBe(false);
+    expect((await store.load('demo')).cashBalance).toBe(500);
+  });
+
+  it('hands out copies so subscribers cannot change what is stored', async () => {
+    const store = createMemoryStore({ demo: portfolio(500) });
+    const seen: Portfolio[] = [];
+    store.subscribe('demo', data => seen.push(data));
+
+    latest(seen).cashBalance = 0;
+    store.subscribe('demo', data => seen.push(data));
+
+    expect(latest(seen).cashBalance).toBe(500);
+  });
+
+  it('keeps users apart and stops notifying after unsubscribe', async () => {
+    const store = createMemoryStore();
+    const demo: Portfolio[] = [];
+    const other: Portfolio[] = [];
+    const unsubscribe = store.subscribe('demo', data => demo.push(data));
+    store.subscribe('other', data => other.push(data));
+
+    await store.commit('other', 0, portfolio(1), []);
+    unsubscribe();
+    await store.commit('demo', 0, portfolio(2), []);
+
+    expect(demo).toHaveLength(1);
+    expect(other.map(p => p.cashBalance)).toEqual([DEFAULT_PORTFOLIO_DATA.cashBalance, 1]);
+  });
+});
+
+describe('history', () => {
+  const withHistory = async (entries: HistoryEntry[]) => {
+    const store = createMemoryStore();
+    await store.commit('demo', 0, { ...portfolio(0), version: 1 }, entries);
+    return store;
+  };
+
+  it('pages newest first with a cursor until nothing is left', async () => {
+    const store = await withHistory([fill('a', 1), fill('b', 3), fill('c', 2), fill('d', 3)]);
+
+    const first = await store.loadHistory('demo', {}, 2);
+    expect(first.entries.map(e => e.id)).toEqual(['d', 'b']);
+    expect(first.next).toEqual({ time: 3, id: 'b' });
+
+    const second = await store.loadHistory('demo', {}, 2, first.next!);
+    expect(second.entries.map(e => e.id)).toEqual(['c', 'a']);
+    expect(second.next).toBeNull();
+  });
+
+  it('filters on asset, side and order type', async () => {
+    const store = await withHistory([fill('a', 1), fill('b', 2, 'CAR')]);
+
+    expect((await store.loadHistory('demo', { assetId: 'CAR' }, 10)).entries.map(e => e.id)).toEqual(['b']);
+    expect((await store.loadHistory('demo', { side: 'SELL' }, 10)).entries).toEqual([]);
+    expect((await store.loadHistory('demo', { orderType: 'MARKET' }, 10)).entries).toHaveLength(2);
+  });
+
+  it('writes each entry once however often it is committed', async () => {
+    const store = await withHistory([fill('a', 1)]);
+    await store.commit('demo', 1, { ...portfolio(0), version: 2 }, [fill('a', 1), fill('b', 2)]);
+
+    expect((await store.loadHistory('demo', {}, 10)).entries.map(e => e.id)).toEqual(['b', 'a']);
+  });
+
+  it('leaves history alone when the version check fails', async () => {
+    const store = await withHistory([]);
+    await store.commit('demo', 0, portfolio(0), [fill('a', 1)]);
+
+    expect((await store.loadHistory('demo', {}, 10)).entries).toEqual([]);
+  });
+});
+
+describe('catalog', () => {
+  it('falls back to the default catalog while none is stored', () => {
+    const seen: AssetListing[][] = [];
+    const unsubscribe = createMemoryStore().subscribeCatalog(listings => seen.push(listings));
+    unsubscribe();
+
+    expect(seen).toEqual([DEFAULT_ASSET_CATALOG]);
+  });
+});
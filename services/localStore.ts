@@ -0,0 +1,169 @@
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_ASSET_CATALOG } from '../constants';
+import { Portfolio, PortfolioStore, StoreUser, HistoryEntry, HistoryFilter, AssetListing } from '../types';
+
+const DEMO_USER_KEY = 'veggietrade:demo-user';
+const CATALOG_KEY = 'veggietrade:catalog';
+
+const portfolioKey = (userId: string) => `veggietrade:${userId}:portfolio`;
+const historyKey = (userId: string) => `veggietrade:${userId}:history`;
+
+// Stored copies are always clones, so callers can't mutate what's kept
+const copy = (portfolio: Portfolio): Portfolio => JSON.parse(JSON.stringify(portfolio));
+
+const matchesFilter = (entry: HistoryEntry, filter: HistoryFilter) =>
+  (!filter.assetId || entry.assetId === filter.assetId) &&
+  (!filter.side || entry.side === filter.side) &&
+  (!filter.orderType || entry.orderType === filter.orderType);
+
+// Newest first, ties broken by id descending, the same order Firestore pages in
+const newestFirst = (a: { time: number; id: string }, b: { time: number; id: string }) =>
+  b.time - a.time || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+interface SnapshotBackend {
+  read: (key: string) => string | null;
+  write: (key: string, value: string) => void;
+  // Reports keys changed from outside the store (other tabs); optional
+  watch?: (onChange: (key: string) => void) => void;
+}
+
+/**
+ * Store on top of a string key-value backend. Subscribers of a user hear
+ * about every write to that user's portfolio, from this store or (through
+ * `watch`) from outside it.
+ */
+const createSnapshotStore = (
+  name: string,
+  backend: SnapshotBackend,
+  demoUser: () => StoreUser
+): PortfolioStore => {
+  const listeners = new Map<string, Set<(data: Portfolio) => void>>();
+  const catalogListeners = new Set<(listings: AssetListing[]) => void>();
+
+  const readCatalog = (): AssetListing[] => {
+    const raw = backend.read(CATALOG_KEY);
+    return raw ? JSON.parse(raw) as AssetListing[] : DEFAULT_ASSET_CATALOG;
+  };
+
+  const read = (userId: string): Portfolio | null => {
+    const raw = backend.read(portfolioKey(userId));
+    return raw ? JSON.parse(raw) as Portfolio : null;
+  };
+
+  const notify = (userId: string) => {
+    const data = read(userId);
+    if (data) listeners.get(userId)?.forEach(listener => listener(copy(data)));
+  };
+
+  backend.watch?.(key => {
+    if (key === CATALOG_KEY) catalogListeners.forEach(listener => listener(readCatalog()));
+    listeners.forEach((_, userId) => {
+      if (key === portfolioKey(userId)) notify(userId);
+    });
+  });
+
+  const readHistory = (userId: string): HistoryEntry[] => {
+    const raw = backend.read(historyKey(userId));
+    return raw ? JSON.parse(raw) as HistoryEntry[] : [];
+  };
+
+  const readOrCreate = (userId: string): Portfolio => {
+    const existing = read(userId);
+    if (existing) return existing;
+    backend.write(portfolioKey(userId), JSON.stringify(DEFAULT_PORTFOLIO_DATA));
+    return copy(DEFAULT_PORTFOLIO_DATA);
+  };
+
+  return {
+    name,
+    authenticate: async () => demoUser(),
+    subscribe: (userId, onUpdate) => {
+      if (!listeners.has(userId)) listeners.set(userId, new Set());
+      listeners.get(userId)!.add(onUpdate);
+      onUpdate(readOrCreate(userId));
+
+      return () => {
+        listeners.get(userId)?.delete(onUpdate);
+      };
+    },
+    load: async userId => readOrCreate(userId),
+    // Check and write run synchronously back to back, leaving no gap for
+    // another writer in this page to slip in
+    commit: async (userId, expectedVersion, portfolio, history) => {
+      if ((readOrCreate(userId).version || 0) !== expectedVersion) return false;
+      if (history.length > 0) {
+        const known = new Set(history.map(entry => entry.id));
+        const kept = readHistory(userId).filter(entry => !known.has(entry.id));
+        backend.write(historyKey(userId), JSON.stringify([...kept, ...history]));
+      }
+      backend.write(portfolioKey(userId), JSON.stringify(portfolio));
+      notify(userId);
+      return true;
+    },
+    loadHistory: async (userId, filter, pageSize, after) => {
+      const matching = readHistory(userId)
+        .filter(entry => matchesFilter(entry, filter))
+        .sort(newestFirst);
+      const start = after ? matching.findIndex(entry => newestFirst(after, entry) < 0) : 0;
+      const entries = start < 0 ? [] : matching.slice(start, start + pageSize);
+      const last = entries[entries.length - 1];
+      return {
+        entries,
+        next: entries.length === pageSize && start + pageSize < matching.length
+          ? { time: last.time, id: last.id }
+          : null
+      };
+    },
+    // The catalog is edited outside the app, e.g. from the console or another
+    // tab, so only `watch` reports changes to it
+    subscribeCatalog: onUpdate => {
+      catalogListeners.add(onUpdate);
+      onUpdate(readCatalog());
+      return () => {
+        catalogListeners.delete(onUpdate);
+      };
+    }
+  };
+};
+
+/**
+ * Persists portfolios in the browser's localStorage under a demo user that
+ * is created once and then reused, so a reload keeps the same portfolio.
+ * Writes from other tabs reach subscribers through the `storage` event.
+ */
+export const createLocalStorageStore = (storage: Storage = window.localStorage): PortfolioStore =>
+  createSnapshotStore(
+    'Local storage',
+    {
+      read: key => storage.getItem(key),
+      write: (key, value) => storage.setItem(key, value),
+      watch: onChange => window.addEventListener('storage', e => {
+        if (e.storageArea === storage && e.key) onChange(e.key);
+      })
+    },
+    () => {
+      let uid = storage.getItem(DEMO_USER_KEY);
+      if (!uid) {
+        uid = `demo-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+        storage.setItem(DEMO_USER_KEY, uid);
+      }
+      return { uid };
+    }
+  );
+
+/**
+ * Keeps portfolios in memory only; nothing survives a reload. Meant for tests
+ * and for browsers where storage is unavailable.
+ */
+export const createMemoryStore = (initial: Record<string, Portfolio> = {}): PortfolioStore => {
+  const entries = new Map<string, string>(
+    Object.entries(initial).map(([userId, portfolio]) => [portfolioKey(userId), JSON.stringify(portfolio)])
+  );
+  return createSnapshotStore(
+    'Memory',
+    {
+      read: key => entries.get(key) ?? null,
+      write: (key, value) => { entries.set(key, value); }
+    },
+    () => ({ uid: 'demo' })
+  );
+};
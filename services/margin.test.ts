@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { Asset, Holding, MarginConfig, Portfolio } from '../types';
+import { DEFAULT_PORTFOLIO_DATA } from '../constants';
+import { positionOf, marginStatus, liquidationPrice, marginInterest } from './margin';
+
+const config: MarginConfig = { initialMargin: 0.5, maintenanceMargin: 0.25, interestRatePerTick: 0.001 };
+
+const asset = (id: string, current_price: number): Asset => ({
+  id,
+  name: id,
+  icon: '',
+  initial_price: current_price,
+  category: 'Vegetable',
+  tickSize: 0.01,
+  lotSize: 1,
+  status: 'TRADING',
+  current_price,
+  history: [],
+  candles: [],
+  change24h: 0
+});
+
+const assets = [asset('TOM', 10), asset('CAR', 5)];
+
+// Free quantity can differ from the lots when units are escrowed
+const position = (quantity: number, unitCost: number, free = quantity): Holding => ({
+  quantity: free,
+  avgCost: unitCost,
+  lots: [{ id: 'lot', quantity, unitCost, acquiredAt: 0 }],
+  realizedPnl: 0
+});
+
+const account = (cashBalance: number, holdings: Record<string, Holding>): Portfolio => ({
+  ...DEFAULT_PORTFOLIO_DATA,
+  cashBalance,
+  holdings,
+  accountType: 'MARGIN'
+});
+
+describe('positionOf', () => {
+  it('counts escrowed units and signs shorts', () => {
+    const portfolio = account(0, { TOM: position(100, 8, 60), CAR: position(-20, 6) });
+
+    expect(positionOf(portfolio, 'TOM')).toBe(100);
+    expect(positionOf(portfolio, 'CAR')).toBe(-20);
+    expect(positionOf(portfolio, 'BRO')).toBe(0);
+  });
+});
+
+describe('marginStatus', () => {
+  it('nets longs and shorts into equity and grosses them into exposure', () => {
+    const status = marginStatus(account(500, { TOM: position(100, 8), CAR: position(-20, 6) }), assets, config, 50);
+
+    expect(status.equity).toBe(500 + 50 + 1000 - 100);
+    expect(status.grossExposure).toBe(1100);
+    expect(status.marginUsed).toBe(550);
+    expect(status.maintenanceRequirement).toBe(275);
+    expect(status.buyingPower).toBe((1450 - 550) / 0.5);
+  });
+
+  it('never reports negative buying power', () => {
+    expect(marginStatus(account(-900, { TOM: position(100, 8) }), assets, config, 0).buyingPower).toBe(0);
+  });
+});
+
+describe('liquidationPrice', () => {
+  it('finds where a leveraged long meets maintenance', () => {
+    const portfolio = account(-500, { TOM: position(150, 10) });
+    const price = liquidationPrice(portfolio, assets, config, 0, 'TOM') as number;
+
+    expect(price).toBeCloseTo(500 / (150 - 150 * 0.25));
+    expect(marginStatus(portfolio, [asset('TOM', price)], config, 0).equity)
+      .toBeCloseTo(150 * price * 0.25);
+  });
+
+  it('finds where a short meets maintenance', () => {
+    const portfolio = account(1500, { TOM: position(-50, 10) });
+
+    expect(liquidationPrice(portfolio, assets, config, 0, 'TOM')).toBeCloseTo(1500 / (50 + 50 * 0.25));
+  });
+
+  it('is null without a position or when no positive price gets there', () => {
+    expect(liquidationPrice(account(1000, {}), assets, config, 0, 'TOM')).toBeNull();
+    expect(liquidationPrice(account(1000, { TOM: position(10, 10) }), assets, config, 0, 'TOM')).toBeNull();
+  });
+});
+
+describe('marginInterest', () => {
+  it('charges borrowed cash and the value of short positions', () => {
+    const portfolio = account(-500, { TOM: position(150, 10), CAR: position(-20, 6) });
+
+    expect(marginInterest(portfolio, assets, config, 0)).toBeCloseTo((500 + 100) * 0.001);
+  });
+
+  it('charges nothing on a cash-positive long book', () => {
+    expect(marginInterest(account(100, { TOM: position(10, 10) }), assets, config, 0)).toBe(0);
+  });
+
+  it('counts cash escrowed for open BUYs back in', () => {
+    const portfolio = account(-500, { TOM: position(150, 10) });
+
+    expect(marginInterest(portfolio, assets, config, 300)).toBeCloseTo(200 * 0.001);
+    expect(marginInterest(portfolio, assets, config, 800)).toBe(0);
+  });
+});
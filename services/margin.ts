@@ -0,0 +1,83 @@
+import { Asset, Portfolio, MarginConfig, MarginStatus } from '../types';
+import { lotsQuantity } from './taxLots';
+
+// Signed units held, escrowed ones included; negative when short
+export const positionOf = (portfolio: Portfolio, assetId: string): number => {
+  const holding = portfolio.holdings[assetId];
+  return holding ? lotsQuantity(holding.lots || []) : 0;
+};
+
+const priceOf = (assets: Asset[], assetId: string) =>
+  assets.find(a => a.id === assetId)?.current_price || 0;
+
+/**
+ * Equity and margin figures for an account. `escrowedCash` is the cash held
+ * back by open BUY orders, which still belongs to the account.
+ */
+export const marginStatus = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  config: MarginConfig,
+  escrowedCash: number
+): MarginStatus => {
+  let positionValue = 0;
+  let grossExposure = 0;
+  Object.keys(portfolio.holdings).forEach(assetId => {
+    const value = positionOf(portfolio, assetId) * priceOf(assets, assetId);
+    positionValue += value;
+    grossExposure += Math.abs(value);
+  });
+
+  const equity = portfolio.cashBalance + escrowedCash + positionValue;
+  const marginUsed = grossExposure * config.initialMargin;
+  return {
+    equity,
+    grossExposure,
+    marginUsed,
+    maintenanceRequirement: grossExposure * config.maintenanceMargin,
+    buyingPower: Math.max(0, (equity - marginUsed) / config.initialMargin)
+  };
+};
+
+/**
+ * Price at which the account would hit maintenance if only this asset moved,
+ * or null when no positive price gets there.
+ */
+export const liquidationPrice = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  config: MarginConfig,
+  escrowedCash: number,
+  assetId: string
+): number | null => {
+  const quantity = positionOf(portfolio, assetId);
+  if (quantity === 0) return null;
+
+  const status = marginStatus(portfolio, assets, config, escrowedCash);
+  const price = priceOf(assets, assetId);
+  const otherRequirement = status.maintenanceRequirement - Math.abs(quantity) * price * config.maintenanceMargin;
+
+  // Solve equity(p) = requirement(p), where both move linearly with p
+  const equityWithoutPosition = status.equity - quantity * price;
+  const slope = quantity - Math.abs(quantity) * config.maintenanceMargin;
+  const liquidation = (otherRequirement - equityWithoutPosition) / slope;
+  return liquidation > 0 ? liquidation : null;
+};
+
+/**
+ * Interest owed for one tick on borrowed cash and on short position value.
+ * Cash escrowed for open BUY orders was taken out of the balance but never
+ * borrowed, so it is counted back in first.
+ */
+export const marginInterest = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  config: MarginConfig,
+  escrowedCash: number
+): number => {
+  const shortValue = Object.keys(portfolio.holdings).reduce((sum, assetId) => {
+    const quantity = positionOf(portfolio, assetId);
+    return quantity < 0 ? sum - quantity * priceOf(assets, assetId) : sum;
+  }, 0);
+  return (Math.max(0, -(portfolio.cashBalance + escrowedCash)) + shortValue) * config.interestRatePerTick;
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Asset, MarketEvent } from '../types';
+import { DEFAULT_ASSET_CATALOG } from '../constants';
+import { Rng } from './random';
+import { createMarketEvent, eventEffect } from './marketEvents';
+
+const NOW = 1_700_000_000_000;
+
+// Hands out the given uniforms in order
+const scripted = (...values: number[]): Rng => ({
+  next: () => values.shift() as number,
+  normal: () => 0
+});
+
+const listed = (id: string, overrides: Partial<Asset> = {}): Asset => {
+  const listing = DEFAULT_ASSET_CATALOG.find(a => a.id === id)!;
+  return {
+    ...listing,
+    current_price: listing.initial_price,
+    history: [],
+    candles: [],
+    change24h: 0,
+    ...overrides
+  };
+};
+
+// Tomato and Pepper are fruiting, Carrot is a root
+const assets = [listed('TOM'), listed('CAR'), listed('PEP')];
+
+const event = (fields: Partial<MarketEvent> = {}): MarketEvent => ({
+  id: 'e1',
+  kind: 'FROST',
+  time: NOW,
+  headline: '',
+  assetIds: ['TOM'],
+  impact: 0.1,
+  halfLifeMs: 1000,
+  volatilityMultiplier: 2,
+  volumeMultiplier: 3,
+  ...fields
+});
+
+describe('createMarketEvent', () => {
+  it('hits one asset with an impact drawn from the kind range', () => {
+    const frost = createMarketEvent('FROST', assets, scripted(0.5, 0.5), NOW);
+
+    expect(frost).toMatchObject({
+      id: `FROST-${NOW}`,
+      kind: 'FROST',
+      time: NOW,
+      headline: 'Late frost damages Carrot fields',
+      assetIds: ['CAR'],
+      halfLifeMs: 5 * 60 * 1000
+    });
+    expect(frost!.impact).toBeCloseTo(0.105);
+  });
+
+  it('hits the whole category of the picked asset', () => {
+    const drought = createMarketEvent('DROUGHT', assets, scripted(0, 0), NOW);
+
+    expect(drought).toMatchObject({ assetIds: ['TOM', 'PEP'], headline: 'Drought withers Tomato and Pepper crops', impact: 0.05 });
+  });
+
+  it('only picks trading assets', () => {
+    const halted = [listed('TOM', { status: 'HALTED' }), listed('CAR')];
+
+    expect(createMarketEvent('FROST', halted, scripted(0, 0), NOW)!.assetIds).toEqual(['CAR']);
+    expect(createMarketEvent('FROST', [halted[0]], scripted(0, 0), NOW)).toBeNull();
+  });
+});
+
+describe('eventEffect', () => {
+  it('is strongest when the event breaks and halves every half-life', () => {
+    expect(eventEffect([event()], 'TOM', NOW)).toEqual({ priceFactor: 1.1, volatility: 2, volume: 3 });
+
+    const later = eventEffect([event()], 'TOM', NOW + 1000);
+    expect(later.priceFactor).toBeCloseTo(1.05);
+    expect(later.volatility).toBeCloseTo(1.5);
+    expect(later.volume).toBeCloseTo(2);
+  });
+
+  it('ignores events on other assets or still to come', () => {
+    const none = { priceFactor: 1, volatility: 1, volume: 1 };
+
+    expect(eventEffect([event()], 'CAR', NOW)).toEqual(none);
+    expect(eventEffect([event()], 'TOM', NOW - 1)).toEqual(none);
+  });
+
+  it('compounds overlapping events', () => {
+    expect(eventEffect([event(), event({ id: 'e2' })], 'TOM', NOW).priceFactor).toBeCloseTo(1.21);
+  });
+});
@@ -0,0 +1,54 @@
+import { Asset, MarketEvent, MarketEventKind } from '../types';
+import { MARKET_EVENT_DEFINITIONS } from '../constants';
+import { Rng } from './random';
+
+// What the events still in play do to an asset at a given moment, as factors
+// on its undisturbed price, volatility and volume
+export interface MarketEventEffect {
+  priceFactor: number;
+  volatility: number;
+  volume: number;
+}
+
+const NO_EFFECT: MarketEventEffect = { priceFactor: 1, volatility: 1, volume: 1 };
+
+const listNames = (names: string[]) =>
+  names.length < 2 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+/**
+ * Draws an event of the given kind against one trading asset, or all trading
+ * assets in that asset's category for CATEGORY events. Returns null when
+ * nothing is trading.
+ */
+export const createMarketEvent = (kind: MarketEventKind, assets: Asset[], rng: Rng, now: number): MarketEvent | null => {
+  const definition = MARKET_EVENT_DEFINITIONS[kind];
+  const trading = assets.filter(a => a.status === 'TRADING');
+  if (trading.length === 0) return null;
+
+  const picked = trading[Math.floor(rng.next() * trading.length)];
+  const hit = definition.scope === 'CATEGORY' ? trading.filter(a => a.category === picked.category) : [picked];
+  const [min, max] = definition.impact;
+  return {
+    id: `${kind}-${now}`,
+    kind,
+    time: now,
+    headline: definition.headline.replace('{assets}', listNames(hit.map(a => a.name))),
+    assetIds: hit.map(a => a.id),
+    impact: min + rng.next() * (max - min),
+    halfLifeMs: definition.halfLifeMs,
+    volatilityMultiplier: definition.volatilityMultiplier,
+    volumeMultiplier: definition.volumeMultiplier
+  };
+};
+
+// Each event's pull fades by half every half-life; events that overlap compound
+export const eventEffect = (events: MarketEvent[], assetId: string, time: number): MarketEventEffect =>
+  events.reduce((effect, event) => {
+    if (event.time > time || !event.assetIds.includes(assetId)) return effect;
+    const strength = Math.pow(0.5, (time - event.time) / event.halfLifeMs);
+    return {
+      priceFactor: effect.priceFactor * (1 + event.impact * strength),
+      volatility: effect.volatility * (1 + (event.volatilityMultiplier - 1) * strength),
+      volume: effect.volume * (1 + (event.volumeMultiplier - 1) * strength)
+    };
+  }, NO_EFFECT);
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ASSET_CATALOG, HISTORY_POINTS, CANDLE_BASE_MS, MAX_CANDLES } from '../constants';
+import { createMarketSimulator } from './marketSimulator';
+
+const NOW = 1_700_000_000_000;
+
+const run = (seed: number, ticks: number) => {
+  const simulator = createMarketSimulator(seed);
+  let assets = simulator.initialAssets(DEFAULT_ASSET_CATALOG, NOW);
+  for (let i = 1; i <= ticks; i++) assets = simulator.tick(assets, NOW + i * 1500);
+  return assets;
+};
+
+describe('createMarketSimulator', () => {
+  it('lists every asset at its initial price with a flat history', () => {
+    const assets = createMarketSimulator(1).initialAssets(DEFAULT_ASSET_CATALOG, NOW);
+
+    expect(assets.map(a => a.id)).toEqual(DEFAULT_ASSET_CATALOG.map(a => a.id));
+    assets.forEach(asset => {
+      expect(asset.current_price).toBe(asset.initial_price);
+      expect(asset.history).toHaveLength(HISTORY_POINTS);
+      expect(asset.history.every(h => h.price === asset.initial_price)).toBe(true);
+    });
+  });
+
+  it('backfills a full run of base candles that ends at the listing price', () => {
+    const [asset] = createMarketSimulator(1).initialAssets(DEFAULT_ASSET_CATALOG, NOW);
+
+    expect(asset.candles).toHaveLength(MAX_CANDLES);
+    asset.candles.slice(1).forEach((candle, i) => expect(candle.time - asset.candles[i].time).toBe(CANDLE_BASE_MS));
+    asset.candles.forEach(candle => {
+      expect(candle.high).toBeGreaterThanOrEqual(Math.max(candle.open, candle.close));
+      expect(candle.low).toBeLessThanOrEqual(Math.min(candle.open, candle.close));
+    });
+    expect(asset.candles[MAX_CANDLES - 1].close).toBe(asset.initial_price);
+  });
+
+  it('replays the same market from the same seed', () => {
+    expect(run(5, 50)).toEqual(run(5, 50));
+    expect(run(5, 50).map(a => a.current_price)).not.toEqual(run(6, 50).map(a => a.current_price));
+  });
+
+  it('gives each asset its own stream', () => {
+    const simulator = createMarketSimulator(5);
+    const all = simulator.tick(simulator.initialAssets(DEFAULT_ASSET_CATALOG, NOW), NOW + 1500);
+    const alone = createMarketSimulator(5);
+    const tomato = alone.tick(alone.initialAssets(DEFAULT_ASSET_CATALOG, NOW).filter(a => a.id === 'TOM'), NOW + 1500);
+
+    expect(tomato[0].current_price).toBe(all.find(a => a.id === 'TOM')!.current_price);
+  });
+
+  it('rolls the history window and tracks the change over it', () => {
+    const [asset] = run(3, 1);
+
+    expect(asset.history).toHaveLength(HISTORY_POINTS);
+    expect(asset.history[HISTORY_POINTS - 1]).toMatchObject({ time: NOW + 1500, price: asset.current_price });
+    expect(asset.change24h).toBeCloseTo((asset.current_price - asset.history[0].price) / asset.history[0].price * 100);
+  });
+
+  it('folds every tick into the asset candles', () => {
+    const [asset] = run(3, 1);
+    const forming = asset.candles[asset.candles.length - 1];
+
+    expect(forming.close).toBe(asset.current_price);
+    expect(forming.high).toBeGreaterThanOrEqual(asset.current_price);
+    expect(forming.low).toBeLessThanOrEqual(asset.current_price);
+  });
+
+  it('holds the price of assets that are not trading', () => {
+    const simulator = createMarketSimulator(3);
+    const [tomato] = simulator.initialAssets(DEFAULT_ASSET_CATALOG, NOW);
+    const halted = { ...tomato, status: 'HALTED' as const };
+
+    expect(simulator.tick([halted], NOW + 1500)[0]).toBe(halted);
+  });
+});
+
+describe('market events', () => {
+  it('breaks scheduled events once their period has passed', () => {
+    const simulator = createMarketSimulator(2);
+    let assets = simulator.tick(simulator.initialAssets(DEFAULT_ASSET_CATALOG, NOW), NOW);
+    const seasonal = () => simulator.recentEvents().filter(e => e.kind === 'SEASONAL_DEMAND');
+    expect(seasonal()).toEqual([]);
+
+    assets = simulator.tick(assets, NOW + 30 * 60 * 1000);
+    expect(seasonal()).toMatchObject([{ time: NOW + 30 * 60 * 1000 }]);
+    const categories = new Set(seasonal()[0].assetIds.map(id => assets.find(a => a.id === id)!.category));
+    expect(categories.size).toBe(1);
+  });
+
+  it('replays the same events from the same seed', () => {
+    const replay = () => {
+      const simulator = createMarketSimulator(4);
+      let assets = simulator.initialAssets(DEFAULT_ASSET_CATALOG, NOW);
+      for (let i = 1; i <= 300; i++) assets = simulator.tick(assets, NOW + i * 1500);
+      return simulator.recentEvents();
+    };
+
+    expect(replay()).toEqual(replay());
+  });
+});
+
+describe('syncCatalog', () => {
+  const simulator = createMarketSimulator(1);
+  const [tomato, carrot] = DEFAULT_ASSET_CATALOG;
+
+  it('updates listings, delists dropped assets and lists new ones', () => {
+    const assets = simulator.tick(simulator.initialAssets([tomato, carrot], NOW), NOW + 1500);
+    const synced = simulator.syncCatalog(assets, [{ ...tomato, status: 'HALTED' }, DEFAULT_ASSET_CATALOG[2]], NOW + 3000);
+
+    expect(synced.map(a => [a.id, a.status])).toEqual([['TOM', 'HALTED'], ['CAR', 'DELISTED'], ['BRO', 'TRADING']]);
+    expect(synced[0].current_price).toBe(assets[0].current_price);
+    expect(synced[2].history).toHaveLength(HISTORY_POINTS);
+  });
+
+  it('switches to a changed price model on the next tick', () => {
+    const flat = { ...tomato, priceModel: { kind: 'GBM' as const, drift: 0, volatility: 0 } };
+    const moved = simulator.tick(simulator.initialAssets([tomato], NOW), NOW + 1500);
+    const [after] = simulator.tick(simulator.syncCatalog(moved, [flat], NOW + 1500), NOW + 3000);
+
+    expect(after.current_price).toBeCloseTo(moved[0].current_price);
+  });
+});
@@ -0,0 +1,182 @@
+import { Asset, AssetListing, Candle, MarketEvent, MarketEventKind } from '../types';
+import {
+  HISTORY_POINTS,
+  DEFAULT_PRICE_MODEL,
+  SIMULATION_INTERVAL_MS,
+  CANDLE_BASE_MS,
+  MAX_CANDLES,
+  MARKET_EVENT_DEFINITIONS,
+  MARKET_EVENT_PROBABILITY,
+  MAX_MARKET_EVENTS
+} from '../constants';
+import { createRng, Rng } from './random';
+import { createPriceModel, nextPrice, PriceModel } from './priceModels';
+import { generateOrderBook } from './orderBook';
+import { addTick, bucketStart } from './candles';
+import { createMarketEvent, eventEffect } from './marketEvents';
+
+// Deterministic market: given the same seed and the same tick timestamps,
+// every run produces the same prices, volumes and order books.
+
+export interface MarketSimulator {
+  initialAssets: (listings: AssetListing[], now: number) => Asset[];
+  // Applies a new catalog: listings update their asset's metadata, new ones
+  // start trading, and assets dropped from it count as delisted
+  syncCatalog: (assets: Asset[], listings: AssetListing[], now: number) => Asset[];
+  tick: (assets: Asset[], now: number) => Asset[];
+  // Events that broke during past ticks, newest first
+  recentEvents: () => MarketEvent[];
+}
+
+// FNV-1a, so each asset gets its own stream and adding one doesn't reshuffle the rest
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const simulatedVolume = (rng: Rng) => Math.floor(rng.next() * 2000) + 100;
+
+const TICKS_PER_CANDLE = Math.round(CANDLE_BASE_MS / SIMULATION_INTERVAL_MS);
+
+/**
+ * Simulated past for a newly listed asset: MAX_CANDLES base candles up to the
+ * one before `end`'s, run backwards from the listing price with the asset's
+ * own model so the newest close meets it. Longer intervals have a full
+ * history from the first render instead of forming in real time. The model
+ * steps once per candle, not per tick, so three days don't wander off as far
+ * as 170k ticks would; a second draw from the close gives the wick.
+ */
+const backfillCandles = (listing: AssetListing, end: number, rng: Rng): Candle[] => {
+  const model = createPriceModel(listing.priceModel || DEFAULT_PRICE_MODEL);
+  const newest = bucketStart(end, CANDLE_BASE_MS) - CANDLE_BASE_MS;
+  const candles: Candle[] = [];
+  let close = listing.initial_price;
+  for (let i = 0; i < MAX_CANDLES; i++) {
+    const open = nextPrice(model, close, rng);
+    const wick = nextPrice(model, close, rng);
+    candles.push({
+      time: newest - i * CANDLE_BASE_MS,
+      open,
+      high: Math.max(open, close, wick),
+      low: Math.min(open, close, wick),
+      close,
+      volume: simulatedVolume(rng) * TICKS_PER_CANDLE
+    });
+    close = open;
+  }
+  return candles.reverse();
+};
+
+export const createMarketSimulator = (seed: number): MarketSimulator => {
+  const streams = new Map<string, { rng: Rng; model: PriceModel; config: string }>();
+
+  // A catalog change to the asset's model swaps the model but keeps its rng,
+  // so the rest of the run stays reproducible
+  const streamFor = (asset: Pick<Asset, 'id' | 'priceModel'>) => {
+    const modelConfig = asset.priceModel || DEFAULT_PRICE_MODEL;
+    const config = JSON.stringify(modelConfig);
+    let stream = streams.get(asset.id);
+    if (!stream) {
+      stream = { rng: createRng(seed ^ hashString(asset.id)), model: createPriceModel(modelConfig), config };
+      streams.set(asset.id, stream);
+    } else if (stream.config !== config) {
+      stream.model = createPriceModel(modelConfig);
+      stream.config = config;
+    }
+    return stream;
+  };
+
+  // Events draw from their own stream so they don't shift any asset's prices
+  const eventRng = createRng(seed ^ hashString('market-events'));
+  const lastScheduled = new Map<MarketEventKind, number>();
+  let events: MarketEvent[] = [];
+
+  // Scheduled kinds first come round one period after the first tick
+  const breakEvents = (assets: Asset[], now: number) => {
+    const broken = (Object.keys(MARKET_EVENT_DEFINITIONS) as MarketEventKind[]).flatMap(kind => {
+      const { everyMs } = MARKET_EVENT_DEFINITIONS[kind];
+      if (everyMs) {
+        const last = lastScheduled.get(kind);
+        if (last === undefined) lastScheduled.set(kind, now);
+        if (last === undefined || now - last < everyMs) return [];
+        lastScheduled.set(kind, now);
+      } else if (eventRng.next() >= MARKET_EVENT_PROBABILITY) {
+        return [];
+      }
+      const event = createMarketEvent(kind, assets, eventRng, now);
+      return event ? [event] : [];
+    });
+    if (broken.length > 0) events = [...broken.reverse(), ...events].slice(0, MAX_MARKET_EVENTS);
+  };
+
+  // Uses its own throwaway stream so calling it twice (React StrictMode does)
+  // doesn't shift the tick sequence
+  const listAsset = (a: AssetListing, now: number): Asset => {
+    const rng = createRng(seed ^ hashString(a.id) ^ 0x9e3779b9);
+    const history = Array(HISTORY_POINTS).fill(0).map((_, i) => ({
+      time: now - (HISTORY_POINTS - i) * 1000,
+      price: a.initial_price,
+      volume: Math.floor(rng.next() * 1000)
+    }));
+    return {
+      ...a,
+      current_price: a.initial_price,
+      history,
+      candles: history.reduce((candles, h) => addTick(candles, h.time, h.price, h.volume), backfillCandles(a, history[0].time, rng)),
+      change24h: 0,
+      orderBook: generateOrderBook(a.initial_price, a, rng, now)
+    };
+  };
+
+  const initialAssets = (listings: AssetListing[], now: number): Asset[] =>
+    listings.map(listing => listAsset(listing, now));
+
+  const syncCatalog = (assets: Asset[], listings: AssetListing[], now: number): Asset[] => {
+    const byId = new Map(listings.map(listing => [listing.id, listing]));
+    const known = new Set(assets.map(asset => asset.id));
+    return [
+      ...assets.map(asset => {
+        const listing = byId.get(asset.id);
+        return listing ? { ...asset, ...listing } : { ...asset, status: 'DELISTED' as const };
+      }),
+      ...listings.filter(listing => !known.has(listing.id)).map(listing => listAsset(listing, now))
+    ];
+  };
+
+  // Only trading assets move; a halted or delisted one keeps its last price.
+  // Events widen the model's step and scale the price by how much their pull
+  // changed since the last tick, so a shock lands at once and then fades.
+  const tick = (assets: Asset[], now: number): Asset[] => {
+    breakEvents(assets, now);
+    return assets.map(asset => {
+      if (asset.status !== 'TRADING') return asset;
+      const { rng, model } = streamFor(asset);
+      const effect = eventEffect(events, asset.id, now);
+      const before = eventEffect(events, asset.id, asset.history[asset.history.length - 1].time);
+      const step = nextPrice(model, asset.current_price, rng) - asset.current_price;
+      const newPrice = Math.max(0.01, (asset.current_price + step * effect.volatility) * effect.priceFactor / before.priceFactor);
+      const volume = Math.round(simulatedVolume(rng) * effect.volume);
+
+      const newHistory = [...asset.history.slice(1), { time: now, price: newPrice, volume }];
+
+      const startPrice = newHistory[0].price;
+      const priceChange = ((newPrice - startPrice) / startPrice) * 100;
+
+      return {
+        ...asset,
+        current_price: newPrice,
+        history: newHistory,
+        candles: addTick(asset.candles, now, newPrice, volume),
+        change24h: priceChange,
+        // Liquidity is replenished around the new price every tick
+        orderBook: generateOrderBook(newPrice, asset, rng, now)
+      };
+    });
+  };
+
+  return { initialAssets, syncCatalog, tick, recentEvents: () => events };
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { EngineContext, EngineResult, InboxNotification, Portfolio } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_MARGIN_CONFIG, MAX_NOTIFICATIONS } from '../constants';
+import { deliverNotifications, markNotificationsRead, setToastCategory } from './notifications';
+
+const NOW = 1_700_000_000_000;
+
+let nextId = 0;
+const ctx = (now = NOW): EngineContext => ({
+  now,
+  generateId: () => `n-${++nextId}`,
+  feeSchedule: { makerRate: 0, takerRate: 0, minimumFee: 0 },
+  margin: DEFAULT_MARGIN_CONFIG
+});
+
+const inbox = (...notifications: InboxNotification[]): Portfolio => ({ ...DEFAULT_PORTFOLIO_DATA, notifications });
+
+const note = (id: string, read = false): InboxNotification =>
+  ({ id, time: NOW - 1000, category: 'SYSTEM', message: id, level: 'info', read });
+
+describe('deliverNotifications', () => {
+  it('files NOTIFICATION events newest first', () => {
+    nextId = 0;
+    const result: EngineResult = {
+      portfolio: inbox(note('old')),
+      events: [
+        { kind: 'REJECTED', reason: 'No' },
+        { kind: 'NOTIFICATION', message: 'first', level: 'success', category: 'FILL' },
+        { kind: 'NOTIFICATION', message: 'second', level: 'info' }
+      ]
+    };
+    const { portfolio, events } = deliverNotifications(result, ctx());
+
+    expect(portfolio.notifications).toEqual([
+      { id: 'n-2', time: NOW, category: 'SYSTEM', message: 'second', level: 'info', read: false },
+      { id: 'n-1', time: NOW, category: 'FILL', message: 'first', level: 'success', read: false },
+      note('old')
+    ]);
+    expect(events).toBe(result.events);
+  });
+
+  it('drops the oldest past MAX_NOTIFICATIONS', () => {
+    const full = inbox(...Array.from({ length: MAX_NOTIFICATIONS }, (_, i) => note(`n${i}`)));
+    const { portfolio } = deliverNotifications({
+      portfolio: full,
+      events: [{ kind: 'NOTIFICATION', message: 'new', level: 'info' }]
+    }, ctx());
+
+    expect(portfolio.notifications).toHaveLength(MAX_NOTIFICATIONS);
+    expect(portfolio.notifications[0].message).toBe('new');
+    expect(portfolio.notifications[MAX_NOTIFICATIONS - 1].id).toBe(`n${MAX_NOTIFICATIONS - 2}`);
+  });
+
+  it('leaves steps without notifications untouched', () => {
+    const result: EngineResult = { portfolio: inbox(), events: [{ kind: 'REJECTED', reason: 'No' }] };
+
+    expect(deliverNotifications(result, ctx())).toBe(result);
+  });
+});
+
+describe('markNotificationsRead', () => {
+  it('marks the given notifications', () => {
+    const { portfolio } = markNotificationsRead(inbox(note('a'), note('b')), ['b']);
+
+    expect(portfolio.notifications.map(n => n.read)).toEqual([false, true]);
+  });
+
+  it('marks everything without ids', () => {
+    const { portfolio } = markNotificationsRead(inbox(note('a'), note('b')));
+
+    expect(portfolio.notifications.every(n => n.read)).toBe(true);
+  });
+
+  it('returns the same portfolio when nothing changes', () => {
+    const start = inbox(note('a', true));
+
+    expect(markNotificationsRead(start).portfolio).toBe(start);
+  });
+});
+
+describe('setToastCategory', () => {
+  it('mutes one category and keeps the others', () => {
+    const { portfolio } = setToastCategory(inbox(), 'ALERT', false);
+
+    expect(portfolio.toastCategories).toEqual({ FILL: true, ALERT: false, REJECTION: true, SYSTEM: true });
+  });
+});
@@ -0,0 +1,49 @@
+import { Portfolio, InboxNotification, NotificationCategory, EngineContext, EngineResult } from '../types';
+import { MAX_NOTIFICATIONS } from '../constants';
+
+/**
+ * Files the NOTIFICATION events of an engine step in the portfolio's inbox,
+ * so they outlive their toasts. Steps without any come back untouched.
+ */
+export const deliverNotifications = (result: EngineResult, ctx: EngineContext): EngineResult => {
+  const incoming: InboxNotification[] = result.events.flatMap(event => event.kind === 'NOTIFICATION' ? [{
+    id: ctx.generateId(),
+    time: ctx.now,
+    category: event.category || 'SYSTEM',
+    message: event.message,
+    level: event.level,
+    read: false
+  }] : []);
+  if (incoming.length === 0) return result;
+
+  return {
+    portfolio: {
+      ...result.portfolio,
+      notifications: [...incoming.reverse(), ...(result.portfolio.notifications || [])].slice(0, MAX_NOTIFICATIONS)
+    },
+    events: result.events
+  };
+};
+
+/**
+ * Marks the given notifications read, or all of them without `ids`.
+ */
+export const markNotificationsRead = (portfolio: Portfolio, ids?: string[]): EngineResult => {
+  const notifications = portfolio.notifications || [];
+  const marks = (n: InboxNotification) => !n.read && (!ids || ids.includes(n.id));
+  if (!notifications.some(marks)) return { portfolio, events: [] };
+
+  return {
+    portfolio: { ...portfolio, notifications: notifications.map(n => marks(n) ? { ...n, read: true } : n) },
+    events: []
+  };
+};
+
+// Muted categories still reach the inbox, just without a toast
+export const setToastCategory = (portfolio: Portfolio, category: NotificationCategory, enabled: boolean): EngineResult => ({
+  portfolio: {
+    ...portfolio,
+    toastCategories: { ...portfolio.toastCategories, [category]: enabled }
+  },
+  events: []
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { OrderBook, OrderBookItem } from '../types';
+import { ORDER_BOOK_LEVELS } from '../constants';
+import { createRng } from './random';
+import { generateOrderBook, midPrice, walkBook, quoteMarketOrder } from './orderBook';
+
+const NOW = 1_700_000_000_000;
+
+const CENTS = { tickSize: 0.01, lotSize: 1 };
+
+const item = (price: number, size: number): OrderBookItem => ({ price, size, total: price * size });
+
+// 10.00 mid: asks 10.01 x 10, 10.02 x 20; bids 9.99 x 10, 9.98 x 20
+const book = (): OrderBook => ({
+  asks: [item(10.01, 10), item(10.02, 20)],
+  bids: [item(9.99, 10), item(9.98, 20)],
+  timestamp: NOW
+});
+
+describe('generateOrderBook', () => {
+  it('builds sorted levels on both sides of the mid price', () => {
+    const generated = generateOrderBook(10, CENTS, createRng(1), NOW);
+
+    expect(generated.asks).toHaveLength(ORDER_BOOK_LEVELS);
+    expect(generated.bids).toHaveLength(ORDER_BOOK_LEVELS);
+    expect(generated.asks[0].price).toBeGreaterThan(10);
+    expect(generated.bids[0].price).toBeLessThan(10);
+    generated.asks.slice(1).forEach((ask, i) => expect(ask.price).toBeGreaterThan(generated.asks[i].price));
+    generated.bids.slice(1).forEach((bid, i) => expect(bid.price).toBeLessThan(generated.bids[i].price));
+    expect(generated.timestamp).toBe(NOW);
+  });
+
+  it('keeps levels a tick apart for cheap assets', () => {
+    const generated = generateOrderBook(0.5, CENTS, createRng(1), NOW);
+
+    generated.asks.slice(1).forEach((ask, i) => expect(ask.price - generated.asks[i].price).toBeGreaterThanOrEqual(0.01 - 1e-9));
+    expect(generated.bids.every(bid => bid.price >= 0.01)).toBe(true);
+  });
+
+  it('puts levels on the listing tick and lot grid', () => {
+    const generated = generateOrderBook(10, { tickSize: 0.05, lotSize: 25 }, createRng(1), NOW);
+
+    [...generated.asks, ...generated.bids].forEach(level => {
+      expect(Math.abs(level.price / 0.05 - Math.round(level.price / 0.05))).toBeLessThan(1e-6);
+      expect(level.size % 25).toBe(0);
+      expect(level.size).toBeGreaterThan(0);
+    });
+  });
+
+  it('is reproducible from the seed', () => {
+    expect(generateOrderBook(10, CENTS, createRng(3), NOW)).toEqual(generateOrderBook(10, CENTS, createRng(3), NOW));
+  });
+});
+
+describe('midPrice', () => {
+  it('averages the best bid and ask', () => {
+    expect(midPrice(book())).toBeCloseTo(10);
+  });
+
+  it('falls back to whichever side is left', () => {
+    expect(midPrice({ ...book(), bids: [] })).toBe(10.01);
+    expect(midPrice({ asks: [], bids: [], timestamp: NOW })).toBe(0);
+  });
+});
+
+describe('walkBook', () => {
+  it('fills a BUY at the volume-weighted ask and consumes the levels', () => {
+    const { quote, book: after } = walkBook(book(), 'BUY', 15);
+
+    expect(quote.filledQuantity).toBe(15);
+    expect(quote.avgPrice).toBeCloseTo((10 * 10.01 + 5 * 10.02) / 15);
+    expect(quote.slippage).toBeGreaterThan(0);
+    expect(after.asks).toEqual([item(10.02, 15)]);
+    expect(after.bids).toEqual(book().bids);
+  });
+
+  it('fills a SELL against the bids', () => {
+    const { quote, book: after } = walkBook(book(), 'SELL', 10);
+
+    expect(quote.avgPrice).toBeCloseTo(9.99);
+    expect(after.bids).toEqual([item(9.98, 20)]);
+  });
+
+  it('reports a partial fill when the book runs dry', () => {
+    const { quote, book: after } = walkBook(book(), 'BUY', 50);
+
+    expect(quote.filledQuantity).toBe(30);
+    expect(after.asks).toEqual([]);
+  });
+
+  it('quotes without consuming anything', () => {
+    const original = book();
+    expect(quoteMarketOrder(original, 'BUY', 15)).toEqual(walkBook(original, 'BUY', 15).quote);
+    expect(original).toEqual(book());
+  });
+});
@@ -0,0 +1,90 @@
+import { AssetListing, OrderBook, OrderBookItem, OrderSide, MarketQuote } from '../types';
+import { ORDER_BOOK_LEVELS, ORDER_BOOK_HALF_SPREAD, ORDER_BOOK_LEVEL_STEP } from '../constants';
+import { Rng } from './random';
+
+const level = (price: number, size: number): OrderBookItem => ({ price, size, total: price * size });
+
+/**
+ * Builds synthetic liquidity around a mid price. Depth grows away from the
+ * touch so small orders barely move the price and large ones pay for it.
+ * Levels sit on the listing's tick grid and hold whole lots, so orders that
+ * walk the book fill on the same grid the engine enforces for submissions.
+ */
+export const generateOrderBook = (
+  midPrice: number,
+  listing: Pick<AssetListing, 'tickSize' | 'lotSize'>,
+  rng: Rng,
+  timestamp: number
+): OrderBook => {
+  const { tickSize, lotSize } = listing;
+  const roundToTick = (price: number) => Math.round(price / tickSize) * tickSize;
+  const lots = (size: number) => Math.max(1, Math.floor(size / lotSize)) * lotSize;
+  const asks: OrderBookItem[] = [];
+  const bids: OrderBookItem[] = [];
+
+  for (let i = 0; i < ORDER_BOOK_LEVELS; i++) {
+    const offset = ORDER_BOOK_HALF_SPREAD + ORDER_BOOK_LEVEL_STEP * i;
+    const depthFactor = 1 + i * 0.3;
+
+    // Keep levels strictly ordered even when rounding would collapse them
+    const askPrice = Math.max(roundToTick(midPrice * (1 + offset)), i > 0 ? asks[i - 1].price + tickSize : tickSize);
+    const bidPrice = Math.min(roundToTick(midPrice * (1 - offset)), i > 0 ? bids[i - 1].price - tickSize : Infinity);
+
+    asks.push(level(askPrice, lots((rng.next() * 80 + 20) * depthFactor)));
+    if (bidPrice >= tickSize) {
+      bids.push(level(bidPrice, lots((rng.next() * 80 + 20) * depthFactor)));
+    }
+  }
+
+  return { asks, bids, timestamp };
+};
+
+export const midPrice = (book: OrderBook) => {
+  if (!book.asks.length || !book.bids.length) {
+    return book.asks[0]?.price ?? book.bids[0]?.price ?? 0;
+  }
+  return (book.asks[0].price + book.bids[0].price) / 2;
+};
+
+/**
+ * Walks the opposite side of the book for a market order. Returns what can be
+ * filled (possibly less than asked if the book runs dry) and the book left behind.
+ */
+export const walkBook = (
+  book: OrderBook,
+  side: OrderSide,
+  quantity: number
+): { quote: MarketQuote; book: OrderBook } => {
+  const levels = side === 'BUY' ? book.asks : book.bids;
+  const remainingLevels: OrderBookItem[] = [];
+  let remaining = quantity;
+  let notional = 0;
+
+  levels.forEach(item => {
+    if (remaining <= 0) {
+      remainingLevels.push(item);
+      return;
+    }
+    const take = Math.min(item.size, remaining);
+    remaining -= take;
+    notional += take * item.price;
+    if (take < item.size) remainingLevels.push(level(item.price, item.size - take));
+  });
+
+  const filledQuantity = quantity - remaining;
+  const avgPrice = filledQuantity > 0 ? notional / filledQuantity : 0;
+  const mid = midPrice(book);
+  const slippage = filledQuantity > 0 && mid > 0
+    ? (side === 'BUY' ? avgPrice - mid : mid - avgPrice) / mid
+    : 0;
+
+  return {
+    quote: { filledQuantity, notional, avgPrice, slippage },
+    book: side === 'BUY'
+      ? { ...book, asks: remainingLevels }
+      : { ...book, bids: remainingLevels }
+  };
+};
+
+export const quoteMarketOrder = (book: OrderBook, side: OrderSide, quantity: number): MarketQuote =>
+  walkBook(book, side, quantity).quote;
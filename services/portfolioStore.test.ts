@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AssetListing, EngineResult, Portfolio, Transaction } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, MAX_COMMIT_ATTEMPTS } from '../constants';
+import { portfolioStore, normalizePortfolio, normalizeListing, mutatePortfolio, loadHistory, loadFills } from './portfolioStore';
+
+// Outside a browser the store falls back to memory, so every test gets its own user
+let nextUser = 0;
+const freshUser = () => `user-${++nextUser}`;
+
+const deposit = (amount: number) => (current: Portfolio): EngineResult => ({
+  portfolio: { ...current, cashBalance: current.cashBalance + amount },
+  events: [{ kind: 'NOTIFICATION', message: 'Deposited', level: 'success' }]
+});
+
+const fill = (id: string, timestamp: number, fee = 0): Transaction => ({
+  id,
+  type: 'BUY',
+  assetId: 'TOM',
+  assetName: 'Tomato',
+  quantity: 10,
+  price: 10,
+  timestamp,
+  orderType: 'MARKET',
+  fee
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('normalizePortfolio', () => {
+  it('fills in fields that older documents lack', () => {
+    const legacy = {
+      cashBalance: 50,
+      holdings: { TOM: { quantity: 2, avgCost: 9 } },
+      transactions: [],
+      openOrders: [{ id: 'o1', assetId: 'TOM', type: 'BUY', quantity: 1, targetPrice: 9, timestamp: 0 }]
+    } as unknown as Portfolio;
+    const normalized = normalizePortfolio(legacy);
+
+    expect(normalized).toMatchObject({ cashBalance: 50, closedOrders: [], version: 0, accountType: 'CASH' });
+    expect(normalized.holdings.TOM.lots).toHaveLength(1);
+    expect(normalized.openOrders[0]).toMatchObject({ status: 'OPEN', filledQuantity: 0 });
+  });
+
+  it('rebuilds fee and volume totals from legacy transactions', () => {
+    const legacy = {
+      cashBalance: 50,
+      transactions: [fill('t1', 1_700_000_000_000, 0.5), fill('t2', 1_700_000_000_001, 0.25)]
+    } as unknown as Portfolio;
+    const normalized = normalizePortfolio(legacy);
+
+    expect(normalized.feesPaid).toBe(0.75);
+    expect(Object.values(normalized.volumeByDay)).toEqual([200]);
+    expect(normalized.transactions).toHaveLength(2);
+  });
+});
+
+describe('mutatePortfolio', () => {
+  it('commits the step and bumps the version', async () => {
+    const userId = freshUser();
+    const outcome = await mutatePortfolio(userId, deposit(10));
+
+    expect(outcome.status).toBe('COMMITTED');
+    expect(outcome.events).toHaveLength(1);
+    expect(outcome.portfolio).toMatchObject({ cashBalance: DEFAULT_PORTFOLIO_DATA.cashBalance + 10, version: 1 });
+    expect(await portfolioStore.load(userId)).toMatchObject({ version: 1 });
+  });
+
+  it('moves fills and finished orders into history and stores neither', async () => {
+    const userId = freshUser();
+    const outcome = await mutatePortfolio(userId, current => ({
+      portfolio: { ...current, transactions: [fill('t1', 5)] },
+      events: []
+    }));
+
+    expect(outcome.portfolio).toMatchObject({ transactions: [], closedOrders: [], lastHistoryId: 'fill-t1' });
+    expect((await loadHistory(userId, {})).entries).toMatchObject([{ id: 'fill-t1', kind: 'FILL', time: 5 }]);
+  });
+
+  it('keeps the last history id when a commit adds no history', async () => {
+    const userId = freshUser();
+    await mutatePortfolio(userId, current => ({ portfolio: { ...current, transactions: [fill('t1', 5)] }, events: [] }));
+    const outcome = await mutatePortfolio(userId, deposit(10));
+
+    expect(outcome.portfolio).toMatchObject({ lastHistoryId: 'fill-t1', version: 2 });
+  });
+
+  it('commits no undefined fields', async () => {
+    const userId = freshUser();
+    const outcome = await mutatePortfolio(userId, current => ({
+      portfolio: { ...current, cashBalance: 1, pendingCleanup: undefined } as Portfolio,
+      events: []
+    }));
+
+    expect(outcome.portfolio).not.toHaveProperty('pendingCleanup');
+  });
+
+  it('writes nothing when the step leaves the portfolio as it was', async () => {
+    const userId = freshUser();
+    const outcome = await mutatePortfolio(userId, current => ({ portfolio: current, events: [] }));
+
+    expect(outcome.status).toBe('UNCHANGED');
+    expect((await portfolioStore.load(userId)).version || 0).toBe(0);
+  });
+
+  it('re-runs the step on the fresh copy after losing a race', async () => {
+    vi.useFakeTimers();
+    const userId = freshUser();
+    const retries: number[] = [];
+    let raced = false;
+
+    const pending = mutatePortfolio(userId, current => {
+      if (!raced) {
+        raced = true;
+        // Another writer lands between this read and the commit
+        portfolioStore.commit(userId, 0, { ...current, cashBalance: 0, version: 1 }, []);
+      }
+      return deposit(10)(current);
+    }, attempt => retries.push(attempt));
+    await vi.runAllTimersAsync();
+    const outcome = await pending;
+
+    expect(outcome.status).toBe('COMMITTED');
+    expect(outcome.portfolio).toMatchObject({ cashBalance: 10, version: 2 });
+    expect(retries).toEqual([1]);
+  });
+
+  it('gives up after MAX_COMMIT_ATTEMPTS lost races', async () => {
+    vi.useFakeTimers();
+    const userId = freshUser();
+    let attempts = 0;
+
+    const pending = mutatePortfolio(userId, current => {
+      attempts++;
+      portfolioStore.commit(userId, current.version, { ...current, version: current.version + 1 }, []);
+      return deposit(10)(current);
+    });
+    await vi.runAllTimersAsync();
+
+    expect(await pending).toEqual({ status: 'CONFLICT', events: [] });
+    expect(attempts).toBe(MAX_COMMIT_ATTEMPTS);
+  });
+
+  it('reports a failing step as an error', async () => {
+    const outcome = await mutatePortfolio(freshUser(), () => {
+      throw new Error('boom');
+    });
+
+    expect(outcome).toEqual({ status: 'ERROR', events: [], error: 'boom' });
+  });
+});
+
+describe('loadFills', () => {
+  // Three pages of TOM fills at times 1 to 45, and one carrot fill
+  const seeded = async () => {
+    const userId = freshUser();
+    const fills = Array.from({ length: 45 }, (_, i) => fill(`t${i + 1}`, i + 1));
+    await mutatePortfolio(userId, current => ({
+      portfolio: { ...current, transactions: [...fills, { ...fill('c1', 50), assetId: 'CAR' }] },
+      events: []
+    }));
+    return userId;
+  };
+
+  it('reads every page, newest first', async () => {
+    const fills = await loadFills(await seeded(), 'TOM');
+
+    expect(fills).toHaveLength(45);
+    expect(fills[0].id).toBe('t45');
+    expect(fills.at(-1)?.id).toBe('t1');
+  });
+
+  it('stops at fills older than since', async () => {
+    const userId = await seeded();
+
+    expect((await loadFills(userId, 'TOM', 40)).map(tx => tx.id)).toEqual(['t45', 't44', 't43', 't42', 't41', 't40']);
+    expect((await loadFills(userId, undefined, 45)).map(tx => tx.id)).toEqual(['c1', 't45']);
+  });
+});
+
+describe('normalizeListing', () => {
+  it('fills in what a hand-written catalog entry leaves out', () => {
+    const listing = { id: 'KAL', name: 'Kale', initial_price: 4 } as AssetListing;
+
+    expect(normalizeListing(listing)).toEqual({
+      ...listing,
+      icon: '🥬',
+      category: 'Other',
+      tickSize: 0.01,
+      lotSize: 1,
+      status: 'TRADING'
+    });
+  });
+});
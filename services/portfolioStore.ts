@@ -0,0 +1,186 @@
+import {
+  Portfolio, PortfolioStore, PortfolioStoreKind, EngineResult, CommitOutcome,
+  HistoryEntry, HistoryFilter, HistoryCursor, Transaction, AssetListing
+} from '../types';
+import { DEFAULT_PORTFOLIO_DATA, MAX_COMMIT_ATTEMPTS, COMMIT_RETRY_DELAY_MS, HISTORY_PAGE_SIZE } from '../constants';
+import { createFirestoreStore } from './firebaseService';
+import { createLocalStorageStore, createMemoryStore } from './localStore';
+import { normalizeOrder } from './tradingEngine';
+import { normalizeHolding } from './taxLots';
+import { recordVolume } from './fees';
+
+const localStorageAvailable = () => {
+  try {
+    const probe = 'veggietrade:probe';
+    window.localStorage.setItem(probe, probe);
+    window.localStorage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Picks the backend once at startup: the one asked for through
+ * `window.__portfolio_store`, otherwise Firestore when it is configured, then
+ * localStorage, then memory. A backend that isn't available falls through to
+ * the next one.
+ */
+const selectStore = (requested?: PortfolioStoreKind): PortfolioStore => {
+  if (requested !== 'local' && requested !== 'memory') {
+    const firestore = createFirestoreStore();
+    if (firestore) return firestore;
+  }
+  if (requested !== 'memory' && localStorageAvailable()) return createLocalStorageStore(window.localStorage);
+  return createMemoryStore();
+};
+
+export const portfolioStore: PortfolioStore = selectStore(
+  typeof window === 'undefined' ? 'memory' : window.__portfolio_store
+);
+
+if (portfolioStore.name !== 'Firestore') {
+  console.warn(`Firebase not configured. Keeping the portfolio in ${portfolioStore.name.toLowerCase()}.`);
+}
+
+export const authenticateUser = () => portfolioStore.authenticate();
+
+export const subscribeToPortfolio = (userId: string, onUpdate: (data: Portfolio) => void) =>
+  portfolioStore.subscribe(userId, onUpdate);
+
+// Fills in metadata a hand-written catalog entry may leave out
+export const normalizeListing = (listing: AssetListing): AssetListing => ({
+  ...listing,
+  icon: listing.icon || '🥬',
+  category: listing.category || 'Other',
+  tickSize: listing.tickSize || 0.01,
+  lotSize: listing.lotSize || 1,
+  status: listing.status || 'TRADING'
+});
+
+export const subscribeToCatalog = (onUpdate: (listings: AssetListing[]) => void) =>
+  portfolioStore.subscribeCatalog(listings => onUpdate(listings.map(normalizeListing)));
+
+export const loadHistory = (userId: string, filter: HistoryFilter, after?: HistoryCursor) =>
+  portfolioStore.loadHistory(userId, filter, HISTORY_PAGE_SIZE, after);
+
+// Every page, newest first. For exports; the UI pages as it scrolls.
+export const loadAllHistory = async (userId: string, filter: HistoryFilter = {}): Promise<HistoryEntry[]> => {
+  const entries: HistoryEntry[] = [];
+  let after: HistoryCursor | undefined;
+  do {
+    const page = await loadHistory(userId, filter, after);
+    entries.push(...page.entries);
+    after = page.next || undefined;
+  } while (after);
+  return entries;
+};
+
+// Fills back to `since`, newest first, for one asset or all of them. Paging
+// stops at the first page that reaches past `since`, so asking for what came
+// after the newest known fill usually costs one read.
+export const loadFills = async (userId: string, assetId?: string, since = 0): Promise<Transaction[]> => {
+  const fills: Transaction[] = [];
+  let after: HistoryCursor | undefined;
+  do {
+    const page = await loadHistory(userId, { assetId }, after);
+    fills.push(...page.entries.flatMap(entry => entry.kind === 'FILL' && entry.time >= since ? [entry.transaction] : []));
+    const oldest = page.entries[page.entries.length - 1];
+    after = page.next && oldest.time >= since ? page.next : undefined;
+  } while (after);
+  return fills;
+};
+
+// Documents from before history moved out still carry every fill; the
+// running totals are rebuilt from them once
+const legacyVolume = (transactions: Transaction[]) =>
+  [...transactions]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .reduce((volume, tx) => recordVolume(volume, tx.timestamp, tx.quantity * tx.price), {} as Record<string, number>);
+
+/**
+ * Merges stored data with defaults so documents written by older versions
+ * (or partially) don't crash the app. Legacy transactions and closed orders
+ * are kept, so the next commit moves them into history.
+ */
+export const normalizePortfolio = (data: Portfolio): Portfolio => ({
+  ...DEFAULT_PORTFOLIO_DATA,
+  ...data,
+  feesPaid: data.feesPaid ?? (data.transactions || []).reduce((sum, tx) => sum + (tx.fee || 0), 0),
+  volumeByDay: data.volumeByDay ?? legacyVolume(data.transactions || []),
+  holdings: Object.fromEntries(
+    Object.entries(data.holdings || DEFAULT_PORTFOLIO_DATA.holdings).map(([id, h]) => [id, normalizeHolding(h)])
+  ),
+  transactions: data.transactions || [],
+  openOrders: (data.openOrders || []).map(normalizeOrder),
+  closedOrders: data.closedOrders || [],
+  version: data.version || 0
+});
+
+// Firestore rejects undefined fields, so whatever is committed goes through a
+// JSON round trip first
+const withoutUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const historyOf = (portfolio: Portfolio): HistoryEntry[] => withoutUndefined([
+  ...portfolio.transactions.map((transaction): HistoryEntry => ({
+    id: `fill-${transaction.id}`,
+    time: transaction.timestamp,
+    assetId: transaction.assetId,
+    side: transaction.type,
+    orderType: transaction.orderType,
+    kind: 'FILL',
+    transaction
+  })),
+  ...portfolio.closedOrders.map((order): HistoryEntry => ({
+    id: `order-${order.id}`,
+    time: order.closedAt || order.timestamp,
+    assetId: order.assetId,
+    side: order.type,
+    orderType: order.orderType,
+    kind: 'ORDER',
+    order
+  }))
+]);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Applies `step` to the latest stored portfolio and commits the result under
+ * a version check. When another writer (a fill, another tab) got there first,
+ * the step is re-run on the fresh copy, up to MAX_COMMIT_ATTEMPTS times, so
+ * no write is ever based on a stale read. `onRetry` reports each lost race.
+ * Fills and finished orders from the step are committed to history alongside
+ * the portfolio, which keeps neither.
+ */
+export const mutatePortfolio = async (
+  userId: string,
+  step: (current: Portfolio) => EngineResult,
+  onRetry?: (attempt: number) => void
+): Promise<CommitOutcome> => {
+  for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+    try {
+      const current = normalizePortfolio(await portfolioStore.load(userId));
+      const result = step(current);
+      if (result.portfolio === current) return { status: 'UNCHANGED', events: result.events };
+
+      const history = historyOf(result.portfolio);
+      const next = withoutUndefined({
+        ...result.portfolio,
+        transactions: [],
+        closedOrders: [],
+        lastHistoryId: history.length > 0 ? history[history.length - 1].id : current.lastHistoryId,
+        version: current.version + 1
+      });
+      if (await portfolioStore.commit(userId, current.version, next, history)) {
+        return { status: 'COMMITTED', events: result.events, portfolio: next };
+      }
+    } catch (error) {
+      return { status: 'ERROR', events: [], error: error instanceof Error ? error.message : String(error) };
+    }
+    if (attempt < MAX_COMMIT_ATTEMPTS) {
+      onRetry?.(attempt);
+      await wait(attempt * COMMIT_RETRY_DELAY_MS);
+    }
+  }
+  return { status: 'CONFLICT', events: [] };
+};
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { Asset, EngineContext, HistoryEntry, Holding, LimitOrder, Portfolio, PortfolioExport, Transaction } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_MARGIN_CONFIG, PORTFOLIO_EXPORT_VERSION } from '../constants';
+import { holdingsCsv, tradesCsv, exportPortfolio, parsePortfolioExport, importPortfolio } from './portfolioTransfer';
+
+const NOW = 1_700_000_000_000;
+
+const ctx = (now = NOW): EngineContext => ({
+  now,
+  generateId: () => 'id',
+  feeSchedule: { makerRate: 0, takerRate: 0, minimumFee: 0 },
+  margin: DEFAULT_MARGIN_CONFIG
+});
+
+const tomato: Asset = {
+  id: 'TOM',
+  name: 'Tomato',
+  icon: '🍅',
+  initial_price: 10,
+  category: 'Fruiting',
+  tickSize: 0.01,
+  lotSize: 1,
+  status: 'TRADING',
+  current_price: 10,
+  history: [],
+  candles: [],
+  change24h: 0
+};
+
+const holdingOf = (quantity: number, lotId = 'lot-1', free = quantity): Holding => ({
+  quantity: free,
+  avgCost: 8,
+  lots: [{ id: lotId, quantity, unitCost: 8, acquiredAt: NOW - 1000 }],
+  realizedPnl: 0
+});
+
+const account = (cashBalance = 1000, holdings: Record<string, Holding> = {}): Portfolio => ({
+  ...DEFAULT_PORTFOLIO_DATA,
+  cashBalance,
+  holdings
+});
+
+// Escrows 4 TOM
+const restingSell: LimitOrder = {
+  id: 'o1',
+  assetId: 'TOM',
+  type: 'SELL',
+  quantity: 4,
+  targetPrice: 12,
+  timestamp: NOW,
+  status: 'OPEN',
+  filledQuantity: 0,
+  avgFillPrice: 0,
+  orderType: 'LIMIT',
+  timeInForce: 'GTC',
+  feeRate: 0,
+  minimumFee: 0,
+  feesPaid: 0
+};
+
+const fill: Transaction = {
+  id: 'tx-1',
+  type: 'BUY',
+  assetId: 'TOM',
+  assetName: 'Tomato',
+  quantity: 10,
+  price: 8,
+  timestamp: NOW - 1000,
+  orderType: 'MARKET'
+};
+
+const fillEntry: HistoryEntry = {
+  id: 'tx-1',
+  time: fill.timestamp,
+  assetId: 'TOM',
+  side: 'BUY',
+  orderType: 'MARKET',
+  kind: 'FILL',
+  transaction: fill
+};
+
+const backup = (portfolio = account(500, { TOM: holdingOf(10, 'lot-1', 6) }), history = [fillEntry]) => ({
+  format: 'veggietrade-portfolio',
+  version: PORTFOLIO_EXPORT_VERSION,
+  exportedAt: NOW,
+  portfolio: { ...portfolio, openOrders: [restingSell] },
+  history
+});
+
+const parsed = (data: unknown): PortfolioExport => {
+  const result = parsePortfolioExport(JSON.stringify(data), [tomato]);
+  if (result.ok === false) throw new Error(result.errors.join('; '));
+  return result.data;
+};
+
+describe('CSV export', () => {
+  it('lists positions with market value and unrealized P&L', () => {
+    const csv = holdingsCsv(account(0, { TOM: holdingOf(10) }), [tomato]);
+
+    expect(csv.split('\n')).toEqual([
+      'asset,position,free,avg_cost,price,market_value,unrealized_pnl,realized_pnl,lots',
+      'TOM,10,10,8.0000,10.00,100.00,20.00,0.00,1'
+    ]);
+  });
+
+  it('quotes cells that contain commas or quotes', () => {
+    const csv = tradesCsv([{ ...fill, id: 'a,"b"' }]);
+
+    expect(csv.split('\n')[1].startsWith('"a,""b"""')).toBe(true);
+  });
+});
+
+describe('parsePortfolioExport', () => {
+  it('round-trips an export', () => {
+    const portfolio = { ...account(500, { TOM: holdingOf(10, 'lot-1', 6) }), openOrders: [restingSell] };
+    const result = parsePortfolioExport(exportPortfolio(portfolio, [fillEntry], NOW), [tomato]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.portfolio.holdings).toEqual(portfolio.holdings);
+      expect(result.data.history).toEqual([fillEntry]);
+    }
+  });
+
+  it.each([
+    ['text that is not JSON', 'nope', 'Not a JSON file'],
+    ['another JSON document', JSON.stringify({ format: 'other' }), 'Not a VeggieTrade backup'],
+    ['a newer format', JSON.stringify({ ...backup(), version: PORTFOLIO_EXPORT_VERSION + 1 }), 'newer than this app supports'],
+    ['a backup without a format version', JSON.stringify({ ...backup(), version: '1' }), 'Backup has no format version']
+  ])('rejects %s', (_, text, message) => {
+    const result = parsePortfolioExport(text, [tomato]);
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) expect(result.errors[0]).toContain(message);
+  });
+
+  it('reports every malformed field', () => {
+    const data = backup();
+    const result = parsePortfolioExport(JSON.stringify({
+      ...data,
+      portfolio: { ...data.portfolio, cashBalance: 'lots', openOrders: [{ ...restingSell, type: 'HOLD' }] },
+      history: [{ id: 'x' }]
+    }), [tomato]);
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) {
+      expect(result.errors).toEqual([
+        "Cash balance is missing or invalid",
+        "Order o1 has an unknown side",
+        "History entry 1 is malformed"
+      ]);
+    }
+  });
+
+  it('fills in fields that orders in older backups lack', () => {
+    const data = backup(account(500, { TOM: holdingOf(10, 'lot-1', 6) }));
+    const { timeInForce, feesPaid, status, ...legacy } = restingSell;
+    const result = parsed({ ...data, portfolio: { ...data.portfolio, openOrders: [legacy] } });
+
+    expect(result.portfolio.openOrders).toEqual([restingSell]);
+  });
+
+  it('rejects positions and open orders in assets that are not listed', () => {
+    const result = parsePortfolioExport(JSON.stringify(backup()), []);
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) {
+      expect(result.errors).toEqual([
+        "Holding TOM is not a listed asset",
+        "Order o1 is for TOM, which is not a listed asset"
+      ]);
+    }
+  });
+
+  it('rejects holdings that do not add up to their lots and escrow', () => {
+    const result = parsePortfolioExport(JSON.stringify(backup(account(500, { TOM: holdingOf(10) }))), [tomato]);
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) expect(result.errors[0]).toContain('lots add up to 10');
+  });
+
+  it('rejects short positions on a cash account', () => {
+    const data = backup(account(500, { TOM: holdingOf(-5, 'lot-1', -9) }));
+    const result = parsePortfolioExport(JSON.stringify(data), [tomato]);
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) expect(result.errors).toContain("Holding TOM is short on a cash account");
+  });
+});
+
+describe('importPortfolio', () => {
+  it('replaces the account but keeps its version', () => {
+    const data = parsed(backup());
+    const { portfolio } = importPortfolio({ ...account(), version: 7 }, data, 'REPLACE', [tomato], ctx());
+
+    expect(portfolio.version).toBe(7);
+    expect(portfolio.cashBalance).toBe(500);
+    expect(portfolio.openOrders).toEqual([restingSell]);
+    expect(portfolio.transactions).toEqual([fill]);
+  });
+
+  it('merges positions and books the backup as a deposit', () => {
+    const data = parsed(backup());
+    const current = account(1000, { TOM: holdingOf(5, 'lot-0') });
+    const { portfolio } = importPortfolio(current, data, 'MERGE', [tomato], ctx());
+
+    expect(portfolio.cashBalance).toBe(1500);
+    expect(portfolio.holdings.TOM.quantity).toBe(11);
+    expect(portfolio.holdings.TOM.lots.map(lot => lot.id)).toEqual(['lot-0', 'lot-1']);
+    expect(portfolio.openOrders).toEqual([restingSell]);
+    // 500 cash + 10 TOM at 10
+    expect(portfolio.fundingEvents.at(-1)).toMatchObject({ kind: 'DEPOSIT', amount: 600, time: NOW });
+  });
+
+  it('refuses to merge lots or orders that are already in the account', () => {
+    const data = parsed(backup());
+    const current = { ...account(1000, { TOM: holdingOf(5) }), openOrders: [restingSell] };
+    const result = importPortfolio(current, data, 'MERGE', [tomato], ctx());
+
+    expect(result.portfolio).toBe(current);
+    expect(result.events[0]).toEqual({
+      kind: 'REJECTED',
+      reason: "Import failed: Some open orders are already in this account; TOM lots are already in this account"
+    });
+  });
+});
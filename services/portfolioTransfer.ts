@@ -0,0 +1,288 @@
+import {
+  Asset,
+  Portfolio,
+  Holding,
+  LimitOrder,
+  Transaction,
+  HistoryEntry,
+  PortfolioExport,
+  ParsedImport,
+  ImportMode,
+  EngineContext,
+  EngineResult
+} from '../types';
+import { PORTFOLIO_EXPORT_VERSION, ORDER_TYPE_LABELS, COST_BASIS_LABELS, DEFAULT_PORTFOLIO_DATA } from '../constants';
+import { escrowedUnits, normalizeOrder, reject } from './tradingEngine';
+import { lotsQuantity, lotsCost } from './taxLots';
+import { equitySnapshot } from './equity';
+
+// -- CSV --
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (headers: string[], rows: (string | number | undefined)[][]) =>
+  [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+
+const isoTime = (timestamp?: number) => timestamp ? new Date(timestamp).toISOString() : undefined;
+
+export const holdingsCsv = (portfolio: Portfolio, assets: Asset[]) =>
+  toCsv(
+    ['asset', 'position', 'free', 'avg_cost', 'price', 'market_value', 'unrealized_pnl', 'realized_pnl', 'lots'],
+    Object.entries(portfolio.holdings)
+      .filter(([, holding]) => lotsQuantity(holding.lots) !== 0 || holding.realizedPnl !== 0)
+      .map(([assetId, holding]) => {
+        const position = lotsQuantity(holding.lots);
+        const price = assets.find(a => a.id === assetId)?.current_price || 0;
+        return [
+          assetId, position, holding.quantity, holding.avgCost.toFixed(4), price.toFixed(2),
+          (position * price).toFixed(2), (position * price - lotsCost(holding.lots)).toFixed(2),
+          holding.realizedPnl.toFixed(2), holding.lots.length
+        ];
+      })
+  );
+
+export const openOrdersCsv = (orders: LimitOrder[]) =>
+  toCsv(
+    ['id', 'placed_at', 'asset', 'side', 'type', 'status', 'quantity', 'filled', 'limit_price', 'trigger_price', 'time_in_force', 'expires_at', 'parent_id', 'oco_group'],
+    orders.map(o => [
+      o.id, isoTime(o.timestamp), o.assetId, o.type, o.orderType, o.status, o.quantity, o.filledQuantity,
+      o.targetPrice, o.triggerPrice, o.timeInForce, isoTime(o.expiresAt), o.parentId, o.ocoGroupId
+    ])
+  );
+
+export const tradesCsv = (fills: Transaction[]) =>
+  toCsv(
+    ['id', 'time', 'asset', 'side', 'type', 'quantity', 'price', 'notional', 'fee', 'liquidity', 'realized_pnl', 'order_id'],
+    fills.map(tx => [
+      tx.id, isoTime(tx.timestamp), tx.assetId, tx.type, tx.orderType, tx.quantity, tx.price,
+      (tx.quantity * tx.price).toFixed(2), tx.fee, tx.liquidity, tx.realizedPnl?.toFixed(2), tx.orderId
+    ])
+  );
+
+// -- JSON --
+
+export const exportPortfolio = (portfolio: Portfolio, history: HistoryEntry[], now: number): string => {
+  const data: PortfolioExport = {
+    format: 'veggietrade-portfolio',
+    version: PORTFOLIO_EXPORT_VERSION,
+    exportedAt: now,
+    portfolio: { ...portfolio, transactions: [], closedOrders: [] },
+    history
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOneOf = (values: readonly string[], value: unknown): value is string =>
+  typeof value === 'string' && values.includes(value);
+
+const SIDES = ['BUY', 'SELL'];
+const OPEN_STATUSES = ['PENDING', 'OPEN', 'PARTIALLY_FILLED'];
+
+const holdingErrors = (assetId: string, holding: unknown, assetIds: Set<string>): string[] => {
+  if (!assetIds.has(assetId)) return [`Holding ${assetId} is not a listed asset`];
+  if (!isObject(holding)) return [`Holding ${assetId} is not an object`];
+  const errors: string[] = [];
+  if (!isNumber(holding.quantity)) errors.push(`Holding ${assetId} has no valid quantity`);
+  if (!isNumber(holding.realizedPnl)) errors.push(`Holding ${assetId} has no valid realized P&L`);
+  if (!Array.isArray(holding.lots)) return [...errors, `Holding ${assetId} has no lots`];
+  holding.lots.forEach((lot: unknown, i: number) => {
+    if (!isObject(lot) || typeof lot.id !== 'string' || !isNumber(lot.quantity) || lot.quantity === 0
+      || !isNumber(lot.unitCost) || !isNumber(lot.acquiredAt)) {
+      errors.push(`Holding ${assetId} lot ${i + 1} is malformed`);
+    }
+  });
+  return errors;
+};
+
+// `assetIds` is only given for open orders; finished ones may be for assets
+// since dropped from the catalog
+const orderErrors = (order: unknown, assetIds?: Set<string>): string[] => {
+  const label = `Order ${isObject(order) && typeof order.id === 'string' ? order.id : '?'}`;
+  if (!isObject(order) || typeof order.id !== 'string' || typeof order.assetId !== 'string') return [`${label} is malformed`];
+  const errors: string[] = [];
+  if (assetIds && !assetIds.has(order.assetId)) errors.push(`${label} is for ${order.assetId}, which is not a listed asset`);
+  if (!isOneOf(SIDES, order.type)) errors.push(`${label} has an unknown side`);
+  if (!isOneOf(Object.keys(ORDER_TYPE_LABELS), order.orderType)) errors.push(`${label} has an unknown order type`);
+  if (!isNumber(order.quantity) || order.quantity <= 0) errors.push(`${label} has no valid quantity`);
+  if (!isNumber(order.filledQuantity) || order.filledQuantity < 0
+    || (isNumber(order.quantity) && order.filledQuantity > order.quantity)) {
+    errors.push(`${label} has an invalid filled quantity`);
+  }
+  if (!isNumber(order.targetPrice) || order.targetPrice <= 0) errors.push(`${label} has no valid price`);
+  if (assetIds && !isOneOf(OPEN_STATUSES, order.status)) errors.push(`${label} is listed as open but is ${order.status}`);
+  return errors;
+};
+
+const historyErrors = (entry: unknown, i: number): string[] => {
+  const label = `History entry ${i + 1}`;
+  if (!isObject(entry) || typeof entry.id !== 'string' || !isNumber(entry.time)) return [`${label} is malformed`];
+  if (entry.kind === 'ORDER') return orderErrors(entry.order).map(e => `${label}: ${e}`);
+  if (entry.kind !== 'FILL') return [`${label} has an unknown kind`];
+  const tx = entry.transaction;
+  if (!isObject(tx) || typeof tx.id !== 'string' || !isOneOf(SIDES, tx.type)
+    || !isNumber(tx.quantity) || !isNumber(tx.price) || !isNumber(tx.timestamp)) {
+    return [`${label} has a malformed transaction`];
+  }
+  return [];
+};
+
+// Free units plus units escrowed by open SELLs must add up to the lots, and a
+// cash account can't hold borrowed cash or short positions
+const balanceErrors = (portfolio: Portfolio): string[] => {
+  const errors: string[] = [];
+  Object.entries(portfolio.holdings).forEach(([assetId, holding]) => {
+    const expected = lotsQuantity(holding.lots);
+    const held = holding.quantity + escrowedUnits(portfolio, assetId);
+    if (Math.abs(held - expected) > 1e-6) {
+      errors.push(`Holding ${assetId}: ${held} units held or escrowed but lots add up to ${expected}`);
+    }
+    if (portfolio.accountType !== 'MARGIN' && expected < 0) errors.push(`Holding ${assetId} is short on a cash account`);
+  });
+  if (portfolio.accountType !== 'MARGIN' && portfolio.cashBalance < 0) errors.push("Cash is negative on a cash account");
+  return errors;
+};
+
+/**
+ * Reads a JSON backup, checking its shape, that its holdings and open orders
+ * are for assets in `assets` and that its balances add up before anything is
+ * written. Every problem found is reported, not just the first.
+ */
+export const parsePortfolioExport = (text: string, assets: Asset[]): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["Not a JSON file"] };
+  }
+  if (!isObject(data) || data.format !== 'veggietrade-portfolio') {
+    return { ok: false, errors: ["Not a VeggieTrade backup"] };
+  }
+  if (!isNumber(data.version)) return { ok: false, errors: ["Backup has no format version"] };
+  if (data.version > PORTFOLIO_EXPORT_VERSION) {
+    return { ok: false, errors: [`Backup version ${data.version} is newer than this app supports`] };
+  }
+
+  const portfolio = data.portfolio;
+  if (!isObject(portfolio)) return { ok: false, errors: ["Backup has no portfolio"] };
+
+  // Orders from older backups get the fields added since, as stored ones do,
+  // before they are checked
+  const openOrders: unknown = Array.isArray(portfolio.openOrders)
+    ? portfolio.openOrders.map((order: unknown) => isObject(order) ? normalizeOrder(order as unknown as LimitOrder) : order)
+    : portfolio.openOrders;
+
+  const assetIds = new Set(assets.map(a => a.id));
+  const errors: string[] = [];
+  if (!isNumber(portfolio.cashBalance)) errors.push("Cash balance is missing or invalid");
+  if (!isObject(portfolio.holdings)) errors.push("Holdings are missing");
+  else Object.entries(portfolio.holdings).forEach(([assetId, holding]) => errors.push(...holdingErrors(assetId, holding, assetIds)));
+  if (!Array.isArray(openOrders)) errors.push("Open orders are missing");
+  else openOrders.forEach((order: unknown) => errors.push(...orderErrors(order, assetIds)));
+  if (!isOneOf(Object.keys(COST_BASIS_LABELS), portfolio.costBasisMethod)) errors.push("Unknown cost basis method");
+  if (portfolio.accountType !== 'CASH' && portfolio.accountType !== 'MARGIN') errors.push("Unknown account type");
+  if (!Array.isArray(data.history)) errors.push("History is missing");
+  else data.history.forEach((entry: unknown, i: number) => errors.push(...historyErrors(entry, i)));
+  if (errors.length) return { ok: false, errors };
+
+  // The checks above stand in for the type
+  const restored: Portfolio = {
+    ...DEFAULT_PORTFOLIO_DATA,
+    ...(portfolio as Partial<Portfolio>),
+    openOrders: openOrders as LimitOrder[],
+    transactions: [],
+    closedOrders: []
+  };
+  const unbalanced = balanceErrors(restored);
+  if (unbalanced.length) return { ok: false, errors: unbalanced };
+
+  return { ok: true, data: { ...data, portfolio: restored } as PortfolioExport };
+};
+
+// History goes back through the step's transactions and closed orders, so the
+// store files it like any other step's output, in batches however long it is
+const withHistory = (portfolio: Portfolio, history: HistoryEntry[]): Portfolio => ({
+  ...portfolio,
+  transactions: history.flatMap(entry => entry.kind === 'FILL' ? [entry.transaction] : []),
+  closedOrders: history.flatMap(entry => entry.kind === 'ORDER' ? [entry.order] : [])
+});
+
+const mergeHolding = (current: Holding | undefined, incoming: Holding): Holding => {
+  if (!current) return incoming;
+  const lots = [...current.lots, ...incoming.lots];
+  const quantity = lotsQuantity(lots);
+  return {
+    quantity: current.quantity + incoming.quantity,
+    avgCost: quantity !== 0 ? lotsCost(lots) / quantity : 0,
+    lots,
+    realizedPnl: current.realizedPnl + incoming.realizedPnl
+  };
+};
+
+/**
+ * Brings a parsed backup into the account. A merge is booked as a deposit of
+ * the backup's net worth, so the equity curve doesn't count it as a gain.
+ */
+export const importPortfolio = (
+  portfolio: Portfolio,
+  data: PortfolioExport,
+  mode: ImportMode,
+  assets: Asset[],
+  ctx: EngineContext
+): EngineResult => {
+  const incoming = data.portfolio;
+
+  if (mode === 'REPLACE') {
+    return {
+      portfolio: withHistory({ ...incoming, lastHistoryId: portfolio.lastHistoryId, version: portfolio.version }, data.history),
+      events: [{ kind: 'NOTIFICATION', message: "Backup restored", level: 'success' }]
+    };
+  }
+
+  const errors: string[] = [];
+  const orderIds = new Set(portfolio.openOrders.map(o => o.id));
+  if (incoming.openOrders.some(o => orderIds.has(o.id))) errors.push("Some open orders are already in this account");
+  Object.entries(incoming.holdings).forEach(([assetId, holding]) => {
+    const current = portfolio.holdings[assetId];
+    if (!current) return;
+    const lotIds = new Set(current.lots.map(lot => lot.id));
+    if (holding.lots.some(lot => lotIds.has(lot.id))) errors.push(`${assetId} lots are already in this account`);
+    if (lotsQuantity(current.lots) * lotsQuantity(holding.lots) < 0) errors.push(`${assetId} is long on one side and short on the other`);
+  });
+  if (portfolio.accountType !== 'MARGIN' && incoming.accountType === 'MARGIN') {
+    errors.push("Switch to a margin account before merging a margin backup");
+  }
+  if (errors.length) return reject(portfolio, `Import failed: ${errors.join('; ')}`);
+
+  const holdings = { ...portfolio.holdings };
+  Object.entries(incoming.holdings).forEach(([assetId, holding]) => {
+    holdings[assetId] = mergeHolding(holdings[assetId], holding);
+  });
+  const volumeByDay = { ...portfolio.volumeByDay };
+  Object.entries(incoming.volumeByDay || {}).forEach(([day, volume]) => {
+    volumeByDay[day] = (volumeByDay[day] || 0) + volume;
+  });
+  const merged: Portfolio = {
+    ...portfolio,
+    cashBalance: portfolio.cashBalance + incoming.cashBalance,
+    holdings,
+    openOrders: [...portfolio.openOrders, ...incoming.openOrders],
+    feesPaid: portfolio.feesPaid + incoming.feesPaid,
+    interestPaid: portfolio.interestPaid + incoming.interestPaid,
+    volumeByDay,
+    fundingEvents: [
+      ...(portfolio.fundingEvents || []),
+      { id: ctx.generateId(), time: ctx.now, kind: 'DEPOSIT', amount: equitySnapshot(incoming, assets, ctx.now).netWorth }
+    ]
+  };
+
+  return {
+    portfolio: withHistory(merged, data.history),
+    events: [{ kind: 'NOTIFICATION', message: "Backup merged into this account", level: 'success' }]
+  };
+};
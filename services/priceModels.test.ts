@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { PriceModelConfig } from '../types';
+import { createRng } from './random';
+import { createPriceModel, nextPrice } from './priceModels';
+
+const path = (config: PriceModelConfig, start: number, steps: number, seed = 1) => {
+  const model = createPriceModel(config);
+  const rng = createRng(seed);
+  const prices = [start];
+  for (let i = 0; i < steps; i++) prices.push(nextPrice(model, prices[prices.length - 1], rng));
+  return prices;
+};
+
+// Standard deviation of the log returns along a path
+const realizedVolatility = (prices: number[]) => {
+  const returns = prices.slice(1).map((p, i) => Math.log(p / prices[i]));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  return Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length);
+};
+
+describe('price models', () => {
+  it('replays the same path from the same seed', () => {
+    const config: PriceModelConfig = { kind: 'GBM', drift: 0, volatility: 0.01 };
+    expect(path(config, 10, 100)).toEqual(path(config, 10, 100));
+  });
+
+  it('moves GBM prices with the configured per-tick volatility', () => {
+    const prices = path({ kind: 'GBM', drift: 0, volatility: 0.02 }, 10, 5000);
+    expect(realizedVolatility(prices)).toBeCloseTo(0.02, 2);
+  });
+
+  it('pulls mean-reverting prices back towards the mean', () => {
+    const prices = path({ kind: 'MEAN_REVERTING', mean: 50, reversionSpeed: 0.1, volatility: 0.001 }, 80, 200);
+    expect(Math.abs(prices[prices.length - 1] - 50)).toBeLessThan(1);
+  });
+
+  it('adds jumps on top of diffusion', () => {
+    const calm = path({ kind: 'JUMP_DIFFUSION', drift: 0, volatility: 0.005, jumpProbability: 0, jumpMean: 0, jumpStdDev: 0.1 }, 10, 2000);
+    const jumpy = path({ kind: 'JUMP_DIFFUSION', drift: 0, volatility: 0.005, jumpProbability: 0.05, jumpMean: 0, jumpStdDev: 0.1 }, 10, 2000);
+    expect(realizedVolatility(jumpy)).toBeGreaterThan(realizedVolatility(calm) * 2);
+  });
+
+  it('switches between regimes', () => {
+    const config: PriceModelConfig = {
+      kind: 'REGIME_SWITCHING',
+      regimes: [{ drift: 0, volatility: 0.001 }, { drift: 0, volatility: 0.05 }],
+      switchProbability: 0.05
+    };
+    const prices = path(config, 10, 4000);
+    const moves = prices.slice(1).map((p, i) => Math.abs(Math.log(p / prices[i])));
+    expect(moves.filter(m => m > 0.02).length).toBeGreaterThan(100);
+    expect(moves.filter(m => m < 0.002).length).toBeGreaterThan(100);
+  });
+
+  it('never goes below one cent', () => {
+    const prices = path({ kind: 'MEAN_REVERTING', mean: 0.05, reversionSpeed: 0.5, volatility: 5 }, 0.05, 500);
+    expect(Math.min(...prices)).toBeGreaterThanOrEqual(0.01);
+  });
+});
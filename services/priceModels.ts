@@ -0,0 +1,59 @@
+import { PriceModelConfig } from '../types';
+import { Rng } from './random';
+
+// A price model turns the last price into the next one. Models that need
+// memory (regime switching) keep it in their closure, so create one per asset.
+export interface PriceModel {
+  step: (price: number, rng: Rng) => number;
+}
+
+const MIN_PRICE = 0.01;
+
+// Log-normal step shared by the diffusion-based models
+const diffuse = (price: number, drift: number, volatility: number, rng: Rng) =>
+  price * Math.exp((drift - (volatility * volatility) / 2) + volatility * rng.normal());
+
+export const createPriceModel = (config: PriceModelConfig): PriceModel => {
+  switch (config.kind) {
+    case 'GBM':
+      return {
+        step: (price, rng) => diffuse(price, config.drift, config.volatility, rng)
+      };
+
+    case 'MEAN_REVERTING':
+      // Ornstein-Uhlenbeck in price space; volatility is relative to the mean
+      return {
+        step: (price, rng) =>
+          price
+          + config.reversionSpeed * (config.mean - price)
+          + config.volatility * config.mean * rng.normal()
+      };
+
+    case 'JUMP_DIFFUSION':
+      return {
+        step: (price, rng) => {
+          const next = diffuse(price, config.drift, config.volatility, rng);
+          if (rng.next() >= config.jumpProbability) return next;
+          return next * Math.exp(config.jumpMean + config.jumpStdDev * rng.normal());
+        }
+      };
+
+    case 'REGIME_SWITCHING': {
+      let regime = 0;
+      return {
+        step: (price, rng) => {
+          if (config.regimes.length > 1 && rng.next() < config.switchProbability) {
+            // Jump to any other regime with equal probability
+            const offset = 1 + Math.floor(rng.next() * (config.regimes.length - 1));
+            regime = (regime + offset) % config.regimes.length;
+          }
+          const { drift, volatility } = config.regimes[regime];
+          return diffuse(price, drift, volatility, rng);
+        }
+      };
+    }
+  }
+};
+
+export const nextPrice = (model: PriceModel, price: number, rng: Rng) =>
+  Math.max(MIN_PRICE, model.step(price, rng));
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { createRng } from './random';
+
+const draw = (seed: number, count: number) => {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, () => rng.next());
+};
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(draw(42, 20)).toEqual(draw(42, 20));
+    expect(draw(42, 20)).not.toEqual(draw(43, 20));
+  });
+
+  it('draws uniforms in [0, 1)', () => {
+    const values = draw(7, 5000);
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+    expect(values.reduce((sum, v) => sum + v, 0) / values.length).toBeCloseTo(0.5, 1);
+  });
+
+  it('draws standard normals', () => {
+    const rng = createRng(11);
+    const values = Array.from({ length: 20000 }, () => rng.normal());
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    expect(mean).toBeCloseTo(0, 1);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+});
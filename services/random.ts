@@ -0,0 +1,42 @@
+// Seedable PRNG so a simulation run can be replayed exactly from its seed.
+
+export interface Rng {
+  /** Uniform in [0, 1) */
+  next: () => number;
+  /** Standard normal (mean 0, std dev 1) */
+  normal: () => number;
+}
+
+// mulberry32: tiny, fast and good enough for a market toy
+const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createRng = (seed: number): Rng => {
+  const next = mulberry32(seed);
+  let spare: number | null = null;
+
+  // Box-Muller, caching the second value of each pair
+  const normal = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = next();
+    const v = next();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  };
+
+  return { next, normal };
+};
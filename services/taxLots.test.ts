@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { Holding, TaxLot } from '../types';
+import { lotsQuantity, lotsCost, bookTrade, LotTrade, normalizeHolding } from './taxLots';
+
+const lot = (id: string, quantity: number, unitCost: number, acquiredAt = 0): TaxLot => ({ id, quantity, unitCost, acquiredAt });
+
+// 10 @ $8 bought first, 10 @ $12 after: $10 average
+const holding = (): Holding => ({
+  quantity: 20,
+  avgCost: 10,
+  lots: [lot('a', 10, 8, 1), lot('b', 10, 12, 2)],
+  realizedPnl: 0
+});
+
+const flat = (): Holding => ({ quantity: 0, avgCost: 0, lots: [], realizedPnl: 0 });
+
+const trade = (side: LotTrade['side'], quantity: number, amount: number, overrides: Partial<LotTrade> = {}): LotTrade => ({
+  id: 't',
+  side,
+  quantity,
+  amount,
+  timestamp: 3,
+  method: 'FIFO',
+  allowShort: false,
+  ...overrides
+});
+
+describe('lot totals', () => {
+  it('sums quantity and cost', () => {
+    expect(lotsQuantity(holding().lots)).toBe(20);
+    expect(lotsCost(holding().lots)).toBe(200);
+  });
+});
+
+describe('bookTrade', () => {
+  it('opens a lot for a BUY and re-averages the cost', () => {
+    const result = bookTrade(holding(), trade('BUY', 20, 260));
+
+    expect(result.holding.quantity).toBe(40);
+    expect(result.holding.avgCost).toBeCloseTo(11.5);
+    expect(result.holding.lots[2]).toEqual(lot('t', 20, 13, 3));
+    expect(result.realizedPnl).toBeUndefined();
+  });
+
+  it('closes the oldest lots first under FIFO', () => {
+    const { holding: after, realizedPnl } = bookTrade(holding(), trade('SELL', 15, 150));
+
+    expect(realizedPnl).toBe(150 - (10 * 8 + 5 * 12));
+    expect(after.lots).toEqual([lot('b', 5, 12, 2)]);
+    expect(after.avgCost).toBe(12);
+    expect(after.quantity).toBe(5);
+    expect(after.realizedPnl).toBe(realizedPnl);
+  });
+
+  it('closes the newest lots first under LIFO', () => {
+    const { holding: after, realizedPnl } = bookTrade(holding(), trade('SELL', 15, 150, { method: 'LIFO' }));
+
+    expect(realizedPnl).toBe(150 - (10 * 12 + 5 * 8));
+    expect(after.lots).toEqual([lot('a', 5, 8, 1)]);
+  });
+
+  it('costs every unit at the average under AVERAGE', () => {
+    const { holding: after, realizedPnl } = bookTrade(holding(), trade('SELL', 5, 60, { method: 'AVERAGE' }));
+
+    expect(realizedPnl).toBe(10);
+    expect(after.avgCost).toBe(10);
+    expect(lotsQuantity(after.lots)).toBe(15);
+  });
+
+  it('closes the picked lots first under SPECIFIC and falls back to FIFO', () => {
+    const { holding: after, realizedPnl } = bookTrade(holding(), trade('SELL', 12, 120, { method: 'SPECIFIC', lotIds: ['b'] }));
+
+    expect(realizedPnl).toBe(120 - (10 * 12 + 2 * 8));
+    expect(after.lots).toEqual([lot('a', 8, 8, 1)]);
+  });
+
+  it('ignores picked lots that no longer exist', () => {
+    const { realizedPnl } = bookTrade(holding(), trade('SELL', 5, 50, { method: 'SPECIFIC', lotIds: ['gone'] }));
+
+    expect(realizedPnl).toBe(50 - 5 * 8);
+  });
+
+  it('costs units without a lot at the average cost on a cash account', () => {
+    const legacy: Holding = { quantity: 5, avgCost: 9, lots: [], realizedPnl: 2 };
+    const { holding: after, realizedPnl } = bookTrade(legacy, trade('SELL', 5, 50));
+
+    expect(realizedPnl).toBe(5);
+    expect(after.realizedPnl).toBe(7);
+    expect(after.lots).toEqual([]);
+  });
+
+  it('accumulates realized P&L across sales', () => {
+    const first = bookTrade(holding(), trade('SELL', 5, 50)).holding;
+    const second = bookTrade(first, trade('SELL', 5, 40)).holding;
+
+    expect(second.realizedPnl).toBe(10);
+  });
+
+  describe('short positions', () => {
+    it('opens a negative lot at the entry proceeds when selling past the position', () => {
+      const { holding: after, realizedPnl } = bookTrade(holding(), trade('SELL', 25, 275, { allowShort: true }));
+
+      expect(realizedPnl).toBe(20 * 11 - 200);
+      expect(after.quantity).toBe(-5);
+      expect(after.lots).toEqual([lot('t', -5, 11, 3)]);
+      expect(after.avgCost).toBe(11);
+    });
+
+    it('books a gain when a short is bought back below its entry', () => {
+      const short = bookTrade(flat(), trade('SELL', 10, 100, { allowShort: true })).holding;
+      const { holding: after, realizedPnl } = bookTrade(short, trade('BUY', 10, 80, { allowShort: true }));
+
+      expect(realizedPnl).toBe(20);
+      expect(after.quantity).toBe(0);
+      expect(after.lots).toEqual([]);
+    });
+
+    it('covers the short and goes long with the rest of a BUY', () => {
+      const short = bookTrade(flat(), trade('SELL', 10, 100, { allowShort: true })).holding;
+      const { holding: after, realizedPnl } = bookTrade(short, trade('BUY', 15, 165, { id: 'cover', allowShort: true }));
+
+      expect(realizedPnl).toBe(100 - 110);
+      expect(after.quantity).toBe(5);
+      expect(after.lots).toEqual([lot('cover', 5, 11, 3)]);
+    });
+  });
+});
+
+describe('normalizeHolding', () => {
+  it('turns a holding saved without lots into one opening lot', () => {
+    const legacy = { quantity: 4, avgCost: 7 } as Holding;
+
+    expect(normalizeHolding(legacy)).toEqual({
+      quantity: 4,
+      avgCost: 7,
+      lots: [lot('opening', 4, 7)],
+      realizedPnl: 0
+    });
+  });
+
+  it('leaves an empty legacy holding without lots', () => {
+    expect(normalizeHolding({ quantity: 0, avgCost: 0 } as Holding).lots).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { Holding, TaxLot, CostBasisMethod, OrderSide } from '../types';
+
+export const lotsQuantity = (lots: TaxLot[]) => lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+export const lotsCost = (lots: TaxLot[]) => lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+
+// Keeps `avgCost` in step with whatever lots are left
+const withLots = (holding: Holding, lots: TaxLot[]): Holding => {
+  const quantity = lotsQuantity(lots);
+  return { ...holding, lots, avgCost: quantity !== 0 ? lotsCost(lots) / quantity : 0 };
+};
+
+// Order in which lots are closed. Lots are stored oldest first.
+const closingOrder = (lots: TaxLot[], method: CostBasisMethod, lotIds: string[] = []): TaxLot[] => {
+  if (method === 'LIFO') return [...lots].reverse();
+  if (method !== 'SPECIFIC') return lots;
+  const picked = lotIds
+    .map(id => lots.find(lot => lot.id === id))
+    .filter((lot): lot is TaxLot => !!lot);
+  return [...picked, ...lots.filter(lot => !picked.includes(lot))];
+};
+
+export interface LotTrade {
+  id: string; // Becomes the id of any lot the trade opens
+  side: OrderSide;
+  quantity: number;
+  amount: number; // Cost including fee (BUY) or proceeds after fee (SELL)
+  timestamp: number;
+  method: CostBasisMethod;
+  lotIds?: string[];
+  allowShort: boolean;
+}
+
+/**
+ * Applies a trade to a holding's lots. A trade first closes lots on the other
+ * side (long lots for a SELL, short lots for a BUY) by the cost-basis method
+ * and books their realized P&L; whatever is left opens a new lot. AVERAGE
+ * pools the closed side at the average cost first.
+ *
+ * Without `allowShort` a SELL never opens a short lot: units it can't match
+ * to a lot (positions opened before lots were tracked) are costed at
+ * `avgCost` instead. `realizedPnl` is undefined when nothing was closed.
+ */
+export const bookTrade = (holding: Holding, trade: LotTrade): { holding: Holding; realizedPnl?: number } => {
+  const { side, quantity, amount, method } = trade;
+  const direction = side === 'BUY' ? 1 : -1;
+  const unitAmount = amount / quantity;
+
+  const closes = (lot: TaxLot) => lot.quantity * direction < 0;
+  const pooled = method === 'AVERAGE'
+    ? holding.lots.map(lot => closes(lot) ? { ...lot, unitCost: holding.avgCost } : lot)
+    : holding.lots;
+  const opposite = Math.abs(lotsQuantity(pooled.filter(closes)));
+  const closing = side === 'SELL' && !trade.allowShort ? quantity : Math.min(quantity, opposite);
+
+  let left = closing;
+  let cost = 0;
+  const closed = new Map<string, number>();
+  for (const lot of closingOrder(pooled.filter(closes), method, trade.lotIds)) {
+    if (left === 0) break;
+    const take = Math.min(Math.abs(lot.quantity), left);
+    closed.set(lot.id, take);
+    cost += take * lot.unitCost;
+    left -= take;
+  }
+  cost += left * holding.avgCost;
+
+  const lots = pooled
+    .map(lot => closed.has(lot.id)
+      ? { ...lot, quantity: lot.quantity + direction * (closed.get(lot.id) as number) }
+      : lot)
+    .filter(lot => lot.quantity !== 0);
+  const opening = quantity - closing;
+  if (opening > 0) {
+    lots.push({ id: trade.id, quantity: direction * opening, unitCost: unitAmount, acquiredAt: trade.timestamp });
+  }
+
+  // Long lots gain when sold above cost; short lots when bought back below entry
+  const realizedPnl = closing > 0 ? direction * (cost - closing * unitAmount) : undefined;
+
+  return {
+    holding: {
+      ...withLots(holding, lots),
+      quantity: holding.quantity + direction * quantity,
+      realizedPnl: holding.realizedPnl + (realizedPnl || 0)
+    },
+    realizedPnl
+  };
+};
+
+/**
+ * Fills in lot tracking for holdings saved before it existed: the known
+ * position becomes a single opening lot at its average cost.
+ */
+export const normalizeHolding = (holding: Holding): Holding => ({
+  ...holding,
+  lots: holding.lots || (holding.quantity > 0
+    ? [{ id: 'opening', quantity: holding.quantity, unitCost: holding.avgCost, acquiredAt: 0 }]
+    : []),
+  realizedPnl: holding.realizedPnl || 0
+});
@@ -0,0 +1,954 @@
+import { describe, it, expect } from 'vitest';
+import { Asset, EngineContext, EngineResult, FeeSchedule, Holding, InboxNotification, LimitOrder, OrderBook, OrderBookItem, OrderIntent, OrderSide, OrderType, Portfolio, TimeInForce, CostBasisMethod } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_MARGIN_CONFIG, INITIAL_CASH, MARGIN_INTEREST_POSTING_MS } from '../constants';
+import {
+  submitOrder,
+  submitOcoOrder,
+  cancelOrder,
+  amendOrder,
+  matchOpenOrders,
+  normalizeOrder,
+  setCostBasisMethod,
+  setAccountType,
+  applyMarginRules,
+  tickInterest,
+  depositCash,
+  resetPortfolio,
+  settleDelistings
+} from './tradingEngine';
+
+const NOW = 1_700_000_000_000;
+
+const NO_FEES: FeeSchedule = { makerRate: 0, takerRate: 0, minimumFee: 0 };
+const FEES: FeeSchedule = { makerRate: 0.001, takerRate: 0.002, minimumFee: 0.5 };
+
+let nextId = 0;
+const ctx = (now = NOW, feeSchedule = NO_FEES): EngineContext => ({
+  now,
+  generateId: () => `id-${++nextId}`,
+  feeSchedule,
+  margin: DEFAULT_MARGIN_CONFIG
+});
+
+const tomato = (overrides: Partial<Asset> = {}): Asset => ({
+  id: 'TOM',
+  name: 'Tomato',
+  icon: '🍅',
+  initial_price: 10,
+  category: 'Fruiting',
+  tickSize: 0.01,
+  lotSize: 1,
+  status: 'TRADING',
+  current_price: 10,
+  history: [],
+  candles: [],
+  change24h: 0,
+  ...overrides
+});
+
+const item = (price: number, size: number): OrderBookItem => ({ price, size, total: price * size });
+
+const book = (): OrderBook => ({
+  asks: [item(10.01, 10), item(10.02, 20)],
+  bids: [item(9.99, 10), item(9.98, 20)],
+  timestamp: NOW
+});
+
+const holdingOf = (quantity: number, unitCost = 8): Holding => ({
+  quantity,
+  avgCost: unitCost,
+  lots: [{ id: 'lot-1', quantity, unitCost, acquiredAt: NOW - 1000 }],
+  realizedPnl: 0
+});
+
+const account = (cashBalance = 1000, holdings: Record<string, Holding> = {}): Portfolio => ({
+  ...DEFAULT_PORTFOLIO_DATA,
+  cashBalance,
+  holdings
+});
+
+const buy = (quantity: number, limitPrice?: number): OrderIntent => ({
+  assetId: 'TOM',
+  type: 'BUY',
+  orderType: limitPrice === undefined ? 'MARKET' : 'LIMIT',
+  quantity,
+  limitPrice
+});
+
+const sell = (quantity: number, limitPrice?: number): OrderIntent => ({ ...buy(quantity, limitPrice), type: 'SELL' });
+
+const conditional = (type: OrderSide, orderType: OrderType, fields: Partial<OrderIntent> = {}): OrderIntent => ({
+  assetId: 'TOM',
+  type,
+  orderType,
+  quantity: 5,
+  ...fields
+});
+
+const kinds = (result: EngineResult) => result.events.map(e => e.kind);
+
+const rejection = (result: EngineResult) => {
+  const event = result.events.find(e => e.kind === 'REJECTED');
+  return event && event.kind === 'REJECTED' ? event.reason : null;
+};
+
+describe('submitOrder', () => {
+  it('fills a market BUY at the current price', () => {
+    const result = submitOrder(account(), buy(8), [tomato()], ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 80);
+    expect(result.portfolio.holdings.TOM).toMatchObject({ quantity: 8, avgCost: 10 });
+    expect(result.portfolio.transactions).toMatchObject([{ type: 'BUY', quantity: 8, price: 10, orderType: 'MARKET' }]);
+    expect(kinds(result)).toEqual(['FILL', 'NOTIFICATION']);
+  });
+
+  it('fills a market SELL at the current price', () => {
+    const result = submitOrder(account(1000, { TOM: holdingOf(10) }), sell(8), [tomato()], ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1080);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(2);
+    expect(kinds(result)).toEqual(['FILL', 'NOTIFICATION']);
+  });
+
+  it('walks the book for a market BUY and fills at the average price', () => {
+    const result = submitOrder(account(), buy(15), [tomato({ orderBook: book() })], ctx());
+    const avgPrice = (10 * 10.01 + 5 * 10.02) / 15;
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 15 * avgPrice);
+    expect(result.portfolio.transactions[0].price).toBeCloseTo(avgPrice);
+    expect(kinds(result)).toEqual(['FILL', 'LIQUIDITY_TAKEN', 'NOTIFICATION']);
+    expect(result.events[1]).toMatchObject({ kind: 'LIQUIDITY_TAKEN', assetId: 'TOM', book: { asks: [item(10.02, 15)] } });
+  });
+
+  it('walks the bids for a market SELL', () => {
+    const result = submitOrder(account(1000, { TOM: holdingOf(10) }), sell(10), [tomato({ orderBook: book() })], ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 + 99.9);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(0);
+  });
+
+  it('averages the cost of a holding bought in two goes', () => {
+    const first = submitOrder(account(1000, { TOM: holdingOf(10, 8) }), buy(10), [tomato()], ctx());
+
+    expect(first.portfolio.holdings.TOM).toMatchObject({ quantity: 20, avgCost: 9 });
+  });
+
+  it('rests a limit BUY and escrows its cost', () => {
+    const result = submitOrder(account(), buy(10, 9.5), [tomato()], ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 95);
+    expect(result.portfolio.openOrders).toMatchObject([
+      { type: 'BUY', quantity: 10, targetPrice: 9.5, timestamp: NOW, status: 'OPEN', filledQuantity: 0, avgFillPrice: 0 }
+    ]);
+    expect(result.portfolio.transactions).toHaveLength(0);
+    expect(kinds(result)).toEqual(['ORDER_PLACED', 'NOTIFICATION']);
+  });
+
+  it('rests a limit SELL and escrows its units', () => {
+    const result = submitOrder(account(1000, { TOM: holdingOf(10) }), sell(4, 10.5), [tomato()], ctx());
+
+    expect(result.portfolio.cashBalance).toBe(1000);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(6);
+    expect(result.portfolio.openOrders).toMatchObject([{ type: 'SELL', quantity: 4, targetPrice: 10.5 }]);
+  });
+
+  it('leaves the original portfolio untouched', () => {
+    const portfolio = account(1000, { TOM: holdingOf(10) });
+    submitOrder(portfolio, sell(4, 10.5), [tomato()], ctx());
+
+    expect(portfolio).toEqual(account(1000, { TOM: holdingOf(10) }));
+  });
+
+  describe('rejects', () => {
+    const cases: [string, Portfolio, OrderIntent, string][] = [
+      ['a market BUY without the cash', account(50), buy(8), "Insufficient funds"],
+      ['a limit BUY without the cash', account(50), buy(10, 9.5), "Insufficient funds"],
+      ['a market SELL without the holdings', account(), sell(1), "Insufficient holdings"],
+      ['a limit SELL without the holdings', account(1000, { TOM: holdingOf(3) }), sell(4, 10.5), "Insufficient holdings"],
+      ['a market order larger than the book', account(), buy(31), "Insufficient liquidity"],
+      ['a zero quantity', account(), buy(0), "Enter a valid quantity"],
+      ['a negative quantity', account(), buy(-2, 9.5), "Enter a valid quantity"],
+      ['a quantity that is not a number', account(), sell(NaN), "Enter a valid quantity"],
+      ['a limit order without a price', account(), buy(1, 0), "Enter a valid price"],
+      ['a stop without a trigger', account(), conditional('BUY', 'STOP_MARKET'), "Enter a valid trigger price"],
+      ['a stop-limit without a limit', account(), conditional('SELL', 'STOP_LIMIT', { triggerPrice: 9 }), "Enter a valid price"],
+      ['a trailing stop without an offset', account(), conditional('SELL', 'TRAILING_STOP'), "Enter a valid trailing offset"],
+      ['an unknown asset', account(), { ...buy(1), assetId: 'XYZ' }, "Unknown asset XYZ"]
+    ];
+
+    it.each(cases)('%s', (_, portfolio, intent, reason) => {
+      const result = submitOrder(portfolio, intent, [tomato({ orderBook: book() })], ctx());
+
+      expect(result.portfolio).toBe(portfolio);
+      expect(rejection(result)).toBe(reason);
+      expect(result.events).toContainEqual({ kind: 'NOTIFICATION', message: reason, level: 'info', category: 'REJECTION' });
+    });
+  });
+});
+
+describe('cancelOrder', () => {
+  it('refunds the escrowed cash of a limit BUY', () => {
+    const placed = submitOrder(account(), buy(10, 9.5), [tomato()], ctx()).portfolio;
+    const result = cancelOrder(placed, placed.openOrders[0].id, ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000);
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(kinds(result)).toEqual(['ORDER_CANCELLED', 'NOTIFICATION']);
+  });
+
+  it('returns the escrowed units of a limit SELL', () => {
+    const placed = submitOrder(account(1000, { TOM: holdingOf(10) }), sell(4, 10.5), [tomato()], ctx()).portfolio;
+    const result = cancelOrder(placed, placed.openOrders[0].id, ctx());
+
+    expect(result.portfolio.holdings.TOM.quantity).toBe(10);
+    expect(result.portfolio.cashBalance).toBe(1000);
+  });
+
+  it('only refunds the unfilled part of a partially filled order', () => {
+    const placed = submitOrder(account(), buy(20, 10.01), [tomato()], ctx()).portfolio;
+    const partial = matchOpenOrders(placed, [tomato({ orderBook: book() })], ctx()).portfolio;
+    const result = cancelOrder(partial, placed.openOrders[0].id, ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 10 * 10.01);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(10);
+    expect(result.events[0]).toMatchObject({ kind: 'ORDER_CANCELLED', order: { status: 'CANCELLED', filledQuantity: 10 } });
+    expect(result.portfolio.closedOrders).toMatchObject([{ status: 'CANCELLED', closedAt: NOW }]);
+  });
+
+  it('ignores unknown orders', () => {
+    const portfolio = account();
+    const result = cancelOrder(portfolio, 'missing', ctx());
+
+    expect(result.portfolio).toBe(portfolio);
+    expect(result.events).toEqual([]);
+  });
+});
+
+describe('matchOpenOrders', () => {
+  it('fills a limit BUY at its price once the market drops to it', () => {
+    const placed = submitOrder(account(), buy(5, 9.9), [tomato()], ctx()).portfolio;
+    expect(matchOpenOrders(placed, [tomato()], ctx()).portfolio).toBe(placed);
+
+    const result = matchOpenOrders(placed, [tomato({ current_price: 9.8 })], ctx());
+
+    expect(result.portfolio.holdings.TOM).toMatchObject({ quantity: 5, avgCost: 9.9 });
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 5 * 9.9);
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(result.portfolio.closedOrders).toMatchObject([{ status: 'FILLED', closedAt: NOW }]);
+    expect(result.portfolio.transactions).toMatchObject([{ type: 'BUY', orderType: 'LIMIT', price: 9.9 }]);
+    expect(result.events[0]).toMatchObject({ kind: 'FILL', orderId: placed.openOrders[0].id });
+  });
+
+  it('fills a limit SELL at its price once the market rises to it', () => {
+    const placed = submitOrder(account(1000, { TOM: holdingOf(10) }), sell(4, 10.2), [tomato()], ctx()).portfolio;
+    expect(matchOpenOrders(placed, [tomato()], ctx()).portfolio).toBe(placed);
+
+    const result = matchOpenOrders(placed, [tomato({ current_price: 10.3 })], ctx());
+
+    expect(result.portfolio.holdings.TOM.quantity).toBe(6);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 + 4 * 10.2);
+    expect(result.portfolio.openOrders).toHaveLength(0);
+  });
+
+  it('keeps orders it cannot fill yet', () => {
+    const first = submitOrder(account(1000, { TOM: holdingOf(10) }), buy(5, 9.9), [tomato()], ctx()).portfolio;
+    const both = submitOrder(first, sell(4, 10.2), [tomato()], ctx()).portfolio;
+    const result = matchOpenOrders(both, [tomato({ current_price: 9.8 })], ctx());
+
+    expect(result.portfolio.openOrders).toMatchObject([{ type: 'SELL' }]);
+    expect(result.events.filter(e => e.kind === 'FILL')).toHaveLength(1);
+  });
+
+  it('fills a resting order partially against the book and keeps the rest open', () => {
+    const placed = submitOrder(account(), buy(20, 10.01), [tomato()], ctx()).portfolio;
+    const result = matchOpenOrders(placed, [tomato({ orderBook: book() })], ctx());
+
+    expect(result.portfolio.openOrders).toMatchObject([{ status: 'PARTIALLY_FILLED', filledQuantity: 10, avgFillPrice: 10.01 }]);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(10);
+    expect(result.portfolio.transactions).toMatchObject([{ quantity: 10, price: 10.01, orderId: placed.openOrders[0].id }]);
+    expect(kinds(result)).toEqual(['FILL', 'NOTIFICATION', 'LIQUIDITY_TAKEN']);
+    expect(result.events[2]).toMatchObject({ book: { asks: [item(10.02, 20)] } });
+
+    const rest = matchOpenOrders(result.portfolio, [tomato({ orderBook: book() })], ctx());
+    expect(rest.portfolio.openOrders).toHaveLength(0);
+    expect(rest.portfolio.holdings.TOM.quantity).toBe(20);
+  });
+
+  it('refunds the escrow a BUY did not need when it fills below its target', () => {
+    const placed = submitOrder(account(), buy(10, 10.5), [tomato()], ctx()).portfolio;
+    const result = matchOpenOrders(placed, [tomato({ orderBook: book() })], ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 10 * 10.01);
+    expect(result.portfolio.holdings.TOM).toMatchObject({ quantity: 10, avgCost: 10.01 });
+  });
+
+  it('shares one tick of liquidity between orders, oldest first', () => {
+    const first = submitOrder(account(), buy(8, 10.01), [tomato()], ctx()).portfolio;
+    const both = submitOrder(first, buy(8, 10.01), [tomato()], ctx()).portfolio;
+    const result = matchOpenOrders(both, [tomato({ orderBook: book() })], ctx());
+
+    expect(result.portfolio.openOrders).toMatchObject([{ id: both.openOrders[1].id, filledQuantity: 2 }]);
+  });
+
+  it('does nothing without open orders', () => {
+    const portfolio = account();
+    expect(matchOpenOrders(portfolio, [tomato()], ctx())).toEqual({ portfolio, events: [] });
+  });
+});
+
+describe('conditional orders', () => {
+  const withStop = (intent: OrderIntent) =>
+    submitOrder(account(1000, { TOM: holdingOf(10) }), intent, [tomato()], ctx()).portfolio;
+
+  it('escrows a BUY stop at a collar above its trigger', () => {
+    const placed = submitOrder(account(), conditional('BUY', 'STOP_MARKET', { triggerPrice: 11 }), [tomato()], ctx());
+
+    expect(placed.portfolio.openOrders).toMatchObject([{ orderType: 'STOP_MARKET', triggerPrice: 11, targetPrice: 11 * 1.05 }]);
+    expect(placed.portfolio.cashBalance).toBeCloseTo(1000 - 5 * 11 * 1.05);
+  });
+
+  it('keeps a stop armed until the price reaches its trigger', () => {
+    const placed = withStop(conditional('SELL', 'STOP_MARKET', { triggerPrice: 9 }));
+
+    expect(matchOpenOrders(placed, [tomato({ current_price: 9.5 })], ctx()).portfolio).toBe(placed);
+  });
+
+  it('fills a triggered SELL stop at the market', () => {
+    const placed = withStop(conditional('SELL', 'STOP_MARKET', { triggerPrice: 9 }));
+    const result = matchOpenOrders(placed, [tomato({ current_price: 8.8 })], ctx());
+
+    expect(kinds(result)).toEqual(['ORDER_TRIGGERED', 'NOTIFICATION', 'FILL', 'NOTIFICATION']);
+    expect(result.events[0]).toMatchObject({ order: { triggeredAt: NOW } });
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 + 5 * 8.8);
+    expect(result.portfolio.transactions).toMatchObject([{ orderType: 'STOP_MARKET', price: 8.8 }]);
+  });
+
+  it('leaves a triggered stop-limit resting until its limit is reachable', () => {
+    const placed = withStop(conditional('SELL', 'STOP_LIMIT', { triggerPrice: 9, limitPrice: 8.9 }));
+    const triggered = matchOpenOrders(placed, [tomato({ current_price: 8.5 })], ctx());
+
+    expect(kinds(triggered)).toEqual(['ORDER_TRIGGERED', 'NOTIFICATION']);
+    expect(triggered.portfolio.openOrders).toMatchObject([{ triggeredAt: NOW, status: 'OPEN' }]);
+
+    const filled = matchOpenOrders(triggered.portfolio, [tomato({ current_price: 8.95 })], ctx());
+    expect(filled.portfolio.transactions).toMatchObject([{ price: 8.9 }]);
+  });
+
+  it('fires a take-profit when the price moves in its favour', () => {
+    const placed = withStop(conditional('SELL', 'TAKE_PROFIT', { triggerPrice: 11 }));
+
+    expect(matchOpenOrders(placed, [tomato({ current_price: 10.5 })], ctx()).portfolio).toBe(placed);
+    expect(matchOpenOrders(placed, [tomato({ current_price: 11.2 })], ctx()).portfolio.openOrders).toHaveLength(0);
+  });
+
+  it('ratchets a trailing stop behind the best price and fires on the pullback', () => {
+    const placed = withStop(conditional('SELL', 'TRAILING_STOP', { trailingOffset: 0.5 }));
+    expect(placed.openOrders[0]).toMatchObject({ trailingReference: 10, triggerPrice: 9.5 });
+
+    const raised = matchOpenOrders(placed, [tomato({ current_price: 12 })], ctx());
+    expect(raised.events).toEqual([]);
+    expect(raised.portfolio.openOrders[0]).toMatchObject({ trailingReference: 12, triggerPrice: 11.5 });
+
+    const held = matchOpenOrders(raised.portfolio, [tomato({ current_price: 11.8 })], ctx());
+    expect(held.portfolio).toBe(raised.portfolio);
+
+    const fired = matchOpenOrders(raised.portfolio, [tomato({ current_price: 11.4 })], ctx());
+    expect(fired.portfolio.transactions).toMatchObject([{ orderType: 'TRAILING_STOP', price: 11.4 }]);
+  });
+});
+
+describe('OCO orders', () => {
+  const legs = (quantity = 5): OrderIntent[] => [
+    { ...sell(quantity, 11), quantity },
+    conditional('SELL', 'STOP_MARKET', { quantity, triggerPrice: 9 })
+  ];
+  const placeOco = () =>
+    submitOcoOrder(account(1000, { TOM: holdingOf(10) }), legs(), [tomato()], ctx()).portfolio;
+
+  it('escrows the units once for both legs', () => {
+    const placed = placeOco();
+
+    expect(placed.holdings.TOM.quantity).toBe(5);
+    expect(placed.openOrders).toHaveLength(2);
+    expect(placed.openOrders[0].ocoGroupId).toBeDefined();
+    expect(placed.openOrders[1].ocoGroupId).toBe(placed.openOrders[0].ocoGroupId);
+  });
+
+  it('cancels the sibling when one leg fills and releases the shared escrow once', () => {
+    const result = matchOpenOrders(placeOco(), [tomato({ current_price: 11.2 })], ctx());
+
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(5);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 + 5 * 11);
+    expect(kinds(result)).toEqual(['FILL', 'NOTIFICATION', 'ORDER_CANCELLED', 'NOTIFICATION']);
+  });
+
+  it('keeps the shared escrow when only one leg is cancelled', () => {
+    const placed = placeOco();
+    const result = cancelOrder(placed, placed.openOrders[0].id, ctx());
+
+    expect(result.portfolio.holdings.TOM.quantity).toBe(5);
+    expect(cancelOrder(result.portfolio, placed.openOrders[1].id, ctx()).portfolio.holdings.TOM.quantity).toBe(10);
+  });
+
+  it.each([
+    ['legs of different sizes', [legs(5)[0], legs(4)[1]], "OCO legs must be resting orders on the same asset, side and size"],
+    ['a market leg', [legs()[0], sell(5)], "OCO legs must be resting orders on the same asset, side and size"],
+    ['more units than are held', legs(11), "Insufficient holdings"]
+  ])('rejects %s', (_, ocoLegs, reason) => {
+    const portfolio = account(1000, { TOM: holdingOf(10) });
+    const result = submitOcoOrder(portfolio, ocoLegs as OrderIntent[], [tomato()], ctx());
+
+    expect(result.portfolio).toBe(portfolio);
+    expect(rejection(result)).toBe(reason);
+  });
+});
+
+describe('bracket orders', () => {
+  const bracket = (limitPrice?: number): OrderIntent => ({ ...buy(10, limitPrice), takeProfitPrice: 12, stopLossPrice: 9 });
+
+  it('parks the exits as pending children of a resting entry', () => {
+    const placed = submitOrder(account(), bracket(10), [tomato()], ctx()).portfolio;
+    const [entry, ...exits] = placed.openOrders;
+
+    expect(exits).toMatchObject([
+      { parentId: entry.id, status: 'PENDING', quantity: 0, orderType: 'LIMIT' },
+      { parentId: entry.id, status: 'PENDING', quantity: 0, orderType: 'STOP_MARKET' }
+    ]);
+    expect(placed.cashBalance).toBeCloseTo(1000 - 100);
+  });
+
+  it('grows the exits with each entry fill and escrows the bought units', () => {
+    const placed = submitOrder(account(), bracket(10.01), [tomato()], ctx()).portfolio;
+    const thin = { ...book(), asks: [item(10.01, 4)] };
+    const result = matchOpenOrders(placed, [tomato({ orderBook: thin })], ctx());
+
+    expect(result.portfolio.openOrders).toMatchObject([
+      { status: 'PARTIALLY_FILLED', filledQuantity: 4 },
+      { status: 'OPEN', quantity: 4 },
+      { status: 'OPEN', quantity: 4 }
+    ]);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(0);
+  });
+
+  it('drops pending exits with a cancelled entry', () => {
+    const placed = submitOrder(account(), bracket(10), [tomato()], ctx()).portfolio;
+    const result = cancelOrder(placed, placed.openOrders[0].id, ctx());
+
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(kinds(result)).toEqual(['ORDER_CANCELLED', 'ORDER_CANCELLED', 'ORDER_CANCELLED', 'NOTIFICATION']);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000);
+  });
+
+  it('protects a market entry right away', () => {
+    const result = submitOrder(account(), bracket(), [tomato()], ctx());
+
+    expect(result.portfolio.holdings.TOM.quantity).toBe(0);
+    expect(result.portfolio.openOrders).toMatchObject([
+      { status: 'OPEN', quantity: 10, targetPrice: 12 },
+      { status: 'OPEN', quantity: 10, triggerPrice: 9 }
+    ]);
+  });
+
+  it('leaves a single exit out of any OCO group', () => {
+    const result = submitOrder(account(), { ...buy(10), takeProfitPrice: 12 }, [tomato()], ctx());
+
+    expect(result.portfolio.openOrders).toHaveLength(1);
+    expect('ocoGroupId' in result.portfolio.openOrders[0]).toBe(false);
+  });
+
+  it('places a SELL with exits as an OCO pair', () => {
+    const result = submitOrder(account(1000, { TOM: holdingOf(10) }), { ...sell(10), takeProfitPrice: 12, stopLossPrice: 9 }, [tomato()], ctx());
+
+    expect(result.portfolio.openOrders).toHaveLength(2);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(0);
+    expect(result.portfolio.transactions).toHaveLength(0);
+  });
+
+  it('rejects a take-profit below the stop-loss', () => {
+    const result = submitOrder(account(), { ...bracket(10), takeProfitPrice: 8 }, [tomato()], ctx());
+
+    expect(rejection(result)).toBe("Take-profit must be above stop-loss");
+  });
+});
+
+describe('time in force', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  it('expires a GTD order at its deadline and releases its escrow', () => {
+    const placed = submitOrder(account(), { ...buy(10, 9), timeInForce: 'GTD', expiresAt: NOW + HOUR }, [tomato()], ctx()).portfolio;
+    expect(matchOpenOrders(placed, [tomato()], ctx(NOW + HOUR - 1)).portfolio).toBe(placed);
+
+    const result = matchOpenOrders(placed, [tomato()], ctx(NOW + HOUR));
+
+    expect(kinds(result)).toEqual(['ORDER_EXPIRED', 'NOTIFICATION']);
+    expect(result.events[1]).toMatchObject({ category: 'FILL' });
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000);
+    expect(result.portfolio.closedOrders).toMatchObject([{ status: 'EXPIRED', closedAt: NOW + HOUR }]);
+  });
+
+  it('gives a DAY order until the end of the local day', () => {
+    const placed = submitOrder(account(), { ...buy(10, 9), timeInForce: 'DAY' }, [tomato()], ctx()).portfolio;
+    const endOfDay = new Date(NOW);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    expect(placed.openOrders[0]).toMatchObject({ timeInForce: 'DAY', expiresAt: endOfDay.getTime() });
+  });
+
+  it('expires the pending exits of an expired bracket entry', () => {
+    const intent = { ...buy(10, 9), timeInForce: 'GTD' as TimeInForce, expiresAt: NOW + HOUR, stopLossPrice: 8 };
+    const placed = submitOrder(account(), intent, [tomato()], ctx()).portfolio;
+    const result = matchOpenOrders(placed, [tomato()], ctx(NOW + HOUR));
+
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(result.portfolio.closedOrders.map(o => o.status)).toEqual(['EXPIRED', 'EXPIRED']);
+  });
+
+  it('keeps what an IOC order could fill and drops the rest', () => {
+    const result = submitOrder(account(), { ...buy(20, 10.01), timeInForce: 'IOC' }, [tomato({ orderBook: book() })], ctx());
+
+    expect(result.portfolio.holdings.TOM.quantity).toBe(10);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 10 * 10.01);
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(result.portfolio.transactions).toMatchObject([{ orderType: 'LIMIT', quantity: 10 }]);
+  });
+
+  it('fills a FOK order that the book can cover in full', () => {
+    const result = submitOrder(account(), { ...buy(20, 10.02), timeInForce: 'FOK' }, [tomato({ orderBook: book() })], ctx());
+
+    expect(result.portfolio.holdings.TOM.quantity).toBe(20);
+    expect(result.portfolio.openOrders).toHaveLength(0);
+  });
+
+  it.each([
+    ['a FOK order the book cannot fill', { ...buy(20, 10.01), timeInForce: 'FOK' }, "Fill-or-kill order could not be filled in full"],
+    ['an IOC order with nothing at its limit', { ...buy(5, 9), timeInForce: 'IOC' }, "No liquidity at your limit price, order cancelled"],
+    ['an IOC stop', conditional('SELL', 'STOP_MARKET', { triggerPrice: 9, timeInForce: 'IOC' }), "IOC and FOK only apply to market and limit orders"],
+    ['a GTD order expiring in the past', { ...buy(5, 9), timeInForce: 'GTD', expiresAt: NOW }, "Enter an expiry in the future"]
+  ])('rejects %s', (_, intent, reason) => {
+    const portfolio = account(1000, { TOM: holdingOf(10) });
+    const result = submitOrder(portfolio, intent as OrderIntent, [tomato({ orderBook: book() })], ctx());
+
+    expect(result.portfolio).toBe(portfolio);
+    expect(rejection(result)).toBe(reason);
+  });
+});
+
+describe('amendOrder', () => {
+  const restingBuy = () => submitOrder(account(), buy(10, 9), [tomato()], ctx()).portfolio;
+
+  it('reprices an order in place and moves the escrow difference', () => {
+    const placed = restingBuy();
+    const result = amendOrder(placed, placed.openOrders[0].id, { targetPrice: 9.5, quantity: 12 }, [tomato()], ctx(NOW + 1));
+
+    expect(result.portfolio.openOrders).toMatchObject([
+      { id: placed.openOrders[0].id, quantity: 12, targetPrice: 9.5, timestamp: NOW }
+    ]);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 12 * 9.5);
+    expect(result.portfolio.openOrders[0].amendments).toMatchObject([
+      { timestamp: NOW + 1, previous: { quantity: 10, targetPrice: 9 } }
+    ]);
+    expect(kinds(result)).toEqual(['ORDER_AMENDED', 'NOTIFICATION']);
+  });
+
+  it('returns units when a SELL is shrunk', () => {
+    const placed = submitOrder(account(1000, { TOM: holdingOf(10) }), sell(8, 11), [tomato()], ctx()).portfolio;
+    const result = amendOrder(placed, placed.openOrders[0].id, { quantity: 5 }, [tomato()], ctx());
+
+    expect(result.portfolio.holdings.TOM.quantity).toBe(5);
+  });
+
+  it('moves the escrow collar with the trigger of a BUY stop', () => {
+    const placed = submitOrder(account(), conditional('BUY', 'STOP_MARKET', { triggerPrice: 11 }), [tomato()], ctx()).portfolio;
+    const result = amendOrder(placed, placed.openOrders[0].id, { triggerPrice: 12 }, [tomato()], ctx());
+
+    expect(result.portfolio.openOrders[0]).toMatchObject({ triggerPrice: 12, targetPrice: 12 * 1.05 });
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 5 * 12 * 1.05);
+  });
+
+  it.each([
+    ['an unknown order', 'missing', { quantity: 5 }, "Order not found"],
+    ['more cash than is free', null, { quantity: 200 }, "Insufficient funds"],
+    ['a quantity at or below what has filled', null, { quantity: 0 }, "Quantity must exceed what has already filled"],
+    ['a fractional quantity', null, { quantity: 10.5 }, "Quantity must exceed what has already filled"],
+    ['a negative price', null, { targetPrice: -1 }, "Enter a valid price"],
+    ['a trigger on a plain limit order', null, { triggerPrice: 8 }, "Trigger can only be amended on an armed stop"]
+  ])('rejects %s', (_, id, changes, reason) => {
+    const placed = restingBuy();
+    const result = amendOrder(placed, id ?? placed.openOrders[0].id, changes, [tomato()], ctx());
+
+    expect(result.portfolio).toBe(placed);
+    expect(rejection(result)).toBe(reason);
+  });
+
+  it('rejects a price change on a stop that fills at the market', () => {
+    const placed = submitOrder(account(1000, { TOM: holdingOf(10) }), conditional('SELL', 'STOP_MARKET', { triggerPrice: 9 }), [tomato()], ctx()).portfolio;
+
+    expect(rejection(amendOrder(placed, placed.openOrders[0].id, { targetPrice: 8 }, [tomato()], ctx())))
+      .toBe("Only limit prices can be amended on this order");
+  });
+
+  it('rejects a size change on a bracket exit', () => {
+    const placed = submitOrder(account(), { ...buy(10, 9), stopLossPrice: 8 }, [tomato()], ctx()).portfolio;
+
+    expect(rejection(amendOrder(placed, placed.openOrders[1].id, { quantity: 5 }, [tomato()], ctx())))
+      .toBe("Bracket exits follow their entry's size");
+  });
+
+  it('rejects a size change on an OCO leg', () => {
+    const legs = [sell(5, 11), conditional('SELL', 'STOP_MARKET', { triggerPrice: 9 })];
+    const placed = submitOcoOrder(account(1000, { TOM: holdingOf(10) }), legs, [tomato()], ctx()).portfolio;
+
+    expect(rejection(amendOrder(placed, placed.openOrders[0].id, { quantity: 4 }, [tomato()], ctx())))
+      .toBe("Linked orders share their size; cancel and place them again");
+  });
+
+  it('leaves the trigger out of the trail of an order without one', () => {
+    const placed = restingBuy();
+    const result = amendOrder(placed, placed.openOrders[0].id, { targetPrice: 9.5 }, [tomato()], ctx());
+
+    expect('triggerPrice' in result.portfolio.openOrders[0].amendments![0].previous).toBe(false);
+  });
+});
+
+describe('fees', () => {
+  it('charges a market order the taker rate', () => {
+    const result = submitOrder(account(), buy(50), [tomato()], ctx(NOW, FEES));
+
+    expect(result.portfolio.transactions).toMatchObject([{ fee: 1, liquidity: 'TAKER' }]);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 500 - 1);
+  });
+
+  it('escrows a resting BUY with its fee and charges the maker rate on fill', () => {
+    const placed = submitOrder(account(), buy(50, 10), [tomato()], ctx(NOW, FEES)).portfolio;
+    expect(placed.openOrders[0]).toMatchObject({ feeRate: 0.001, minimumFee: 0.5, feesPaid: 0 });
+    expect(placed.cashBalance).toBeCloseTo(1000 - 500 - 0.5);
+
+    const result = matchOpenOrders(placed, [tomato()], ctx(NOW, FEES));
+    expect(result.portfolio.transactions).toMatchObject([{ fee: 0.5, liquidity: 'MAKER' }]);
+    expect(result.portfolio.cashBalance).toBeCloseTo(1000 - 500 - 0.5);
+  });
+
+  it('only tops up to the minimum ticket fee once across partial fills', () => {
+    const placed = submitOrder(account(), buy(20, 10.01), [tomato()], ctx(NOW, FEES)).portfolio;
+    const first = matchOpenOrders(placed, [tomato({ orderBook: book() })], ctx(NOW, FEES)).portfolio;
+    const second = matchOpenOrders(first, [tomato({ orderBook: book() })], ctx(NOW, FEES)).portfolio;
+
+    expect(second.transactions.map(tx => tx.fee)).toEqual([0.5, 10 * 10.01 * 0.001]);
+    expect(second.cashBalance).toBeCloseTo(1000 - 20 * 10.01 - 0.5 - 0.1001);
+  });
+
+  it('takes the fee out of SELL proceeds', () => {
+    const result = submitOrder(account(0, { TOM: holdingOf(50) }), sell(50), [tomato()], ctx(NOW, FEES));
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(500 - 1);
+  });
+
+  it('keeps running totals of fees and traded volume', () => {
+    const first = submitOrder(account(), buy(50), [tomato()], ctx(NOW, FEES)).portfolio;
+    const second = submitOrder(first, sell(20), [tomato()], ctx(NOW, FEES)).portfolio;
+
+    expect(second.feesPaid).toBeCloseTo(1 + 0.5);
+    expect(Object.values(second.volumeByDay)).toEqual([700]);
+  });
+
+  it('picks the fee tier from the recorded volume', () => {
+    const tiered: FeeSchedule = { ...FEES, tiers: [{ minVolume: 10000, makerRate: 0.0005, takerRate: 0.001 }] };
+    const busy = { ...account(), volumeByDay: { [new Date(NOW).toISOString().slice(0, 10)]: 20000 } };
+    const placed = submitOrder(busy, buy(50, 10), [tomato()], ctx(NOW, tiered)).portfolio;
+
+    expect(placed.openOrders[0].feeRate).toBe(0.0005);
+  });
+
+  it('rejects a BUY that cannot also cover its fee', () => {
+    expect(rejection(submitOrder(account(100), buy(10), [tomato()], ctx(NOW, FEES)))).toBe("Insufficient funds");
+  });
+});
+
+describe('tax lots', () => {
+  const twoLots = (): Portfolio => {
+    const first = submitOrder(account(1000), buy(10), [tomato({ current_price: 8 })], ctx(NOW)).portfolio;
+    return submitOrder(first, buy(10), [tomato({ current_price: 12 })], ctx(NOW + 1)).portfolio;
+  };
+
+  it('opens a lot per BUY with the fee in its unit cost', () => {
+    const result = submitOrder(account(), buy(50), [tomato()], ctx(NOW, FEES));
+
+    expect(result.portfolio.holdings.TOM.lots).toEqual([
+      { id: result.portfolio.transactions[0].id, quantity: 50, unitCost: 10.02, acquiredAt: NOW }
+    ]);
+  });
+
+  it.each([
+    ['FIFO', 4 * (10 - 8)],
+    ['LIFO', 4 * (10 - 12)],
+    ['AVERAGE', 4 * (10 - 10)]
+  ] as [CostBasisMethod, number][])('books realized P&L on a SELL under %s', (method, pnl) => {
+    const portfolio = { ...twoLots(), costBasisMethod: method };
+    const result = submitOrder(portfolio, sell(4), [tomato()], ctx());
+
+    expect(result.portfolio.transactions[2].realizedPnl).toBeCloseTo(pnl);
+    expect(result.portfolio.holdings.TOM.realizedPnl).toBeCloseTo(pnl);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(16);
+  });
+
+  it('closes the picked lots first under SPECIFIC', () => {
+    const portfolio = { ...twoLots(), costBasisMethod: 'SPECIFIC' as CostBasisMethod };
+    const secondLot = portfolio.holdings.TOM.lots[1].id;
+    const placed = submitOrder(portfolio, { ...sell(4, 10), lotIds: [secondLot] }, [tomato()], ctx()).portfolio;
+    const result = matchOpenOrders(placed, [tomato()], ctx());
+
+    expect(result.portfolio.transactions[2].realizedPnl).toBeCloseTo(-8);
+    expect(result.portfolio.holdings.TOM.lots.map(lot => lot.quantity)).toEqual([10, 6]);
+  });
+
+  it('switches the cost basis method', () => {
+    const portfolio = account();
+    const result = setCostBasisMethod(portfolio, 'LIFO');
+
+    expect(result.portfolio.costBasisMethod).toBe('LIFO');
+    expect(kinds(result)).toEqual(['NOTIFICATION']);
+    expect(setCostBasisMethod(portfolio, 'FIFO')).toEqual({ portfolio, events: [] });
+  });
+});
+
+describe('margin accounts', () => {
+  const marginAccount = (cashBalance = 1000, holdings: Record<string, Holding> = {}): Portfolio => ({
+    ...account(cashBalance, holdings),
+    accountType: 'MARGIN'
+  });
+
+  it('borrows cash within buying power', () => {
+    const result = submitOrder(marginAccount(), buy(150), [tomato()], ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(-500);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(150);
+  });
+
+  it('sells short at the market and opens a negative lot', () => {
+    const result = submitOrder(marginAccount(), sell(50), [tomato()], ctx());
+
+    expect(result.portfolio.cashBalance).toBeCloseTo(1500);
+    expect(result.portfolio.holdings.TOM).toMatchObject({ quantity: -50, lots: [{ quantity: -50, unitCost: 10 }] });
+  });
+
+  it('rests a short sale without escrowing units', () => {
+    const result = submitOrder(marginAccount(), sell(50, 11), [tomato()], ctx());
+
+    expect(result.portfolio.openOrders).toMatchObject([{ shortQuantity: 50 }]);
+    expect(result.portfolio.holdings.TOM).toBeUndefined();
+  });
+
+  it('escrows the held units of a SELL larger than the holding and borrows the rest', () => {
+    const placed = submitOrder(marginAccount(1000, { TOM: holdingOf(10) }), sell(30, 11), [tomato()], ctx()).portfolio;
+
+    expect(placed.openOrders).toMatchObject([{ quantity: 30, shortQuantity: 20 }]);
+    expect(placed.holdings.TOM.quantity).toBe(0);
+    expect(cancelOrder(placed, placed.openOrders[0].id, ctx()).portfolio.holdings.TOM.quantity).toBe(10);
+  });
+
+  it('sells the held units first, then goes short', () => {
+    const placed = submitOrder(marginAccount(1000, { TOM: holdingOf(10) }), sell(30, 11), [tomato()], ctx()).portfolio;
+    const thin = { ...book(), bids: [item(11, 6)] };
+    const partial = matchOpenOrders(placed, [tomato({ current_price: 11, orderBook: thin })], ctx()).portfolio;
+
+    expect(partial.holdings.TOM).toMatchObject({ quantity: 0, lots: [{ quantity: 4 }] });
+
+    const filled = matchOpenOrders(partial, [tomato({ current_price: 11 })], ctx()).portfolio;
+    expect(filled.openOrders).toEqual([]);
+    expect(filled.holdings.TOM).toMatchObject({ quantity: -20, lots: [{ quantity: -20, unitCost: 11 }] });
+  });
+
+  it('re-splits a resized SELL between held and borrowed units', () => {
+    const placed = submitOrder(marginAccount(1000, { TOM: holdingOf(10) }), sell(30, 11), [tomato()], ctx()).portfolio;
+    const result = amendOrder(placed, placed.openOrders[0].id, { quantity: 8 }, [tomato()], ctx());
+
+    expect(result.portfolio.openOrders[0]).not.toHaveProperty('shortQuantity');
+    expect(result.portfolio.holdings.TOM.quantity).toBe(2);
+  });
+
+  it('checks buying power when a resting short sale grows', () => {
+    const placed = submitOrder(marginAccount(), sell(50, 11), [tomato()], ctx()).portfolio;
+    const id = placed.openOrders[0].id;
+    const grown = amendOrder(placed, id, { quantity: 250 }, [tomato()], ctx());
+
+    expect(grown.portfolio).toBe(placed);
+    expect(rejection(grown)).toBe("Insufficient buying power");
+    expect(amendOrder(placed, id, { quantity: 100 }, [tomato()], ctx()).portfolio.openOrders[0].quantity).toBe(100);
+  });
+
+  it.each([
+    ['a BUY past buying power', buy(250)],
+    ['a resting BUY past buying power', buy(250, 10)],
+    ['a short past buying power', sell(250)]
+  ])('rejects %s', (_, intent) => {
+    const portfolio = marginAccount();
+    const result = submitOrder(portfolio, intent, [tomato()], ctx());
+
+    expect(result.portfolio).toBe(portfolio);
+    expect(rejection(result)).toBe("Insufficient buying power");
+  });
+
+  it('accrues interest on borrowed cash every tick', () => {
+    const leveraged = submitOrder(marginAccount(), buy(150), [tomato()], ctx()).portfolio;
+
+    expect(tickInterest(leveraged, [tomato()], ctx())).toBeCloseTo(500 * DEFAULT_MARGIN_CONFIG.interestRatePerTick, 10);
+    expect(tickInterest(marginAccount(), [tomato()], ctx())).toBe(0);
+    expect(tickInterest(account(), [tomato()], ctx())).toBe(0);
+  });
+
+  it('charges accrued interest only once the posting interval has passed', () => {
+    const leveraged = submitOrder(marginAccount(), buy(150), [tomato()], ctx()).portfolio;
+    const early = applyMarginRules(leveraged, [tomato()], ctx(), { amount: 0.5, since: NOW - 1000 });
+    const due = applyMarginRules(leveraged, [tomato()], ctx(), { amount: 0.5, since: NOW - MARGIN_INTEREST_POSTING_MS });
+
+    expect(early.portfolio).toBe(leveraged);
+    expect(due.portfolio.cashBalance).toBeCloseTo(-500.5, 8);
+    expect(due.portfolio.interestPaid).toBeCloseTo(0.5, 8);
+    expect(due.events).toEqual([{ kind: 'INTEREST_CHARGED', amount: 0.5 }]);
+  });
+
+  it('leaves cash accounts and unleveraged margin accounts alone', () => {
+    const cash = account();
+    const flat = marginAccount();
+    const nothing = { amount: 0, since: NOW - MARGIN_INTEREST_POSTING_MS };
+
+    expect(applyMarginRules(cash, [tomato()], ctx(), nothing).portfolio).toBe(cash);
+    expect(applyMarginRules(flat, [tomato()], ctx(), nothing).portfolio).toBe(flat);
+  });
+
+  it('cancels open orders and liquidates positions below maintenance', () => {
+    const leveraged = submitOrder(marginAccount(), buy(150), [tomato()], ctx()).portfolio;
+    const withOrder = submitOrder(leveraged, sell(10, 12), [tomato()], ctx()).portfolio;
+    const crashed = [tomato({ current_price: 4 })];
+    const result = applyMarginRules(withOrder, crashed, ctx(), { amount: 0, since: NOW });
+
+    expect(kinds(result)).toEqual(['MARGIN_CALL', 'NOTIFICATION', 'ORDER_CANCELLED', 'FILL', 'NOTIFICATION']);
+    expect(result.portfolio.openOrders).toHaveLength(0);
+    expect(result.portfolio.holdings.TOM.quantity).toBe(0);
+    expect(result.portfolio.transactions.at(-1)).toMatchObject({ type: 'SELL', quantity: 150, price: 4, liquidation: true });
+    expect(result.events.at(-1)).toMatchObject({ message: "Liquidated: sold 150 Tomato @ $4.00 avg" });
+    expect(result.portfolio.cashBalance).toBeGreaterThan(0);
+  });
+
+  it('counts uncharged interest against maintenance and charges it with the margin call', () => {
+    const leveraged = submitOrder(marginAccount(), buy(150), [tomato()], ctx()).portfolio;
+    // At 6 equity is 400 against 225 maintenance; 200 of interest tips it under
+    const result = applyMarginRules(leveraged, [tomato({ current_price: 6 })], ctx(), { amount: 200, since: NOW });
+
+    expect(kinds(result).slice(0, 2)).toEqual(['INTEREST_CHARGED', 'MARGIN_CALL']);
+    expect(result.events[1]).toMatchObject({ equity: 200, requirement: 225 });
+    expect(result.portfolio.interestPaid).toBe(200);
+  });
+
+  it('only switches back to cash once nothing is borrowed', () => {
+    const short = submitOrder(marginAccount(), sell(50), [tomato()], ctx()).portfolio;
+
+    expect(rejection(setAccountType(short, 'CASH'))).toBe("Cover short positions and repay borrowed cash first");
+    expect(setAccountType(marginAccount(), 'CASH').portfolio.accountType).toBe('CASH');
+    expect(setAccountType(account(), 'MARGIN').portfolio.accountType).toBe('MARGIN');
+  });
+});
+
+describe('funding', () => {
+  it('deposits cash and records the funding event', () => {
+    const result = depositCash(account(), 500, ctx());
+
+    expect(result.portfolio.cashBalance).toBe(1500);
+    expect(result.portfolio.fundingEvents).toMatchObject([{ time: NOW, kind: 'DEPOSIT', amount: 500 }]);
+  });
+
+  it('rejects a deposit that is not a positive amount', () => {
+    const portfolio = account();
+
+    expect(rejection(depositCash(portfolio, 0, ctx()))).toBe("Enter a valid amount");
+    expect(depositCash(portfolio, NaN, ctx()).portfolio).toBe(portfolio);
+  });
+
+  it('resets to the initial cash, cancelling orders but keeping settings and history', () => {
+    const lifo: Portfolio = { ...account(1000, { TOM: holdingOf(10) }), costBasisMethod: 'LIFO' };
+    const placed = submitOrder(lifo, sell(4, 11), [tomato()], ctx()).portfolio;
+    const notifications: InboxNotification[] = [{ id: 'n1', time: NOW, category: 'SYSTEM', message: 'Hi', level: 'info', read: false }];
+    const result = resetPortfolio({ ...placed, notifications, version: 7 }, ctx());
+
+    expect(result.portfolio).toMatchObject({ cashBalance: INITIAL_CASH, openOrders: [], costBasisMethod: 'LIFO', notifications, version: 7 });
+    expect(result.portfolio.holdings).toEqual({});
+    expect(result.portfolio.closedOrders).toMatchObject([{ status: 'CANCELLED' }]);
+    expect(result.portfolio.fundingEvents).toMatchObject([{ kind: 'RESET', amount: INITIAL_CASH }]);
+    expect(kinds(result)).toEqual(['ORDER_CANCELLED', 'NOTIFICATION']);
+  });
+
+  it('resets a document written before finished orders were kept', () => {
+    const legacy = { ...account(), closedOrders: undefined } as unknown as Portfolio;
+
+    expect(resetPortfolio(legacy, ctx()).portfolio.closedOrders).toEqual([]);
+  });
+});
+
+describe('listings', () => {
+  it.each([
+    ['a halted asset', tomato({ status: 'HALTED' }), buy(1), "Tomato is halted"],
+    ['a delisted asset', tomato({ status: 'DELISTED' }), buy(1), "Tomato has been delisted"],
+    ['a size off the lot grid', tomato({ lotSize: 5 }), buy(7), "Tomato trades in lots of 5"],
+    ['a price off the tick grid', tomato({ tickSize: 0.05 }), buy(1, 9.92), "Tomato prices move in steps of $0.05"],
+    ['a trigger off the tick grid', tomato({ tickSize: 0.05 }), conditional('BUY', 'STOP_MARKET', { triggerPrice: 10.51 }), "Tomato prices move in steps of $0.05"]
+  ])('rejects orders on %s', (_, asset, intent, reason) => {
+    const portfolio = account();
+
+    expect(rejection(submitOrder(portfolio, intent, [asset], ctx()))).toBe(reason);
+  });
+
+  it('accepts sizes and prices on the grid', () => {
+    const result = submitOrder(account(), buy(10, 9.95), [tomato({ tickSize: 0.05, lotSize: 5 })], ctx());
+
+    expect(result.portfolio.openOrders).toHaveLength(1);
+  });
+
+  it('rejects amendments off the grid', () => {
+    const placed = submitOrder(account(), buy(10, 9), [tomato()], ctx()).portfolio;
+    const result = amendOrder(placed, placed.openOrders[0].id, { targetPrice: 9.25 }, [tomato({ tickSize: 0.5 })], ctx());
+
+    expect(rejection(result)).toBe("Tomato prices move in steps of $0.5");
+  });
+
+  it('keeps resting orders on a halted asset without matching them', () => {
+    const placed = submitOrder(account(), buy(5, 9.9), [tomato()], ctx()).portfolio;
+
+    expect(matchOpenOrders(placed, [tomato({ current_price: 9.8, status: 'HALTED' })], ctx()).portfolio).toBe(placed);
+  });
+
+  it('settles a delisted asset: orders cancelled and the position closed at the delisting price', () => {
+    const placed = submitOrder(account(1000, { TOM: holdingOf(10) }), sell(4, 12), [tomato()], ctx()).portfolio;
+    const result = settleDelistings(placed, [tomato({ status: 'DELISTED', delistPrice: 3 })], ctx());
+
+    expect(result.portfolio.openOrders).toEqual([]);
+    expect(result.portfolio.holdings.TOM).toMatchObject({ quantity: 0, lots: [], realizedPnl: 10 * (3 - 8) });
+    expect(result.portfolio.cashBalance).toBeCloseTo(1030);
+    expect(result.portfolio.transactions).toMatchObject([{ type: 'SELL', quantity: 10, price: 3, fee: 0, settlement: true }]);
+    expect(kinds(result)).toEqual(['ORDER_CANCELLED', 'FILL', 'NOTIFICATION']);
+  });
+
+  it('leaves accounts without business in delisted assets alone', () => {
+    const portfolio = account(1000, { TOM: holdingOf(10) });
+
+    expect(settleDelistings(portfolio, [tomato()], ctx()).portfolio).toBe(portfolio);
+    expect(settleDelistings(account(), [tomato({ status: 'DELISTED' })], ctx()).events).toEqual([]);
+  });
+});
+
+describe('normalizeOrder', () => {
+  it('fills in lifecycle fields for orders stored before they existed', () => {
+    const legacy = { id: 'o1', assetId: 'TOM', type: 'BUY', quantity: 5, targetPrice: 9, timestamp: NOW } as unknown as LimitOrder;
+
+    expect(normalizeOrder(legacy)).toMatchObject({ status: 'OPEN', filledQuantity: 0, avgFillPrice: 0, orderType: 'LIMIT', timeInForce: 'GTC', feeRate: 0, feesPaid: 0 });
+  });
+
+  it('turns a legacy short sale flag into a short quantity', () => {
+    const legacy = { id: 'o1', assetId: 'TOM', type: 'SELL', quantity: 5, targetPrice: 11, timestamp: NOW, shortSale: true } as unknown as LimitOrder;
+    const normalized = normalizeOrder(legacy);
+
+    expect(normalized.shortQuantity).toBe(5);
+    expect(normalized).not.toHaveProperty('shortSale');
+  });
+});
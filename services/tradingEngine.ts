@@ -0,0 +1,1244 @@
+import {
+  Asset,
+  Portfolio,
+  Holding,
+  LimitOrder,
+  Transaction,
+  OrderIntent,
+  EngineContext,
+  EngineEvent,
+  EngineResult,
+  OrderBook,
+  OrderSide,
+  OrderType,
+  TimeInForce,
+  OrderAmendment,
+  OrderAmendmentRequest,
+  Liquidity,
+  CostBasisMethod,
+  AccountType,
+  InterestAccrual
+} from '../types';
+import { STOP_MARKET_COLLAR, ORDER_TYPE_LABELS, COST_BASIS_LABELS, DEFAULT_PORTFOLIO_DATA, MARGIN_INTEREST_POSTING_MS } from '../constants';
+import { walkBook } from './orderBook';
+import { tradingVolume, recordVolume, feeRateFor, minimumFeeFor, calculateFee } from './fees';
+import { bookTrade } from './taxLots';
+import { marginStatus, marginInterest, positionOf } from './margin';
+
+// Headless order logic. No React, no Firebase: every function takes a portfolio
+// and returns a fresh one plus the events the caller should surface.
+
+const clonePortfolio = (portfolio: Portfolio): Portfolio =>
+  JSON.parse(JSON.stringify(portfolio)) as Portfolio;
+
+const getHolding = (portfolio: Portfolio, assetId: string): Holding =>
+  portfolio.holdings[assetId] || { quantity: 0, avgCost: 0, lots: [], realizedPnl: 0 };
+
+/**
+ * Books the traded leg of a fill and records the transaction: a BUY pays cost
+ * plus fee, a SELL receives proceeds less fee, and the holding's lots are
+ * opened or closed by the portfolio's cost-basis method. Margin accounts may
+ * sell into a short position. Mutates the (already cloned) portfolio.
+ */
+const bookFill = (portfolio: Portfolio, transaction: Transaction, lotIds?: string[]) => {
+  const { assetId, quantity, price } = transaction;
+  const fee = transaction.fee || 0;
+  const amount = transaction.type === 'BUY' ? quantity * price + fee : quantity * price - fee;
+
+  const trade = bookTrade(getHolding(portfolio, assetId), {
+    id: transaction.id,
+    side: transaction.type,
+    quantity,
+    amount,
+    timestamp: transaction.timestamp,
+    method: portfolio.costBasisMethod,
+    lotIds,
+    allowShort: portfolio.accountType === 'MARGIN'
+  });
+  portfolio.cashBalance += transaction.type === 'BUY' ? -amount : amount;
+  portfolio.holdings[assetId] = trade.holding;
+  if (trade.realizedPnl !== undefined) transaction.realizedPnl = trade.realizedPnl;
+  portfolio.feesPaid = (portfolio.feesPaid || 0) + fee;
+  portfolio.volumeByDay = recordVolume(portfolio.volumeByDay || {}, transaction.timestamp, quantity * price);
+  portfolio.transactions.push(transaction);
+};
+
+// A refused step: the portfolio as it was, and the reason as a REJECTED event
+// and a notification. Shared by every service that returns an EngineResult.
+export const reject = (portfolio: Portfolio, reason: string): EngineResult => ({
+  portfolio,
+  events: [
+    { kind: 'REJECTED', reason },
+    { kind: 'NOTIFICATION', message: reason, level: 'info', category: 'REJECTION' }
+  ]
+});
+
+export const CONDITIONAL_ORDER_TYPES: OrderType[] = ['STOP_MARKET', 'STOP_LIMIT', 'TAKE_PROFIT', 'TRAILING_STOP'];
+
+// Conditional orders that become market orders once triggered
+const triggersToMarket = (orderType: OrderType) =>
+  orderType === 'STOP_MARKET' || orderType === 'TAKE_PROFIT' || orderType === 'TRAILING_STOP';
+
+export const isConditional = (orderType: OrderType) => CONDITIONAL_ORDER_TYPES.includes(orderType);
+
+export const isArmed = (order: LimitOrder) => isConditional(order.orderType) && !order.triggeredAt;
+
+const validateIntent = (intent: OrderIntent): string | null => {
+  const { orderType, quantity } = intent;
+  if (!(quantity > 0)) return "Enter a valid quantity";
+  if ((orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && !((intent.limitPrice || 0) > 0)) {
+    return "Enter a valid price";
+  }
+  if ((orderType === 'STOP_MARKET' || orderType === 'STOP_LIMIT' || orderType === 'TAKE_PROFIT')
+    && !((intent.triggerPrice || 0) > 0)) {
+    return "Enter a valid trigger price";
+  }
+  if (orderType === 'TRAILING_STOP' && !((intent.trailingOffset || 0) > 0)) {
+    return "Enter a valid trailing offset";
+  }
+  return null;
+};
+
+// Within float error of a whole number of steps
+const onGrid = (value: number, step: number) => Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+// The catalog's rules for the asset: it must be trading, and sizes and prices
+// must sit on its lot and tick grid
+const validateListing = (asset: Asset, quantity: number | undefined, prices: (number | undefined)[]): string | null => {
+  if (asset.status === 'HALTED') return `${asset.name} is halted`;
+  if (asset.status === 'DELISTED') return `${asset.name} has been delisted`;
+  if (quantity !== undefined && asset.lotSize && !onGrid(quantity, asset.lotSize)) {
+    return `${asset.name} trades in lots of ${asset.lotSize}`;
+  }
+  if (asset.tickSize && prices.some(price => price !== undefined && !onGrid(price, asset.tickSize))) {
+    return `${asset.name} prices move in steps of $${asset.tickSize}`;
+  }
+  return null;
+};
+
+// Prices an intent sets explicitly; trailing stops derive theirs from the market
+const intentPrices = (intent: OrderIntent) => [
+  intent.orderType === 'LIMIT' || intent.orderType === 'STOP_LIMIT' ? intent.limitPrice : undefined,
+  intent.orderType === 'TRAILING_STOP' ? undefined : intent.triggerPrice,
+  intent.takeProfitPrice,
+  intent.stopLossPrice
+];
+
+const isImmediate = (timeInForce: TimeInForce) => timeInForce === 'IOC' || timeInForce === 'FOK';
+
+// Orders that execute on arrival or once triggered take liquidity; the rest
+// rest on the book until the market comes to them
+export const liquidityFor = (orderType: OrderType, timeInForce: TimeInForce = 'GTC'): Liquidity =>
+  orderType === 'MARKET' || triggersToMarket(orderType) || isImmediate(timeInForce) ? 'TAKER' : 'MAKER';
+
+// Fee terms an order is placed with, at the portfolio's current volume tier
+const feeTermsFor = (
+  intent: OrderIntent,
+  portfolio: Portfolio,
+  ctx: EngineContext
+): Pick<LimitOrder, 'feeRate' | 'minimumFee' | 'feesPaid'> => ({
+  feeRate: feeRateFor(
+    ctx.feeSchedule,
+    intent.assetId,
+    liquidityFor(intent.orderType, intent.timeInForce),
+    tradingVolume(portfolio.volumeByDay, ctx.now)
+  ),
+  minimumFee: minimumFeeFor(ctx.feeSchedule, intent.assetId),
+  feesPaid: 0
+});
+
+// Fee owed on a fill of `quantity` units at `price`
+const fillFee = (order: LimitOrder, quantity: number, price: number) =>
+  calculateFee(quantity * price, order.feeRate, Math.max(0, order.minimumFee - order.feesPaid));
+
+const validateTimeInForce = (intent: OrderIntent, now: number): string | null => {
+  const timeInForce = intent.timeInForce || 'GTC';
+  if (isImmediate(timeInForce) && isConditional(intent.orderType)) {
+    return "IOC and FOK only apply to market and limit orders";
+  }
+  if (timeInForce === 'GTD' && !((intent.expiresAt || 0) > now)) {
+    return "Enter an expiry in the future";
+  }
+  return null;
+};
+
+// DAY orders live until local midnight
+const endOfDay = (now: number) => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+const expiryFor = (intent: OrderIntent, now: number): number | undefined => {
+  if (intent.timeInForce === 'DAY') return endOfDay(now);
+  if (intent.timeInForce === 'GTD') return intent.expiresAt;
+  return undefined;
+};
+
+// Where a trailing stop would fire if the price never moved again
+const initialTrailingTrigger = (side: OrderSide, price: number, offset: number) =>
+  side === 'SELL' ? price - offset : price + offset;
+
+/**
+ * Per-unit price a resting order is escrowed (BUY) or displayed (SELL) at.
+ * BUY orders that turn into market orders escrow a collar above the trigger,
+ * and never fill above it.
+ */
+export const restingOrderPrice = (intent: OrderIntent, asset: Asset): number => {
+  const { orderType, type } = intent;
+  if (orderType === 'LIMIT' || orderType === 'STOP_LIMIT') return intent.limitPrice || 0;
+
+  const trigger = orderType === 'TRAILING_STOP'
+    ? initialTrailingTrigger(type, asset.current_price, intent.trailingOffset || 0)
+    : intent.triggerPrice || 0;
+  return type === 'BUY' ? trigger * (1 + STOP_MARKET_COLLAR) : trigger;
+};
+
+const remainingQuantity = (order: LimitOrder) => order.quantity - order.filledQuantity;
+
+// What an order holds back right now: cash for a BUY (fees included), units
+// for a SELL. Short sales borrow the units they sell short, so only the held
+// part is held back.
+const escrowOf = (order: LimitOrder) => {
+  if (order.type === 'SELL') return Math.max(0, remainingQuantity(order) - (order.shortQuantity || 0));
+  return remainingQuantity(order) * order.targetPrice + fillFee(order, remainingQuantity(order), order.targetPrice);
+};
+
+interface EscrowTotals {
+  cash: number;
+  units: Record<string, number>;
+}
+
+/**
+ * Total escrow held by a set of open orders. OCO siblings share a single
+ * reservation sized for the largest of them; pending bracket exits hold none
+ * because their quantity is still zero.
+ */
+const escrowTotals = (orders: LimitOrder[]): EscrowTotals => {
+  const reservations = new Map<string, { order: LimitOrder; amount: number }>();
+  orders.forEach(order => {
+    const key = order.ocoGroupId || order.id;
+    const amount = escrowOf(order);
+    const existing = reservations.get(key);
+    if (!existing || amount > existing.amount) reservations.set(key, { order, amount });
+  });
+
+  const totals: EscrowTotals = { cash: 0, units: {} };
+  reservations.forEach(({ order, amount }) => {
+    if (order.type === 'BUY') {
+      totals.cash += amount;
+    } else {
+      totals.units[order.assetId] = (totals.units[order.assetId] || 0) + amount;
+    }
+  });
+  return totals;
+};
+
+// Cash held back by open orders; it still counts towards the account's equity
+export const escrowedCash = (portfolio: Portfolio) => escrowTotals(portfolio.openOrders).cash;
+
+// Units of an asset held back by open SELL orders
+export const escrowedUnits = (portfolio: Portfolio, assetId: string) =>
+  escrowTotals(portfolio.openOrders).units[assetId] || 0;
+
+const accountStatus = (portfolio: Portfolio, assets: Asset[], ctx: EngineContext) =>
+  marginStatus(portfolio, assets, ctx.margin, escrowedCash(portfolio));
+
+/**
+ * Why the account can't pay `cashNeeded` for `quantity` units, if it can't.
+ * Cash accounts pay from free cash; margin accounts borrow against their
+ * buying power, and covering a short doesn't use any.
+ */
+const checkBuy = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  assetId: string,
+  quantity: number,
+  cashNeeded: number,
+  ctx: EngineContext
+): string | null => {
+  if (portfolio.accountType !== 'MARGIN') {
+    return cashNeeded > portfolio.cashBalance ? "Insufficient funds" : null;
+  }
+  const covering = Math.min(quantity, Math.max(0, -positionOf(portfolio, assetId)));
+  const opening = cashNeeded * (quantity - covering) / quantity;
+  return opening > accountStatus(portfolio, assets, ctx).buyingPower ? "Insufficient buying power" : null;
+};
+
+/**
+ * Why the account can't sell `quantity` units at `price`, if it can't. Cash
+ * accounts sell what they hold; margin accounts may sell short the rest.
+ */
+const checkSell = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  assetId: string,
+  quantity: number,
+  price: number,
+  ctx: EngineContext
+): string | null => {
+  const held = getHolding(portfolio, assetId).quantity;
+  if (quantity <= held) return null;
+  if (portfolio.accountType !== 'MARGIN') return "Insufficient holdings";
+  const opening = (quantity - Math.max(0, held)) * price;
+  return opening > accountStatus(portfolio, assets, ctx).buyingPower ? "Insufficient buying power" : null;
+};
+
+const escrowDelta = (before: LimitOrder[], after: LimitOrder[]): EscrowTotals => {
+  const previous = escrowTotals(before);
+  const next = escrowTotals(after);
+  const units: Record<string, number> = {};
+  new Set([...Object.keys(previous.units), ...Object.keys(next.units)]).forEach(assetId => {
+    units[assetId] = (next.units[assetId] || 0) - (previous.units[assetId] || 0);
+  });
+  return { cash: next.cash - previous.cash, units };
+};
+
+/**
+ * Moves cash and units between the free balance and escrow so that escrow
+ * matches `after` instead of `before`. Mutates the (already cloned) portfolio.
+ */
+const settleEscrow = (portfolio: Portfolio, before: LimitOrder[], after: LimitOrder[]) => {
+  const delta = escrowDelta(before, after);
+  portfolio.cashBalance -= delta.cash;
+  Object.entries(delta.units).forEach(([assetId, units]) => {
+    if (units === 0) return;
+    const holding = getHolding(portfolio, assetId);
+    portfolio.holdings[assetId] = { ...holding, quantity: holding.quantity - units };
+  });
+};
+
+const buildRestingOrder = (
+  intent: OrderIntent,
+  asset: Asset,
+  portfolio: Portfolio,
+  ctx: EngineContext
+): LimitOrder => {
+  const order: LimitOrder = {
+    id: ctx.generateId(),
+    assetId: asset.id,
+    type: intent.type,
+    quantity: intent.quantity,
+    targetPrice: restingOrderPrice(intent, asset),
+    timestamp: ctx.now,
+    status: 'OPEN',
+    filledQuantity: 0,
+    avgFillPrice: 0,
+    orderType: intent.orderType,
+    timeInForce: intent.timeInForce || 'GTC',
+    ...feeTermsFor(intent, portfolio, ctx)
+  };
+  const expiresAt = expiryFor(intent, ctx.now);
+  if (expiresAt !== undefined) order.expiresAt = expiresAt;
+  if (intent.type === 'SELL' && intent.lotIds && intent.lotIds.length) order.lotIds = intent.lotIds;
+  if (intent.orderType === 'TRAILING_STOP') {
+    order.trailingOffset = intent.trailingOffset;
+    order.trailingReference = asset.current_price;
+    order.triggerPrice = initialTrailingTrigger(intent.type, asset.current_price, intent.trailingOffset as number);
+  } else if (isConditional(intent.orderType)) {
+    order.triggerPrice = intent.triggerPrice;
+  }
+  return order;
+};
+
+// Exit legs for a position of `quantity` units on the given side
+const exitLegs = (intent: OrderIntent, side: OrderSide): OrderIntent[] => {
+  const legs: OrderIntent[] = [];
+  const base = { assetId: intent.assetId, type: side, quantity: intent.quantity, timeInForce: 'GTC' as TimeInForce };
+  if (intent.takeProfitPrice !== undefined) {
+    legs.push({ ...base, orderType: 'LIMIT', limitPrice: intent.takeProfitPrice });
+  }
+  if (intent.stopLossPrice !== undefined) {
+    legs.push({ ...base, orderType: 'STOP_MARKET', triggerPrice: intent.stopLossPrice });
+  }
+  return legs;
+};
+
+const hasAttachedExits = (intent: OrderIntent) =>
+  intent.takeProfitPrice !== undefined || intent.stopLossPrice !== undefined;
+
+const validateExits = (intent: OrderIntent): string | null => {
+  const { takeProfitPrice, stopLossPrice } = intent;
+  if (takeProfitPrice !== undefined && !(takeProfitPrice > 0)) return "Enter a valid take-profit price";
+  if (stopLossPrice !== undefined && !(stopLossPrice > 0)) return "Enter a valid stop-loss price";
+  if (takeProfitPrice !== undefined && stopLossPrice !== undefined && takeProfitPrice <= stopLossPrice) {
+    return "Take-profit must be above stop-loss";
+  }
+  return null;
+};
+
+/**
+ * Validates an order intent and applies it. Market orders walk the asset's
+ * order book and fill at the volume-weighted price (or at the current price
+ * when no book is available). Every other type escrows cash (BUY) or holdings
+ * (SELL) and is parked in `openOrders`; conditional types stay armed there
+ * until `matchOpenOrders` sees their trigger. Fees come out of cash with each
+ * fill; resting BUYs escrow them up front along with the cost.
+ *
+ * A BUY with a take-profit and/or stop-loss becomes a bracket: the exits are
+ * parked as PENDING children and only escrow units once the entry fills. A
+ * SELL with them skips the entry and places the exits as an OCO pair.
+ */
+export const submitOrder = (
+  portfolio: Portfolio,
+  intent: OrderIntent,
+  assets: Asset[],
+  ctx: EngineContext
+): EngineResult => {
+  if (!hasAttachedExits(intent)) return submitSingleOrder(portfolio, intent, assets, ctx);
+
+  const invalidExits = validateExits(intent);
+  if (invalidExits) return reject(portfolio, invalidExits);
+
+  if (intent.type === 'SELL') return submitOcoOrder(portfolio, exitLegs(intent, 'SELL'), assets, ctx);
+
+  const entry = submitSingleOrder(portfolio, intent, assets, ctx);
+  if (entry.portfolio === portfolio) return entry;
+
+  const asset = assets.find(a => a.id === intent.assetId) as Asset;
+  const newPortfolio = entry.portfolio;
+  const placed = entry.events.find(e => e.kind === 'ORDER_PLACED');
+  const parentId = placed && placed.kind === 'ORDER_PLACED' ? placed.order.id : undefined;
+  const legs = exitLegs(intent, 'SELL');
+  const ocoGroupId = legs.length > 1 ? ctx.generateId() : undefined;
+
+  // An immediate entry (market, IOC, FOK) may have filled less than asked
+  const filledNow = entry.events.reduce(
+    (sum, e) => sum + (e.kind === 'FILL' ? e.transaction.quantity : 0), 0
+  );
+
+  const children = legs.map(leg => {
+    const child = buildRestingOrder(leg, asset, newPortfolio, ctx);
+    if (ocoGroupId) child.ocoGroupId = ocoGroupId;
+    child.quantity = filledNow;
+    if (parentId) {
+      // Resting entry: exits wait and grow with each entry fill
+      child.parentId = parentId;
+      child.quantity = 0;
+      child.status = 'PENDING';
+    }
+    return child;
+  });
+
+  // An immediate entry already filled, so its exits escrow the new units right away
+  const before = newPortfolio.openOrders;
+  newPortfolio.openOrders = [...before, ...children];
+  settleEscrow(newPortfolio, before, newPortfolio.openOrders);
+
+  return {
+    portfolio: newPortfolio,
+    events: [...entry.events, ...children.map(order => ({ kind: 'ORDER_PLACED', order }) as EngineEvent)]
+  };
+};
+
+/**
+ * Places resting orders that cancel each other: the first to fill cancels the
+ * rest. Legs must be on the same asset, side and size, and hold one shared
+ * escrow (the largest any single leg needs) instead of one each.
+ */
+export const submitOcoOrder = (
+  portfolio: Portfolio,
+  legs: OrderIntent[],
+  assets: Asset[],
+  ctx: EngineContext
+): EngineResult => {
+  if (legs.length === 1) return submitSingleOrder(portfolio, legs[0], assets, ctx);
+  if (legs.length === 0) return reject(portfolio, "An OCO order needs at least two legs");
+
+  const [first] = legs;
+  const asset = assets.find(a => a.id === first.assetId);
+  if (!asset) return reject(portfolio, `Unknown asset ${first.assetId}`);
+
+  const mismatched = legs.some(leg =>
+    leg.assetId !== first.assetId || leg.type !== first.type || leg.quantity !== first.quantity
+    || leg.orderType === 'MARKET'
+  );
+  if (mismatched) return reject(portfolio, "OCO legs must be resting orders on the same asset, side and size");
+
+  for (const leg of legs) {
+    const invalid = validateIntent(leg) || validateListing(asset, leg.quantity, intentPrices(leg)) || validateTimeInForce(leg, ctx.now);
+    if (invalid) return reject(portfolio, invalid);
+    if (isImmediate(leg.timeInForce || 'GTC')) return reject(portfolio, "OCO legs must be able to rest");
+  }
+
+  const ocoGroupId = ctx.generateId();
+  const orders = legs.map(leg => ({ ...buildRestingOrder(leg, asset, portfolio, ctx), ocoGroupId }));
+  const after = [...portfolio.openOrders, ...orders];
+  const delta = escrowDelta(portfolio.openOrders, after);
+
+  const unaffordable = delta.cash > 0 && checkBuy(portfolio, assets, asset.id, first.quantity, delta.cash, ctx);
+  if (unaffordable) return reject(portfolio, unaffordable);
+  if ((delta.units[asset.id] || 0) > getHolding(portfolio, asset.id).quantity) {
+    return reject(portfolio, "Insufficient holdings");
+  }
+
+  const newPortfolio = clonePortfolio(portfolio);
+  newPortfolio.openOrders = after;
+  settleEscrow(newPortfolio, portfolio.openOrders, after);
+
+  return {
+    portfolio: newPortfolio,
+    events: [
+      ...orders.map(order => ({ kind: 'ORDER_PLACED', order }) as EngineEvent),
+      { kind: 'NOTIFICATION', message: "OCO order placed successfully", level: 'success' }
+    ]
+  };
+};
+
+/**
+ * Executes an order against the book right now: market orders, and limit
+ * orders marked IOC or FOK. Nothing rests afterwards. IOC keeps whatever
+ * filled; FOK and plain market orders need the whole quantity or nothing.
+ */
+const executeImmediately = (
+  portfolio: Portfolio,
+  intent: OrderIntent,
+  asset: Asset,
+  assets: Asset[],
+  ctx: EngineContext,
+  liquidation = false
+): EngineResult => {
+  const { type, orderType, quantity } = intent;
+  const timeInForce = intent.timeInForce || 'GTC';
+
+  const probe: LimitOrder = {
+    id: '',
+    assetId: asset.id,
+    type,
+    quantity,
+    targetPrice: orderType === 'MARKET' ? 0 : restingOrderPrice(intent, asset),
+    timestamp: ctx.now,
+    status: 'OPEN',
+    filledQuantity: 0,
+    avgFillPrice: 0,
+    orderType,
+    timeInForce,
+    ...feeTermsFor(intent, portfolio, ctx)
+  };
+  const match = matchAgainstLiquidity(probe, asset, asset.orderBook);
+
+  if (match.quantity === 0) {
+    return reject(portfolio, orderType === 'MARKET'
+      ? "Insufficient liquidity"
+      : "No liquidity at your limit price, order cancelled");
+  }
+  if (match.quantity < quantity && timeInForce !== 'IOC') {
+    return reject(portfolio, timeInForce === 'FOK'
+      ? "Fill-or-kill order could not be filled in full"
+      : "Insufficient liquidity");
+  }
+
+  const cost = match.quantity * match.price;
+  const fee = fillFee(probe, match.quantity, match.price);
+  const unaffordable = type === 'BUY'
+    ? checkBuy(portfolio, assets, asset.id, match.quantity, cost + fee, ctx)
+    : checkSell(portfolio, assets, asset.id, match.quantity, match.price, ctx);
+  if (unaffordable && !liquidation) return reject(portfolio, unaffordable);
+
+  const newPortfolio = clonePortfolio(portfolio);
+  const transaction: Transaction = {
+    id: ctx.generateId(),
+    type,
+    assetId: asset.id,
+    assetName: asset.name,
+    quantity: match.quantity,
+    price: match.price,
+    timestamp: ctx.now,
+    orderType,
+    fee,
+    liquidity: 'TAKER'
+  };
+  if (liquidation) transaction.liquidation = true;
+  bookFill(newPortfolio, transaction, intent.lotIds);
+
+  const events: EngineEvent[] = [{ kind: 'FILL', transaction }];
+  if (match.book) events.push({ kind: 'LIQUIDITY_TAKEN', assetId: asset.id, book: match.book });
+  const filled = match.quantity < quantity ? `${match.quantity}/${quantity}` : `${quantity}`;
+  events.push({
+    kind: 'NOTIFICATION',
+    message: liquidation
+      ? `Liquidated: ${type === 'SELL' ? 'sold' : 'bought back'} ${filled} ${asset.name} @ $${match.price.toFixed(2)} avg`
+      : match.quantity < quantity
+      ? `IOC ${type} filled ${match.quantity}/${quantity} ${asset.name} @ $${match.price.toFixed(2)} avg, rest cancelled`
+      : `Trade executed: ${quantity} ${asset.name} @ $${match.price.toFixed(2)} avg, fee $${fee.toFixed(2)}`,
+    category: 'FILL',
+    level: 'success'
+  });
+
+  return { portfolio: newPortfolio, events };
+};
+
+const submitSingleOrder = (
+  portfolio: Portfolio,
+  intent: OrderIntent,
+  assets: Asset[],
+  ctx: EngineContext
+): EngineResult => {
+  const asset = assets.find(a => a.id === intent.assetId);
+  if (!asset) return reject(portfolio, `Unknown asset ${intent.assetId}`);
+
+  const invalid = validateIntent(intent)
+    || validateListing(asset, intent.quantity, intentPrices(intent))
+    || validateTimeInForce(intent, ctx.now);
+  if (invalid) return reject(portfolio, invalid);
+
+  if (intent.orderType === 'MARKET' || isImmediate(intent.timeInForce || 'GTC')) {
+    return executeImmediately(portfolio, intent, asset, assets, ctx);
+  }
+
+  const { type, quantity } = intent;
+  const order = buildRestingOrder(intent, asset, portfolio, ctx);
+  const newPortfolio = clonePortfolio(portfolio);
+  const currentHolding = getHolding(newPortfolio, asset.id);
+
+  if (type === 'BUY') {
+    const cost = escrowOf(order);
+    const unaffordable = checkBuy(portfolio, assets, asset.id, quantity, cost, ctx);
+    if (unaffordable) return reject(portfolio, unaffordable);
+    // Deduct cash immediately (Escrow)
+    newPortfolio.cashBalance -= cost;
+  } else {
+    if (currentHolding.quantity < quantity) {
+      const unaffordable = checkSell(portfolio, assets, asset.id, quantity, order.targetPrice, ctx);
+      if (unaffordable) return reject(portfolio, unaffordable);
+      // Short sale: what isn't held is borrowed when it fills
+      order.shortQuantity = quantity - Math.max(0, currentHolding.quantity);
+    }
+    // Deduct holdings immediately (Escrow)
+    if (escrowOf(order) > 0) {
+      newPortfolio.holdings[asset.id] = {
+        ...currentHolding,
+        quantity: currentHolding.quantity - escrowOf(order)
+      };
+    }
+  }
+
+  newPortfolio.openOrders.push(order);
+
+  return {
+    portfolio: newPortfolio,
+    events: [
+      { kind: 'ORDER_PLACED', order },
+      { kind: 'NOTIFICATION', message: "Order placed successfully", level: 'success' }
+    ]
+  };
+};
+
+/**
+ * Fills orders persisted before lifecycle tracking and fees existed, and
+ * turns the old all-or-nothing short sale flag into a short quantity.
+ */
+export const normalizeOrder = ({ shortSale, ...order }: LimitOrder & { shortSale?: boolean }): LimitOrder => ({
+  ...order,
+  ...(shortSale && order.shortQuantity === undefined ? { shortQuantity: order.quantity } : {}),
+  status: order.status || 'OPEN',
+  filledQuantity: order.filledQuantity || 0,
+  avgFillPrice: order.avgFillPrice || 0,
+  orderType: order.orderType || 'LIMIT',
+  timeInForce: order.timeInForce || 'GTC',
+  feeRate: order.feeRate || 0,
+  minimumFee: order.minimumFee || 0,
+  feesPaid: order.feesPaid || 0
+});
+
+const isTerminal = (order: LimitOrder) =>
+  order.status === 'FILLED' || order.status === 'CANCELLED' || order.status === 'EXPIRED';
+
+// Finished orders go to history along with the step's fills
+const archiveClosed = (portfolio: Portfolio, orders: LimitOrder[], now: number) => {
+  const closed = orders
+    .filter(isTerminal)
+    .map(o => ({ ...o, closedAt: o.closedAt ?? now }));
+  if (closed.length) portfolio.closedOrders = [...(portfolio.closedOrders || []), ...closed];
+};
+
+/**
+ * Removes an open order and releases the escrow still held for its unfilled
+ * part back to cash or holdings. Cancelling a bracket entry also drops exits
+ * that are still pending; exits already protecting filled units stay. An OCO
+ * leg only frees the part of the shared escrow its siblings don't need.
+ * Unknown ids leave the portfolio untouched and emit nothing.
+ */
+export const cancelOrder = (
+  portfolio: Portfolio,
+  orderId: string,
+  ctx: EngineContext
+): EngineResult => {
+  const order = portfolio.openOrders.find(o => o.id === orderId);
+  if (!order) return { portfolio, events: [] };
+
+  const cancelled = portfolio.openOrders.filter(o =>
+    o.id === orderId || (o.parentId === orderId && o.status === 'PENDING')
+  );
+  const newPortfolio = clonePortfolio(portfolio);
+  newPortfolio.openOrders = portfolio.openOrders.filter(o => !cancelled.includes(o));
+
+  // Refund Cash or Holdings
+  settleEscrow(newPortfolio, portfolio.openOrders, newPortfolio.openOrders);
+
+  const closed = cancelled.map(o => ({ ...o, status: 'CANCELLED', closedAt: ctx.now }) as LimitOrder);
+  archiveClosed(newPortfolio, closed, ctx.now);
+
+  return {
+    portfolio: newPortfolio,
+    events: [
+      ...closed.map(order => ({ kind: 'ORDER_CANCELLED', order }) as EngineEvent),
+      { kind: 'NOTIFICATION', message: "Order cancelled", level: 'info' }
+    ]
+  };
+};
+
+/**
+ * Changes the price and/or quantity of an open order without losing its id or
+ * queue position. The escrow difference is checked against free cash or
+ * holdings and moved in the same step; the old values are appended to the
+ * order's amendment trail.
+ */
+export const amendOrder = (
+  portfolio: Portfolio,
+  orderId: string,
+  changes: OrderAmendmentRequest,
+  assets: Asset[],
+  ctx: EngineContext
+): EngineResult => {
+  const order = portfolio.openOrders.find(o => o.id === orderId);
+  if (!order) return reject(portfolio, "Order not found");
+
+  const { quantity, targetPrice, triggerPrice } = changes;
+  if (quantity !== undefined) {
+    if (order.parentId) return reject(portfolio, "Bracket exits follow their entry's size");
+    // OCO legs share one escrow, sized for equal quantities
+    if (order.ocoGroupId) return reject(portfolio, "Linked orders share their size; cancel and place them again");
+    if (!Number.isInteger(quantity) || quantity <= order.filledQuantity) {
+      return reject(portfolio, "Quantity must exceed what has already filled");
+    }
+  }
+  if (targetPrice !== undefined) {
+    if (order.orderType !== 'LIMIT' && order.orderType !== 'STOP_LIMIT') {
+      return reject(portfolio, "Only limit prices can be amended on this order");
+    }
+    if (!(targetPrice > 0)) return reject(portfolio, "Enter a valid price");
+  }
+  if (triggerPrice !== undefined) {
+    if (!isArmed(order) || order.orderType === 'TRAILING_STOP') {
+      return reject(portfolio, "Trigger can only be amended on an armed stop");
+    }
+    if (!(triggerPrice > 0)) return reject(portfolio, "Enter a valid trigger price");
+  }
+  const asset = assets.find(a => a.id === order.assetId);
+  const offListing = asset && validateListing(asset, quantity, [targetPrice, triggerPrice]);
+  if (offListing) return reject(portfolio, offListing);
+
+  // Leaves triggerPrice out rather than undefined, which Firestore won't store
+  const previous: OrderAmendment['previous'] = { quantity: order.quantity, targetPrice: order.targetPrice };
+  if (order.triggerPrice !== undefined) previous.triggerPrice = order.triggerPrice;
+  const amended: LimitOrder = {
+    ...order,
+    quantity: quantity ?? order.quantity,
+    amendments: [...(order.amendments || []), { timestamp: ctx.now, previous }]
+  };
+  if (targetPrice !== undefined) amended.targetPrice = targetPrice;
+  if (triggerPrice !== undefined) {
+    amended.triggerPrice = triggerPrice;
+    // Market-on-trigger BUYs escrow a collar above the trigger, so it moves too
+    if (triggersToMarket(order.orderType)) {
+      amended.targetPrice = order.type === 'BUY' ? triggerPrice * (1 + STOP_MARKET_COLLAR) : triggerPrice;
+    }
+  }
+  // A resized SELL escrows what it already holds plus the free units it
+  // needs; on a margin account anything beyond those is sold short
+  if (order.type === 'SELL' && quantity !== undefined) {
+    const free = getHolding(portfolio, order.assetId).quantity;
+    if (quantity > order.quantity) {
+      const needed = remainingQuantity(amended) - escrowOf(order);
+      const unavailable = checkSell(portfolio, assets, order.assetId, needed, amended.targetPrice, ctx);
+      if (unavailable) return reject(portfolio, unavailable);
+    }
+    const shortQuantity = remainingQuantity(amended) - escrowOf(order) - Math.max(0, free);
+    if (shortQuantity > 0) amended.shortQuantity = shortQuantity;
+    else delete amended.shortQuantity;
+  }
+
+  const after = portfolio.openOrders.map(o => o.id === orderId ? amended : o);
+  const delta = escrowDelta(portfolio.openOrders, after);
+  const unaffordable = delta.cash > 0
+    && checkBuy(portfolio, assets, order.assetId, remainingQuantity(amended), delta.cash, ctx);
+  if (unaffordable) return reject(portfolio, unaffordable);
+  if ((delta.units[order.assetId] || 0) > getHolding(portfolio, order.assetId).quantity) {
+    return reject(portfolio, "Insufficient holdings");
+  }
+
+  const newPortfolio = clonePortfolio(portfolio);
+  newPortfolio.openOrders = after;
+  settleEscrow(newPortfolio, portfolio.openOrders, after);
+
+  return {
+    portfolio: newPortfolio,
+    events: [
+      { kind: 'ORDER_AMENDED', order: amended },
+      { kind: 'NOTIFICATION', message: "Order amended", level: 'success' }
+    ]
+  };
+};
+
+/**
+ * Switches how future SELLs pick the lots they close. Realized P&L already
+ * booked is left as it is.
+ */
+export const setCostBasisMethod = (portfolio: Portfolio, method: CostBasisMethod): EngineResult => {
+  if (portfolio.costBasisMethod === method) return { portfolio, events: [] };
+  return {
+    portfolio: { ...portfolio, costBasisMethod: method },
+    events: [{ kind: 'NOTIFICATION', message: `Cost basis set to ${COST_BASIS_LABELS[method]}`, level: 'info' }]
+  };
+};
+
+/**
+ * Switches between a cash and a margin account. Going back to cash needs the
+ * account to be flat on borrowing: no short positions and no negative cash.
+ */
+export const setAccountType = (portfolio: Portfolio, accountType: AccountType): EngineResult => {
+  if (portfolio.accountType === accountType) return { portfolio, events: [] };
+  if (accountType === 'CASH') {
+    const short = Object.keys(portfolio.holdings).some(assetId => positionOf(portfolio, assetId) < 0);
+    if (short || portfolio.cashBalance < 0 || portfolio.openOrders.some(o => o.shortQuantity)) {
+      return reject(portfolio, "Cover short positions and repay borrowed cash first");
+    }
+  }
+  return {
+    portfolio: { ...portfolio, accountType },
+    events: [{
+      kind: 'NOTIFICATION',
+      message: accountType === 'MARGIN' ? "Margin trading enabled" : "Switched to a cash account",
+      level: 'info'
+    }]
+  };
+};
+
+/**
+ * Adds cash from outside the account. Deposits are recorded so the equity
+ * curve can tell them apart from trading gains.
+ */
+export const depositCash = (portfolio: Portfolio, amount: number, ctx: EngineContext): EngineResult => {
+  if (!(amount > 0)) return reject(portfolio, "Enter a valid amount");
+
+  const newPortfolio = clonePortfolio(portfolio);
+  newPortfolio.cashBalance += amount;
+  newPortfolio.fundingEvents = [
+    ...(portfolio.fundingEvents || []),
+    { id: ctx.generateId(), time: ctx.now, kind: 'DEPOSIT', amount }
+  ];
+  return {
+    portfolio: newPortfolio,
+    events: [{ kind: 'NOTIFICATION', message: `Deposited $${amount.toFixed(2)}`, level: 'success' }]
+  };
+};
+
+/**
+ * Starts the account over with the initial cash: open orders are cancelled
+ * and positions and running totals cleared. Settings, alerts, watchlists,
+ * notifications, history, the equity curve and earlier funding events carry
+ * over.
+ */
+export const resetPortfolio = (portfolio: Portfolio, ctx: EngineContext): EngineResult => {
+  const fresh = clonePortfolio(DEFAULT_PORTFOLIO_DATA as Portfolio);
+  const newPortfolio: Portfolio = {
+    ...fresh,
+    transactions: [...portfolio.transactions],
+    closedOrders: [...(portfolio.closedOrders || [])],
+    costBasisMethod: portfolio.costBasisMethod,
+    accountType: portfolio.accountType,
+    alerts: portfolio.alerts || [],
+    notifications: portfolio.notifications || [],
+    toastCategories: portfolio.toastCategories || fresh.toastCategories,
+    watchlists: portfolio.watchlists || [],
+    equityHistory: portfolio.equityHistory || [],
+    fundingEvents: [
+      ...(portfolio.fundingEvents || []),
+      { id: ctx.generateId(), time: ctx.now, kind: 'RESET', amount: fresh.cashBalance }
+    ],
+    version: portfolio.version
+  };
+
+  const closed = portfolio.openOrders.map(o => ({ ...o, status: 'CANCELLED', closedAt: ctx.now }) as LimitOrder);
+  archiveClosed(newPortfolio, closed, ctx.now);
+
+  return {
+    portfolio: newPortfolio,
+    events: [
+      ...closed.map(order => ({ kind: 'ORDER_CANCELLED', order }) as EngineEvent),
+      { kind: 'NOTIFICATION', message: "Portfolio reset", level: 'info' }
+    ]
+  };
+};
+
+// Worst price a triggered or resting order may fill at. Triggered SELL stops
+// and take-profits take whatever bids are there.
+const fillLimit = (order: LimitOrder) => {
+  if (order.orderType === 'MARKET') return order.type === 'BUY' ? Infinity : 0;
+  return triggersToMarket(order.orderType) && order.type === 'SELL' ? 0 : order.targetPrice;
+};
+
+const fillsAtMarket = (orderType: OrderType) => orderType === 'MARKET' || triggersToMarket(orderType);
+
+/**
+ * How much of a resting order the market can take right now, and at what
+ * average price. With a book, only levels at or better than the limit count;
+ * without one the whole remainder fills once the price crosses, at the limit
+ * for limit orders and at the current price for (triggered) market orders.
+ */
+const matchAgainstLiquidity = (
+  order: LimitOrder,
+  asset: Asset,
+  book: OrderBook | undefined
+): { quantity: number; price: number; book?: OrderBook } => {
+  const wanted = remainingQuantity(order);
+  const limit = fillLimit(order);
+
+  if (!book) {
+    // BUY: Execute if Current Price <= Limit
+    // SELL: Execute if Current Price >= Limit
+    const executable = order.type === 'BUY'
+      ? asset.current_price <= limit
+      : asset.current_price >= limit;
+    if (!executable) return { quantity: 0, price: 0 };
+    return {
+      quantity: wanted,
+      price: fillsAtMarket(order.orderType) ? asset.current_price : order.targetPrice
+    };
+  }
+
+  const crossing = order.type === 'BUY'
+    ? book.asks.filter(l => l.price <= limit)
+    : book.bids.filter(l => l.price >= limit);
+  const crossingBook = order.type === 'BUY'
+    ? { ...book, asks: crossing }
+    : { ...book, bids: crossing };
+
+  const walk = walkBook(crossingBook, order.type, wanted);
+  if (walk.quote.filledQuantity === 0) return { quantity: 0, price: 0 };
+
+  // Put back the levels that were out of reach for this order
+  const untouched = order.type === 'BUY'
+    ? book.asks.slice(crossing.length)
+    : book.bids.slice(crossing.length);
+  const bookAfter = order.type === 'BUY'
+    ? { ...book, asks: [...walk.book.asks, ...untouched] }
+    : { ...book, bids: [...walk.book.bids, ...untouched] };
+
+  return { quantity: walk.quote.filledQuantity, price: walk.quote.avgPrice, book: bookAfter };
+};
+
+/**
+ * Advances an armed order by one price observation: trailing stops ratchet
+ * their reference and trigger, and an order whose condition holds is stamped
+ * as triggered. Stops fire when the price moves against the side, take-profits
+ * when it moves in its favour.
+ */
+const evaluateTrigger = (order: LimitOrder, price: number, now: number): LimitOrder => {
+  let updated = order;
+  if (order.orderType === 'TRAILING_STOP') {
+    const previous = order.trailingReference ?? price;
+    const reference = order.type === 'SELL' ? Math.max(previous, price) : Math.min(previous, price);
+    if (reference !== order.trailingReference) {
+      updated = {
+        ...order,
+        trailingReference: reference,
+        triggerPrice: initialTrailingTrigger(order.type, reference, order.trailingOffset || 0)
+      };
+    }
+  }
+
+  const trigger = updated.triggerPrice || 0;
+  const fired = order.orderType === 'TAKE_PROFIT'
+    ? (order.type === 'SELL' ? price >= trigger : price <= trigger)
+    : (order.type === 'SELL' ? price <= trigger : price >= trigger);
+
+  return fired ? { ...updated, triggeredAt: now } : updated;
+};
+
+/**
+ * Expires orders past their deadline, evaluates triggers, then fills open
+ * orders against the latest prices, oldest first, as far as available liquidity allows. Each fill, partial or not,
+ * records its own transaction. A fill cancels the order's OCO siblings and
+ * grows its bracket exits. Escrow is settled once at the end by comparing the
+ * open orders before and after, so a BUY that fills below its escrowed price
+ * gets the difference back and shared OCO escrow is only released once.
+ */
+export const matchOpenOrders = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  ctx: EngineContext
+): EngineResult => {
+  if (portfolio.openOrders.length === 0) return { portfolio, events: [] };
+
+  const newPortfolio = clonePortfolio(portfolio);
+  const orders = [...newPortfolio.openOrders];
+  const events: EngineEvent[] = [];
+  // Orders on the same asset share this tick's liquidity
+  const books: Record<string, OrderBook | undefined> = {};
+  const touchedBooks = new Set<string>();
+  // Trailing references move without producing events but still need saving
+  let changed = false;
+
+  for (let i = 0; i < orders.length; i++) {
+    const resting = orders[i];
+    if (isTerminal(resting) || resting.status === 'PENDING') continue;
+
+    if (resting.expiresAt !== undefined && ctx.now >= resting.expiresAt) {
+      // Pending bracket exits can never activate once their entry is gone
+      orders.forEach((o, j) => {
+        if (j !== i && !(o.parentId === resting.id && o.status === 'PENDING')) return;
+        orders[j] = { ...o, status: 'EXPIRED', closedAt: ctx.now };
+        events.push({ kind: 'ORDER_EXPIRED', order: orders[j] });
+      });
+      events.push({
+        kind: 'NOTIFICATION',
+        message: `${ORDER_TYPE_LABELS[resting.orderType]} ${resting.type} expired: ${resting.quantity - resting.filledQuantity} unfilled, escrow released`,
+        level: 'info',
+        category: 'FILL'
+      });
+      continue;
+    }
+
+    // Halted and delisted assets don't trade; delisted ones are settled separately
+    const asset = assets.find(a => a.id === resting.assetId);
+    if (!asset || asset.status !== 'TRADING') continue;
+
+    let order = resting;
+    if (isArmed(order)) {
+      order = evaluateTrigger(order, asset.current_price, ctx.now);
+      if (order !== resting) {
+        orders[i] = order;
+        changed = true;
+      }
+      if (isArmed(order)) continue;
+      events.push({ kind: 'ORDER_TRIGGERED', order });
+      events.push({
+        kind: 'NOTIFICATION',
+        message: `${ORDER_TYPE_LABELS[order.orderType]} ${order.type} triggered: ${asset.name} @ $${asset.current_price.toFixed(2)}`,
+        level: 'info'
+      });
+    }
+
+    if (!(asset.id in books)) books[asset.id] = asset.orderBook;
+    const match = matchAgainstLiquidity(order, asset, books[asset.id]);
+    if (match.quantity === 0) continue;
+    if (match.book) {
+      books[asset.id] = match.book;
+      touchedBooks.add(asset.id);
+    }
+
+    const fee = fillFee(order, match.quantity, match.price);
+    const filledBefore = order.filledQuantity;
+    const filledQuantity = filledBefore + match.quantity;
+    const updated: LimitOrder = {
+      ...order,
+      filledQuantity,
+      avgFillPrice: (order.avgFillPrice * filledBefore + match.price * match.quantity) / filledQuantity,
+      feesPaid: order.feesPaid + fee,
+      status: filledQuantity >= order.quantity ? 'FILLED' : 'PARTIALLY_FILLED'
+    };
+    orders[i] = updated;
+
+    const transaction: Transaction = {
+      id: ctx.generateId(),
+      type: order.type,
+      assetId: asset.id,
+      assetName: asset.name,
+      quantity: match.quantity,
+      price: match.price,
+      timestamp: ctx.now,
+      orderType: order.orderType,
+      orderId: order.id,
+      fee,
+      liquidity: liquidityFor(order.orderType, order.timeInForce)
+    };
+    // Only the traded leg moves here; escrow is released by settleEscrow below
+    bookFill(newPortfolio, transaction, order.lotIds);
+    events.push({ kind: 'FILL', transaction, orderId: order.id });
+    events.push({
+      kind: 'NOTIFICATION',
+      message: updated.status === 'FILLED'
+        ? `${ORDER_TYPE_LABELS[order.orderType]} ${order.type} filled: ${order.quantity} ${asset.name} @ $${updated.avgFillPrice.toFixed(2)}`
+        : `${ORDER_TYPE_LABELS[order.orderType]} ${order.type} partially filled: ${filledQuantity}/${order.quantity} ${asset.name} @ $${match.price.toFixed(2)}`,
+      level: 'success',
+      category: 'FILL'
+    });
+
+    orders.forEach((other, j) => {
+      if (j === i || isTerminal(other)) return;
+
+      // One-cancels-other: the first fill in the group ends its siblings
+      if (order.ocoGroupId && other.ocoGroupId === order.ocoGroupId) {
+        orders[j] = { ...other, status: 'CANCELLED', closedAt: ctx.now };
+        events.push({ kind: 'ORDER_CANCELLED', order: orders[j] });
+        events.push({
+          kind: 'NOTIFICATION',
+          message: `Linked ${ORDER_TYPE_LABELS[other.orderType].toLowerCase()} ${other.type} cancelled`,
+          level: 'info'
+        });
+        return;
+      }
+
+      // Bracket exits cover whatever the entry has bought so far
+      if (other.parentId === order.id) {
+        orders[j] = {
+          ...other,
+          quantity: other.quantity + match.quantity,
+          status: other.status === 'PENDING' ? 'OPEN' : other.status
+        };
+      }
+    });
+  }
+
+  if (events.length === 0 && !changed) return { portfolio, events };
+
+  touchedBooks.forEach(assetId => {
+    events.push({ kind: 'LIQUIDITY_TAKEN', assetId, book: books[assetId] as OrderBook });
+  });
+
+  newPortfolio.openOrders = orders.filter(o => !isTerminal(o));
+  settleEscrow(newPortfolio, portfolio.openOrders, newPortfolio.openOrders);
+  archiveClosed(newPortfolio, orders, ctx.now);
+  return { portfolio: newPortfolio, events };
+};
+
+/**
+ * Interest a margin account owes for one tick on its borrowed cash and short
+ * positions. The caller keeps the running total and hands it to
+ * applyMarginRules, which charges it.
+ */
+export const tickInterest = (portfolio: Portfolio, assets: Asset[], ctx: EngineContext): number =>
+  portfolio.accountType === 'MARGIN'
+    ? marginInterest(portfolio, assets, ctx.margin, escrowedCash(portfolio))
+    : 0;
+
+/**
+ * Runs once per tick: charges the accrued interest every
+ * MARGIN_INTEREST_POSTING_MS, so quiet ticks leave the account untouched,
+ * then checks maintenance with the uncharged interest counted against equity.
+ * A margin account below it is charged at once and gets a margin call: its
+ * open orders are cancelled and positions are closed at market, largest
+ * first, until equity covers maintenance again.
+ */
+export const applyMarginRules = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  ctx: EngineContext,
+  accrued: InterestAccrual
+): EngineResult => {
+  const status = accountStatus(portfolio, assets, ctx);
+  const belowMaintenance = portfolio.accountType === 'MARGIN'
+    && status.grossExposure > 0
+    && status.equity - accrued.amount < status.maintenanceRequirement;
+  const due = belowMaintenance || ctx.now - accrued.since >= MARGIN_INTEREST_POSTING_MS;
+  const interest = due ? accrued.amount : 0;
+  if (interest === 0 && !belowMaintenance) return { portfolio, events: [] };
+
+  let current = clonePortfolio(portfolio);
+  current.cashBalance -= interest;
+  current.interestPaid = (current.interestPaid || 0) + interest;
+  const charged: EngineEvent[] = interest > 0 ? [{ kind: 'INTEREST_CHARGED', amount: interest }] : [];
+  if (!belowMaintenance) return { portfolio: current, events: charged };
+
+  const events: EngineEvent[] = [
+    ...charged,
+    { kind: 'MARGIN_CALL', equity: status.equity - interest, requirement: status.maintenanceRequirement },
+    {
+      kind: 'NOTIFICATION',
+      message: `Margin call: equity $${(status.equity - interest).toFixed(2)} is below maintenance $${status.maintenanceRequirement.toFixed(2)}, liquidating`,
+      level: 'info'
+    }
+  ];
+
+  [...current.openOrders].forEach(order => {
+    if (!current.openOrders.some(o => o.id === order.id)) return;
+    const cancelled = cancelOrder(current, order.id, ctx);
+    current = cancelled.portfolio;
+    events.push(...cancelled.events.filter(e => e.kind === 'ORDER_CANCELLED'));
+  });
+
+  const exposure = (assetId: string) =>
+    Math.abs(positionOf(current, assetId) * (assets.find(a => a.id === assetId)?.current_price || 0));
+  const positions = Object.keys(current.holdings)
+    .filter(assetId => positionOf(current, assetId) !== 0)
+    .sort((a, b) => exposure(b) - exposure(a));
+
+  for (const assetId of positions) {
+    const after = accountStatus(current, assets, ctx);
+    if (after.equity >= after.maintenanceRequirement) break;
+
+    const asset = assets.find(a => a.id === assetId);
+    if (!asset) continue;
+    const position = positionOf(current, assetId);
+    const closed = executeImmediately(current, {
+      assetId,
+      type: position > 0 ? 'SELL' : 'BUY',
+      orderType: 'MARKET',
+      quantity: Math.abs(position),
+      timeInForce: 'IOC'
+    }, asset, assets, ctx, true);
+    current = closed.portfolio;
+    events.push(...closed.events);
+  }
+
+  return { portfolio: current, events };
+};
+
+/**
+ * Settles the account's business in delisted assets: open orders on them are
+ * cancelled, releasing their escrow, and positions still open are closed out
+ * at the delisting price without a fee. Runs every tick, so an account that
+ * was away when the asset went is settled when it comes back.
+ */
+export const settleDelistings = (
+  portfolio: Portfolio,
+  assets: Asset[],
+  ctx: EngineContext
+): EngineResult => {
+  const delisted = assets.filter(asset => asset.status === 'DELISTED' && (
+    portfolio.openOrders.some(o => o.assetId === asset.id) || positionOf(portfolio, asset.id) !== 0
+  ));
+  if (delisted.length === 0) return { portfolio, events: [] };
+
+  let current = portfolio;
+  const events: EngineEvent[] = [];
+  delisted.forEach(asset => {
+    current.openOrders.filter(o => o.assetId === asset.id).forEach(order => {
+      if (!current.openOrders.some(o => o.id === order.id)) return;
+      const cancelled = cancelOrder(current, order.id, ctx);
+      current = cancelled.portfolio;
+      events.push(...cancelled.events.filter(e => e.kind === 'ORDER_CANCELLED'));
+    });
+
+    const position = positionOf(current, asset.id);
+    const price = asset.delistPrice ?? asset.current_price;
+    if (position !== 0) {
+      current = clonePortfolio(current);
+      const transaction: Transaction = {
+        id: ctx.generateId(),
+        type: position > 0 ? 'SELL' : 'BUY',
+        assetId: asset.id,
+        assetName: asset.name,
+        quantity: Math.abs(position),
+        price,
+        timestamp: ctx.now,
+        orderType: 'MARKET',
+        fee: 0,
+        settlement: true
+      };
+      bookFill(current, transaction);
+      events.push({ kind: 'FILL', transaction });
+    }
+    events.push({
+      kind: 'NOTIFICATION',
+      message: position !== 0
+        ? `${asset.name} was delisted: ${Math.abs(position)} settled at $${price.toFixed(2)}`
+        : `${asset.name} was delisted: open orders cancelled`,
+      level: 'info'
+    });
+  });
+
+  return { portfolio: current, events };
+};
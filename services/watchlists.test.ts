@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { EngineContext, EngineResult, Portfolio, Watchlist } from '../types';
+import { DEFAULT_PORTFOLIO_DATA, DEFAULT_MARGIN_CONFIG } from '../constants';
+import { createWatchlist, renameWatchlist, deleteWatchlist, toggleWatchlistAsset, moveWatchlistAsset } from './watchlists';
+
+const ctx: EngineContext = {
+  now: 1_700_000_000_000,
+  generateId: () => 'w-new',
+  feeSchedule: { makerRate: 0, takerRate: 0, minimumFee: 0 },
+  margin: DEFAULT_MARGIN_CONFIG
+};
+
+const salads: Watchlist = { id: 'w1', name: 'Salads', assetIds: ['TOM', 'CUC', 'LET'] };
+
+const withLists = (...watchlists: Watchlist[]): Portfolio => ({ ...DEFAULT_PORTFOLIO_DATA, watchlists });
+
+const rejection = (result: EngineResult) => {
+  const event = result.events.find(e => e.kind === 'REJECTED');
+  return event && event.kind === 'REJECTED' ? event.reason : null;
+};
+
+const order = (result: EngineResult) => result.portfolio.watchlists[0].assetIds;
+
+describe('watchlists', () => {
+  it('creates an empty list under the trimmed name', () => {
+    const { portfolio } = createWatchlist(withLists(salads), '  Roots ', ctx);
+
+    expect(portfolio.watchlists).toEqual([salads, { id: 'w-new', name: 'Roots', assetIds: [] }]);
+  });
+
+  it.each([
+    ['a blank name', '  ', "Enter a watchlist name"],
+    ['a name already taken', 'salads ', 'There is already a watchlist called "salads"']
+  ])('rejects %s', (_, name, reason) => {
+    const start = withLists(salads);
+    const result = createWatchlist(start, name, ctx);
+
+    expect(rejection(result)).toBe(reason);
+    expect(result.portfolio).toBe(start);
+  });
+
+  it('renames a list, which may keep its own name', () => {
+    expect(renameWatchlist(withLists(salads), 'w1', 'SALADS').portfolio.watchlists[0].name).toBe('SALADS');
+    expect(rejection(renameWatchlist(withLists(salads, { ...salads, id: 'w2', name: 'Roots' }), 'w2', 'Salads'))).not.toBeNull();
+  });
+
+  it('deletes a list', () => {
+    expect(deleteWatchlist(withLists(salads), 'w1').portfolio.watchlists).toEqual([]);
+  });
+
+  it('toggles an asset on and off the list', () => {
+    expect(order(toggleWatchlistAsset(withLists(salads), 'w1', 'CAR'))).toEqual(['TOM', 'CUC', 'LET', 'CAR']);
+    expect(order(toggleWatchlistAsset(withLists(salads), 'w1', 'CUC'))).toEqual(['TOM', 'LET']);
+  });
+
+  it('moves an asset before another or to the end', () => {
+    expect(order(moveWatchlistAsset(withLists(salads), 'w1', 'LET', 'TOM'))).toEqual(['LET', 'TOM', 'CUC']);
+    expect(order(moveWatchlistAsset(withLists(salads), 'w1', 'TOM', 'LET'))).toEqual(['CUC', 'TOM', 'LET']);
+    expect(order(moveWatchlistAsset(withLists(salads), 'w1', 'TOM', null))).toEqual(['CUC', 'LET', 'TOM']);
+  });
+
+  it('ignores moves of assets that are not on the list', () => {
+    const start = withLists(salads);
+
+    expect(moveWatchlistAsset(start, 'w1', 'CAR', 'TOM').portfolio.watchlists[0]).toBe(salads);
+  });
+});
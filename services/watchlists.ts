@@ -0,0 +1,66 @@
+import { Portfolio, Watchlist, EngineContext, EngineResult } from '../types';
+import { reject } from './tradingEngine';
+
+// Names are compared trimmed and case-insensitively
+const nameError = (portfolio: Portfolio, name: string, exceptId?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return "Enter a watchlist name";
+  const taken = (portfolio.watchlists || []).some(w => w.id !== exceptId && w.name.toLowerCase() === trimmed.toLowerCase());
+  return taken ? `There is already a watchlist called "${trimmed}"` : null;
+};
+
+const updateWatchlist = (portfolio: Portfolio, watchlistId: string, update: (watchlist: Watchlist) => Watchlist): EngineResult => ({
+  portfolio: {
+    ...portfolio,
+    watchlists: (portfolio.watchlists || []).map(w => w.id === watchlistId ? update(w) : w)
+  },
+  events: []
+});
+
+export const createWatchlist = (portfolio: Portfolio, name: string, ctx: EngineContext): EngineResult => {
+  const error = nameError(portfolio, name);
+  if (error) return reject(portfolio, error);
+  return {
+    portfolio: {
+      ...portfolio,
+      watchlists: [...(portfolio.watchlists || []), { id: ctx.generateId(), name: name.trim(), assetIds: [] }]
+    },
+    events: []
+  };
+};
+
+export const renameWatchlist = (portfolio: Portfolio, watchlistId: string, name: string): EngineResult => {
+  const error = nameError(portfolio, name, watchlistId);
+  if (error) return reject(portfolio, error);
+  return updateWatchlist(portfolio, watchlistId, w => ({ ...w, name: name.trim() }));
+};
+
+export const deleteWatchlist = (portfolio: Portfolio, watchlistId: string): EngineResult => ({
+  portfolio: { ...portfolio, watchlists: (portfolio.watchlists || []).filter(w => w.id !== watchlistId) },
+  events: []
+});
+
+// Adds the asset at the end of the list, or takes it off if already there
+export const toggleWatchlistAsset = (portfolio: Portfolio, watchlistId: string, assetId: string): EngineResult =>
+  updateWatchlist(portfolio, watchlistId, w => ({
+    ...w,
+    assetIds: w.assetIds.includes(assetId) ? w.assetIds.filter(id => id !== assetId) : [...w.assetIds, assetId]
+  }));
+
+/**
+ * Moves an asset to just before `beforeAssetId`, or to the end when that is
+ * null. Positions are given by asset rather than index so a move made on a
+ * filtered view lands where it was dropped.
+ */
+export const moveWatchlistAsset = (
+  portfolio: Portfolio,
+  watchlistId: string,
+  assetId: string,
+  beforeAssetId: string | null
+): EngineResult =>
+  updateWatchlist(portfolio, watchlistId, w => {
+    if (!w.assetIds.includes(assetId) || assetId === beforeAssetId) return w;
+    const rest = w.assetIds.filter(id => id !== assetId);
+    const at = beforeAssetId === null ? -1 : rest.indexOf(beforeAssetId);
+    return { ...w, assetIds: at < 0 ? [...rest, assetId] : [...rest.slice(0, at), assetId, ...rest.slice(at)] };
+  });
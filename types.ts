@@ -1,56 +1,528 @@
-export interface Asset {
+// All price model parameters are expressed per simulation tick
+export type PriceModelConfig =
+  | { kind: 'GBM'; drift: number; volatility: number }
+  | { kind: 'MEAN_REVERTING'; mean: number; reversionSpeed: number; volatility: number }
+  | {
+      kind: 'JUMP_DIFFUSION';
+      drift: number;
+      volatility: number;
+      jumpProbability: number;
+      jumpMean: number; // Mean log jump size
+      jumpStdDev: number;
+    }
+  | {
+      kind: 'REGIME_SWITCHING';
+      regimes: { drift: number; volatility: number }[];
+      switchProbability: number;
+    };
+
+// HALTED assets keep their orders and positions but neither trade nor move.
+// DELISTED ones are settled: orders cancelled, positions closed out.
+export type AssetStatus = 'TRADING' | 'HALTED' | 'DELISTED';
+
+// An asset as the catalog describes it, before any market data
+export interface AssetListing {
   id: string;
   name: string;
   icon: string;
   initial_price: number;
+  category: string;
+  tickSize: number; // Order prices are multiples of this
+  lotSize: number; // Order quantities are multiples of this
+  priceModel?: PriceModelConfig; // Volatility profile
+  status: AssetStatus;
+  delistPrice?: number; // Settlement price once DELISTED; the last traded price when unset
+}
+
+export interface Asset extends AssetListing {
   current_price: number;
   history: { time: number; price: number; volume: number }[];
+  candles: Candle[]; // One per CANDLE_BASE_MS, oldest first; the last one is still forming
   change24h: number; // Percentage
+  orderBook?: OrderBook;
+}
+
+// `time` is the start of the candle's interval
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type MarketEventKind = 'DROUGHT' | 'BUMPER_HARVEST' | 'FROST' | 'EXPORT_BAN' | 'SEASONAL_DEMAND';
+
+// ASSET hits a single asset, CATEGORY every asset sharing its category
+export type MarketEventScope = 'ASSET' | 'CATEGORY';
+
+// Something that happened to the market. Its effects are strongest when it
+// breaks and halve every `halfLifeMs`: prices are pushed by `impact` (a
+// fraction, signed) and volatility and volume scaled by their multipliers.
+export interface MarketEvent {
+  id: string;
+  kind: MarketEventKind;
+  time: number;
+  headline: string;
+  assetIds: string[];
+  impact: number;
+  halfLifeMs: number;
+  volatilityMultiplier: number;
+  volumeMultiplier: number;
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h';
+
+export type IndicatorKind = 'SMA' | 'EMA' | 'VWAP' | 'BOLLINGER' | 'RSI' | 'MACD' | 'ATR';
+
+// One indicator on the chart. `period` is in candles; for MACD it is the
+// signal line's, with the fast and slow averages fixed.
+export interface IndicatorConfig {
+  id: string;
+  kind: IndicatorKind;
+  period: number;
+  color: string;
+}
+
+// A computed line, aligned with the candles; null until there is enough data
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  color: string;
+  values: (number | null)[];
+  style: 'LINE' | 'DASHED' | 'HISTOGRAM';
+}
+
+// PRICE: the price crosses `value`. PERCENT_MOVE: the price moved `value`
+// percent over `windowMs`. SMA_CROSS: the price crosses its `value`-period
+// SMA of 1m closes.
+export type AlertKind = 'PRICE' | 'PERCENT_MOVE' | 'SMA_CROSS';
+
+// ABOVE crosses upward (or rises, for PERCENT_MOVE); BELOW downward
+export type AlertDirection = 'ABOVE' | 'BELOW';
+
+export interface PriceAlert {
+  id: string;
+  assetId: string;
+  kind: AlertKind;
+  direction: AlertDirection;
+  value: number;
+  windowMs?: number; // PERCENT_MOVE only
+  repeat: boolean; // Fires each time the condition is met again; otherwise it turns itself off
+  active: boolean;
+  createdAt: number;
+  lastTriggeredAt?: number;
+  triggerCount: number;
+}
+
+export type PriceAlertRequest = Pick<PriceAlert, 'assetId' | 'kind' | 'direction' | 'value' | 'windowMs' | 'repeat'>;
+
+// One purchase that is still (partly) held. `unitCost` includes the buy fee.
+export interface TaxLot {
+  id: string; // The BUY transaction that opened it
+  quantity: number;
+  unitCost: number;
+  acquiredAt: number;
 }
 
+// Which lots a SELL closes. SPECIFIC uses the lots picked on the order and
+// falls back to FIFO for the rest.
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE' | 'SPECIFIC';
+
+// `quantity` is what is free to trade; `lots` cover the whole position,
+// including units escrowed by open SELL orders. Short positions (margin
+// accounts only) have a negative quantity and negative lots whose `unitCost`
+// is the entry proceeds per unit.
 export interface Holding {
   quantity: number;
   avgCost: number;
+  lots: TaxLot[];
+  realizedPnl: number;
 }
 
 export interface Transaction {
   id: string;
-  type: 'BUY' | 'SELL';
+  type: OrderSide;
   assetId: string;
   assetName: string;
   quantity: number;
   price: number;
   timestamp: number;
-  orderType: 'MARKET' | 'LIMIT';
+  orderType: OrderType;
+  orderId?: string; // Set for fills of resting orders
+  fee?: number; // Commission charged on this fill
+  liquidity?: Liquidity;
+  realizedPnl?: number; // Set when the fill closed lots: proceeds after fees minus their cost
+  liquidation?: boolean; // Forced by a margin call
+  settlement?: boolean; // Closed out because the asset was delisted
+}
+
+// MAKER: a resting order the market came to. TAKER: executed on arrival or
+// once a stop triggered.
+export type Liquidity = 'MAKER' | 'TAKER';
+
+// Fee rates are fractions of the traded notional
+export interface FeeRates {
+  makerRate: number;
+  takerRate: number;
+}
+
+export interface FeeTier extends FeeRates {
+  minVolume: number; // Trailing notional needed to qualify
+}
+
+export interface FeeSchedule extends FeeRates {
+  minimumFee: number; // Per order, however many fills it takes
+  tiers?: FeeTier[];
+  overrides?: Record<string, Partial<FeeRates> & { minimumFee?: number }>; // By asset id
+}
+
+// Snapshot of the editable fields before an amendment was applied
+export interface OrderAmendment {
+  timestamp: number;
+  previous: {
+    quantity: number;
+    targetPrice: number;
+    triggerPrice?: number;
+  };
 }
 
+export interface OrderAmendmentRequest {
+  quantity?: number;
+  targetPrice?: number; // Limit price (LIMIT, STOP_LIMIT)
+  triggerPrice?: number; // STOP_MARKET, STOP_LIMIT, TAKE_PROFIT
+}
+
+// PENDING: a bracket exit waiting for its entry order to fill
+export type OrderStatus = 'PENDING' | 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'EXPIRED';
+
 export interface LimitOrder {
   id: string;
   assetId: string;
-  type: 'BUY' | 'SELL';
+  type: OrderSide;
   quantity: number;
   targetPrice: number;
   timestamp: number;
+  status: OrderStatus;
+  filledQuantity: number;
+  avgFillPrice: number; // 0 until the first fill
+  // Anything but LIMIT waits for its trigger before it can match. `targetPrice`
+  // is then the limit (STOP_LIMIT) or the per-unit cash escrow collar (BUY).
+  orderType: OrderType;
+  triggerPrice?: number;
+  trailingOffset?: number;
+  trailingReference?: number; // Best price seen since placement
+  triggeredAt?: number;
+  // Linked orders. Bracket exits point at their entry through `parentId` and
+  // grow with each entry fill; orders sharing an `ocoGroupId` share one escrow
+  // and the first to fill cancels the rest.
+  parentId?: string;
+  ocoGroupId?: string;
+  timeInForce: TimeInForce;
+  expiresAt?: number;
+  closedAt?: number; // Set once FILLED, CANCELLED or EXPIRED
+  amendments?: OrderAmendment[];
+  // Fee terms are fixed at placement so a BUY's escrow covers its fees exactly
+  feeRate: number;
+  minimumFee: number;
+  feesPaid: number;
+  lotIds?: string[]; // SELL lots to close first under SPECIFIC cost basis
+  // SELL units beyond those held when placed (margin accounts). They are
+  // borrowed as the order fills, after the held units, which are escrowed.
+  shortQuantity?: number;
 }
 
 export interface Portfolio {
   cashBalance: number;
   holdings: Record<string, Holding>;
+  // Fills and finished orders (filled, cancelled, expired) from the current
+  // engine step. On commit the store moves them into the history
+  // sub-collection, so the stored document keeps both empty.
   transactions: Transaction[];
   openOrders: LimitOrder[];
+  closedOrders: LimitOrder[];
+  feesPaid: number; // All-time total, since the fills themselves live in history
+  volumeByDay: Record<string, number>; // Traded notional per UTC day, within the fee window
+  costBasisMethod: CostBasisMethod;
+  accountType: AccountType;
+  interestPaid: number; // Margin interest charged so far
+  indicators: IndicatorConfig[]; // Chart overlays and sub-panes, kept with the account
+  alerts: PriceAlert[];
+  notifications: InboxNotification[]; // Newest first, the oldest dropped past MAX_NOTIFICATIONS
+  toastCategories: Record<NotificationCategory, boolean>; // Whether each category also pops up as a toast
+  watchlists: Watchlist[];
+  equityHistory: EquitySnapshot[]; // Oldest first, thinned out as it grows
+  fundingEvents: FundingEvent[];
+  lastHistoryId: string | null; // Newest entry the store moved into history; views reload when it changes
+  version: number; // Bumped by every committed write
+}
+
+// Net worth at one moment. Cash includes what open orders hold in escrow;
+// position values are signed, so shorts count against it.
+export interface EquitySnapshot {
+  time: number;
+  netWorth: number;
+  cash: number;
+  holdingsValue: number;
+  positions: Record<string, number>; // Value by asset id, open positions only
+}
+
+// Cash moved in from outside, or the account started over
+export interface FundingEvent {
+  id: string;
+  time: number;
+  kind: 'DEPOSIT' | 'RESET';
+  amount: number; // Deposited cash, or the starting cash after a reset
+}
+
+export type EquityRange = '1H' | '1D' | '1W' | 'ALL';
+
+export type ChartView = 'MARKET' | 'EQUITY' | 'ANALYTICS';
+
+export interface AssetAttribution {
+  assetId: string;
+  realizedPnl: number; // From closing fills in the range
+  unrealizedPnl: number; // Open lots at the current price
+  fees: number;
+}
+
+// Trade figures come from closing fills; return, drawdown and the ratios from
+// the equity curve with deposits and resets taken out. Ratios are per
+// snapshot interval with a zero risk-free rate; null when there is too little
+// data to tell.
+export interface PerformanceAnalytics {
+  totalReturn: number | null; // Fraction
+  closingTrades: number;
+  winRate: number | null;
+  averageWin: number | null;
+  averageLoss: number | null; // Negative
+  profitFactor: number | null;
+  maxDrawdown: number; // Fraction of the peak, 0 to 1
+  sharpe: number | null;
+  sortino: number | null;
+  exposure: { time: number; gross: number; net: number }[]; // Fractions of net worth
+  attribution: AssetAttribution[];
+}
+
+// CASH: trades are paid for in full. MARGIN: cash may go negative (borrowed)
+// and holdings may go short, within the margin requirements.
+export type AccountType = 'CASH' | 'MARGIN';
+
+// Requirements are fractions of gross position value
+export interface MarginConfig {
+  initialMargin: number; // Equity needed to open exposure
+  maintenanceMargin: number; // Equity below which positions are liquidated
+  interestRatePerTick: number; // On borrowed cash and on the value of short positions
+}
+
+// Margin interest accrued tick by tick but not yet charged to the account
+export interface InterestAccrual {
+  amount: number;
+  since: number; // When interest was last charged
+}
+
+export interface MarginStatus {
+  equity: number; // Cash, cash escrowed by orders and signed position value
+  grossExposure: number;
+  marginUsed: number; // Initial margin on current exposure
+  maintenanceRequirement: number;
+  buyingPower: number; // Further exposure the account can open
+}
+
+export type OrderSide = 'BUY' | 'SELL';
+export type OrderType =
+  | 'MARKET'
+  | 'LIMIT'
+  | 'STOP_MARKET'
+  | 'STOP_LIMIT'
+  | 'TAKE_PROFIT'
+  | 'TRAILING_STOP';
+
+// GTC: until cancelled. DAY: until the end of the calendar day. GTD: until
+// `expiresAt`. IOC / FOK: evaluated once at submission, never rest.
+export type TimeInForce = 'GTC' | 'DAY' | 'GTD' | 'IOC' | 'FOK';
+
+// What the user asked for, before the engine has validated or escrowed anything
+export interface OrderIntent {
+  assetId: string;
+  type: OrderSide;
+  orderType: OrderType;
+  quantity: number;
+  limitPrice?: number;
+  triggerPrice?: number; // STOP_MARKET, STOP_LIMIT, TAKE_PROFIT
+  trailingOffset?: number; // TRAILING_STOP, in price units
+  timeInForce?: TimeInForce; // Defaults to GTC
+  expiresAt?: number; // GTD deadline
+  // Attached exits. On a BUY they ride along as a bracket that activates once
+  // the entry fills; on a SELL they are placed right away as an OCO pair.
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  lotIds?: string[]; // SELL under SPECIFIC cost basis
+}
+
+// Injected so the trading engine stays deterministic
+export interface EngineContext {
+  now: number;
+  generateId: () => string;
+  feeSchedule: FeeSchedule;
+  margin: MarginConfig;
+}
+
+export type EngineEvent =
+  | { kind: 'ORDER_PLACED'; order: LimitOrder }
+  | { kind: 'ORDER_CANCELLED'; order: LimitOrder }
+  | { kind: 'ORDER_TRIGGERED'; order: LimitOrder }
+  | { kind: 'ORDER_EXPIRED'; order: LimitOrder }
+  | { kind: 'ORDER_AMENDED'; order: LimitOrder }
+  | { kind: 'FILL'; transaction: Transaction; orderId?: string }
+  | { kind: 'LIQUIDITY_TAKEN'; assetId: string; book: OrderBook }
+  | { kind: 'MARGIN_CALL'; equity: number; requirement: number }
+  | { kind: 'INTEREST_CHARGED'; amount: number }
+  | { kind: 'ALERT_TRIGGERED'; alert: PriceAlert; price: number }
+  | { kind: 'REJECTED'; reason: string }
+  | { kind: 'NOTIFICATION'; message: string; level: 'success' | 'info'; category?: NotificationCategory }; // SYSTEM when unset
+
+// A named, user-ordered list of assets
+export interface Watchlist {
+  id: string;
+  name: string;
+  assetIds: string[];
+}
+
+// DEFAULT keeps the catalog's order, or the watchlist's own
+export type AssetSort = 'DEFAULT' | 'PRICE' | 'CHANGE' | 'VOLUME' | 'VALUE';
+
+export type NotificationCategory = 'FILL' | 'ALERT' | 'REJECTION' | 'SYSTEM';
+
+// A NOTIFICATION event as kept in the inbox
+export interface InboxNotification {
+  id: string;
+  time: number;
+  category: NotificationCategory;
+  message: string;
+  level: 'success' | 'info';
+  read: boolean;
+}
+
+export interface EngineResult {
+  portfolio: Portfolio;
+  events: EngineEvent[];
 }
 
 export interface OrderBookItem {
   price: number;
   size: number;
-  total: number;
+  total: number; // Notional (price * size)
 }
 
+// Levels are sorted best first: asks ascending, bids descending
+export interface OrderBook {
+  bids: OrderBookItem[];
+  asks: OrderBookItem[];
+  timestamp: number;
+}
+
+export interface MarketQuote {
+  filledQuantity: number;
+  notional: number;
+  avgPrice: number;
+  slippage: number; // Fraction of the mid price paid (BUY) or given up (SELL)
+}
+
+export interface StoreUser {
+  uid: string;
+}
+
+// One document of the history sub-collection. `assetId`, `side` and
+// `orderType` are copied to the top level so they can be filtered on.
+export type HistoryEntry = {
+  id: string;
+  time: number;
+  assetId: string;
+  side: OrderSide;
+  orderType: OrderType;
+} & (
+  | { kind: 'FILL'; transaction: Transaction }
+  | { kind: 'ORDER'; order: LimitOrder }
+);
+
+export interface HistoryFilter {
+  assetId?: string;
+  side?: OrderSide;
+  orderType?: OrderType;
+}
+
+// Position of the last entry read; pages continue strictly after it
+export interface HistoryCursor {
+  time: number;
+  id: string;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[]; // Newest first
+  next: HistoryCursor | null; // Null when there is nothing older
+}
+
+// Versioned JSON backup of an account: the portfolio document plus its
+// whole history
+export interface PortfolioExport {
+  format: 'veggietrade-portfolio';
+  version: number;
+  exportedAt: number;
+  portfolio: Portfolio;
+  history: HistoryEntry[];
+}
+
+// REPLACE restores the backup as the account; MERGE adds its cash, positions
+// and open orders to the current one. History is added either way.
+export type ImportMode = 'REPLACE' | 'MERGE';
+
+export type ParsedImport =
+  | { ok: true; data: PortfolioExport }
+  | { ok: false; errors: string[] };
+
+export type ExportKind = 'HOLDINGS_CSV' | 'ORDERS_CSV' | 'TRADES_CSV' | 'JSON';
+
+// Where portfolios are kept. Every backend behaves the same towards the app:
+// `subscribe` and `load` create a default portfolio if there is none, and
+// `subscribe` hears about every write, including the caller's own.
+export interface PortfolioStore {
+  name: string;
+  authenticate: () => Promise<StoreUser | null>;
+  subscribe: (userId: string, onUpdate: (data: Portfolio) => void) => () => void;
+  load: (userId: string) => Promise<Portfolio>;
+  // Writes the portfolio only if the stored version is still
+  // `expectedVersion`; resolves false when someone else wrote first. `history`
+  // is stored by entry id, so a store may write it ahead of the version check
+  // (Firestore does, in batches) and a retry overwrites rather than duplicates
+  commit: (userId: string, expectedVersion: number, portfolio: Portfolio, history: HistoryEntry[]) => Promise<boolean>;
+  loadHistory: (userId: string, filter: HistoryFilter, pageSize: number, after?: HistoryCursor) => Promise<HistoryPage>;
+  // Shared by every user. Falls back to DEFAULT_ASSET_CATALOG while nothing
+  // is stored, and hears about every later change.
+  subscribeCatalog: (onUpdate: (listings: AssetListing[]) => void) => () => void;
+}
+
+export interface CommitOutcome {
+  // UNCHANGED: the step left the portfolio as it was (e.g. a rejection).
+  // CONFLICT: every attempt lost to a concurrent write.
+  status: 'COMMITTED' | 'UNCHANGED' | 'CONFLICT' | 'ERROR';
+  events: EngineEvent[]; // From the attempt that counted; none on CONFLICT or ERROR
+  portfolio?: Portfolio; // What was written, when COMMITTED
+  error?: string;
+}
+
+export type SyncStatus = 'SYNCED' | 'SAVING' | 'RETRYING' | 'CONFLICT' | 'ERROR';
+
+export type PortfolioStoreKind = 'firestore' | 'local' | 'memory';
+
 // Global variable declarations provided by the environment
 declare global {
   interface Window {
     __app_id?: string;
     __firebase_config?: any;
     __initial_auth_token?: string;
+    __simulation_seed?: number;
+    __portfolio_store?: PortfolioStoreKind; // Defaults to Firestore when configured, else local storage
   }
 }
\ No newline at end of file